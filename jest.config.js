@@ -4,6 +4,23 @@ module.exports = {
     '**/__tests__/**/*.test.js',
     '**/*.test.js'
   ],
+  // Tests import the TypeScript modules directly. The Babel options are inline rather
+  // than in a babel.config.js, which would make Next build with Babel instead of SWC.
+  transform: {
+    '^.+\\.[jt]s$': ['babel-jest', {
+      presets: [
+        ['@babel/preset-env', { targets: { node: 'current' } }],
+        '@babel/preset-typescript',
+      ],
+    }],
+  },
+  // Octokit only ships ES modules
+  transformIgnorePatterns: [
+    '/node_modules/(?!(@octokit|universal-user-agent|before-after-hook)/)',
+  ],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
   collectCoverageFrom: [
     'src/**/*.{js,ts}',
     '!src/**/*.d.ts',
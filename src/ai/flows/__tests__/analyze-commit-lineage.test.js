@@ -206,3 +206,23 @@ describe('Timeout Handling', () => {
       .rejects.toThrow('Operation timed out after 50ms');
   });
 });
+
+describe('Pull Request Merge Strategy', () => {
+  const { toMergeStrategy } = require('@/ai/lineage/merge-strategy');
+
+  it.each([
+    ['Advanced Squash', 'squash'],
+    ['Squash', 'squash'],
+    ['Rebase Merge', 'rebase'],
+    ['Interactive Rebase', 'rebase'],
+    ['Fast-Forward', 'fast-forward'],
+    ['Merge Commit', 'merge'],
+  ])('should map %s to %s', (type, expected) => {
+    expect(toMergeStrategy(type)).toBe(expected);
+  });
+
+  it('should fall back to the timeline merge strategy', () => {
+    expect(toMergeStrategy('Unknown', [{ event: 'merged', merge_strategy: 'rebase' }])).toBe('rebase');
+    expect(toMergeStrategy('Unknown', [])).toBe('unknown');
+  });
+});
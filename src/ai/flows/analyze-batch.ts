@@ -0,0 +1,103 @@
+'use server';
+
+import type { ApiCacheStats, BatchAnalysisItem, BatchAnalysisResult, SquashAnalysisConfig } from '@/lib/types';
+import { createSourceControlProvider, SourceControlProviderName } from '@/ai/providers/source-control-provider';
+import { CachingSourceControlProvider } from '@/ai/providers/caching-provider';
+import { calculateLeadTimeForChanges } from '@/ai/metrics/lead-time';
+import { mergeLineages } from '@/ai/lineage/merge-lineage';
+import { describeError, redactSecrets } from '@/lib/credentials';
+import { analyzeCommitLineage } from './analyze-commit-lineage';
+
+const DEFAULT_CONCURRENCY = 4;
+const MAX_CONCURRENCY = 8;
+
+export interface BatchPullRequest {
+  owner: string;
+  repo: string;
+  pullRequestNumber: number;
+}
+
+export interface AnalyzeBatchInput {
+  pullRequests: BatchPullRequest[];
+  githubToken: string;
+  provider?: SourceControlProviderName;
+  // GitHub Enterprise Server host or API URL (default: github.com)
+  baseUrl?: string;
+  squashAnalysisConfig?: SquashAnalysisConfig;
+  productionEnvironments?: string[];
+  includeReleases?: boolean;
+  // Analyses run at the same time, capped at MAX_CONCURRENCY
+  concurrency?: number;
+  // Stops every analysis still running
+  signal?: AbortSignal;
+  // Counts API responses served from the response cache
+  cacheStats?: ApiCacheStats;
+}
+
+/**
+ * Analyzes several PRs, possibly across repositories, with one client and one response
+ * cache, so commits, comparisons and nested PRs they have in common are fetched once.
+ * Runs a bounded number of analyses at a time. A PR whose analysis fails is reported with
+ * its error; the others still land in the merged graph.
+ */
+export async function analyzeBatch(input: AnalyzeBatchInput): Promise<BatchAnalysisResult> {
+  const {
+    pullRequests,
+    githubToken,
+    provider: providerName = 'github',
+    baseUrl,
+    squashAnalysisConfig,
+    productionEnvironments,
+    includeReleases = true,
+    signal,
+    cacheStats,
+  } = input;
+  const concurrency = Math.max(1, Math.min(input.concurrency || DEFAULT_CONCURRENCY, MAX_CONCURRENCY));
+
+  const provider = new CachingSourceControlProvider(
+    await createSourceControlProvider(providerName, githubToken, { signal, cacheStats, baseUrl })
+  );
+
+  const items: BatchAnalysisItem[] = pullRequests.map(pr => ({ ...pr }));
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      signal?.throwIfAborted();
+      try {
+        const commitLineage = await analyzeCommitLineage({
+          repoOwner: item.owner,
+          repoName: item.repo,
+          pullRequestNumber: item.pullRequestNumber,
+          githubToken,
+          provider: providerName,
+          squashAnalysisConfig,
+          productionEnvironments,
+          includeReleases,
+          signal,
+          sourceControlProvider: provider,
+        });
+        const leadTime = calculateLeadTimeForChanges(commitLineage, { pullRequestNumber: item.pullRequestNumber });
+        item.result = { commitLineage, leadTime };
+      } catch (error: any) {
+        signal?.throwIfAborted();
+        console.warn(`Batch analysis: failed to analyze ${item.owner}/${item.repo}#${item.pullRequestNumber}:`, describeError(error, [githubToken]));
+        item.error = {
+          message: redactSecrets(error?.message || 'Analysis failed', [githubToken]),
+          status: typeof error?.status === 'number' ? error.status : undefined,
+        };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+
+  const graph = mergeLineages(items.flatMap(item => item.result ? [{
+    repository: `${item.owner}/${item.repo}`,
+    pullRequestNumber: item.pullRequestNumber,
+    lineage: item.result.commitLineage,
+  }] : []));
+
+  return { items, graph, cache: provider.stats };
+}
@@ -1,10 +1,40 @@
 'use server';
 
-import { Octokit } from '@octokit/rest';
-import type { AnalyzeCommitLineageOutput, CommitNode } from '@/lib/types';
-import { getPullRequestData, GitHubCommit, PullRequestData, TimelineEvent } from '@/ai/tools/github-tools';
+import type {
+  AnalysisEventListener,
+  AnalysisIssue,
+  AnalysisProgress,
+  AnalyzeCommitLineageOutput,
+  ApiCacheStats,
+  BackportLink,
+  CommitLookupResult,
+  CommitNode,
+  CommitOrigin,
+  DataTruncation,
+  LineageDeployment,
+  PartialLineage,
+  PullRequestLandingStatus,
+  PullRequestNode,
+  SquashDetectionResult,
+} from '@/lib/types';
+import type { GitHubCommit, PullRequestData, TimelineEvent } from '@/ai/tools/github-tools';
+import { createSourceControlProvider, SourceControlProvider, SourceControlProviderName } from '@/ai/providers/source-control-provider';
+import { RateLimitExceededError } from '@/ai/providers/github-client';
+import { parseBackportReferences, parseCherryPickSources } from '@/ai/lineage/backport-references';
+import { getLandingStatus, RevertTracker } from '@/ai/lineage/revert-tracker';
+import { LineageEdgeSet, pullRequestRef } from '@/ai/lineage/lineage-edges';
+import { centerLineage, describeCommitOrigin } from '@/ai/lineage/commit-origin';
+import { toMergeStrategy } from '@/ai/lineage/merge-strategy';
+import { getCompleteness, toAnalysisIssue, truncationWarning } from '@/ai/lineage/analysis-issues';
+import { DeploymentTracker, getProductionEnvironments } from '@/ai/lineage/deployment-tracker';
+import { calculateCycleTime } from '@/ai/metrics/cycle-time';
 import { AnalysisDepthManager } from '@/ai/squash-detection/analysis-depth-manager';
+import { RebaseMergeDetector } from '@/ai/squash-detection/rebase-merge-detector';
 import type { SquashAnalysisConfig } from '@/lib/types';
+import { describeError } from '@/lib/credentials';
+
+// Nested and backported PRs waiting beyond this are left out and reported as warnings
+const MAX_QUEUED_PULL_REQUESTS = 20;
 
 /**
  * Creates a promise that rejects after a specified timeout
@@ -70,6 +100,94 @@ function parsePrNumberFromMessage(message: string): number | null {
   return null;
 }
 
+/**
+ * Follows cherry-pick trailers and backport references from a PR back to the original change.
+ * Cherry-picked source commits are added to the lineage; the original PRs are returned in
+ * the link so the caller can queue them.
+ */
+async function traceBackport(
+  provider: SourceControlProvider,
+  repoOwner: string,
+  repoName: string,
+  pullRequestNumber: number,
+  prData: PullRequestData,
+  nodes: Map<string, CommitNode>,
+  edges: LineageEdgeSet,
+  onWarning: (issue: AnalysisIssue) => void
+): Promise<BackportLink | null> {
+  const via: BackportLink['via'] = [];
+  const originalPrs = new Set<number>();
+
+  const fromTitle = parseBackportReferences(prData.prDetails.title);
+  if (fromTitle.length > 0) via.push('title');
+  const fromBody = parseBackportReferences(prData.prDetails.body);
+  if (fromBody.length > 0) via.push('body');
+  [...fromTitle, ...fromBody].forEach(number => originalPrs.add(number));
+
+  const cherryPicks: BackportLink['cherryPicks'] = [];
+  const commits = prData.mergeCommit ? [...prData.prCommits, prData.mergeCommit] : prData.prCommits;
+
+  for (const commit of commits) {
+    for (const source of parseCherryPickSources(commit.commit.message)) {
+      // Trailers may carry abbreviated SHAs
+      let original = nodes.get(source) || Array.from(nodes.values()).find(node => node.sha.startsWith(source));
+
+      if (!original) {
+        try {
+          const details = await provider.getCommitDetails(repoOwner, repoName, source);
+          original = nodes.get(details.sha) || {
+            sha: details.sha,
+            shortSha: details.sha.substring(0, 7),
+            message: details.commit.message,
+            author: details.commit.author?.name || 'N/A',
+            date: details.commit.author?.date || new Date().toISOString(),
+            parents: details.parents.map(p => p.sha),
+            type: 'Commit',
+          };
+          nodes.set(original.sha, original);
+        } catch (e) {
+          console.warn(`Could not fetch cherry-picked commit ${source}`, describeError(e));
+          onWarning(toAnalysisIssue(e, 'cherry-pick', { pullRequestNumber, commitSha: source }));
+        }
+      }
+
+      const originalSha = original?.sha || source;
+      cherryPicks.push({ sha: commit.sha, originalSha });
+
+      const originalPr = original && (
+        parsePrNumberFromMessage(original.message) ??
+        parseInt(original.message.match(/^Merge pull request #(\d+)/)?.[1] || '', 10)
+      );
+      if (originalPr) originalPrs.add(originalPr);
+
+      if (original) {
+        edges.add({
+          type: 'cherry-picked-as',
+          from: original.sha,
+          to: commit.sha,
+          confidence: 1,
+          evidence: { trailer: `(cherry picked from commit ${source})` },
+        });
+      }
+
+      const node = nodes.get(commit.sha);
+      if (node && node.type === 'Commit') node.type = 'Cherry-Pick';
+    }
+  }
+
+  if (cherryPicks.length > 0) via.push('trailer');
+  originalPrs.delete(pullRequestNumber);
+  if (via.length === 0) return null;
+
+  return {
+    pullRequestNumber,
+    branch: prData.prDetails.base.ref,
+    originalPullRequestNumbers: Array.from(originalPrs),
+    cherryPicks,
+    via,
+  };
+}
+
 /**
  * Detects the type of git operation based on commit data and patterns
  */
@@ -194,19 +312,6 @@ function detectRebase(
     };
   }
 
-  // Check for simple rebase patterns
-  if (hasSimpleRebasePatterns(mergeCommit, prCommits)) {
-    return {
-      isRebase: true,
-      type: 'Simple Rebase',
-      confidence: 0.6,
-      metadata: {
-        linearHistory: true,
-        baseChanged: baseRefChangedEvents.length > 0
-      }
-    };
-  }
-
   return { isRebase: false, type: '', confidence: 0 };
 }
 
@@ -235,28 +340,32 @@ function hasInteractiveRebasePatterns(
   return interactiveRebaseKeywords.some(pattern => pattern.test(message));
 }
 
-/**
- * Detects simple rebase patterns
- */
-function hasSimpleRebasePatterns(
-  mergeCommit: GitHubCommit,
-  prCommits: GitHubCommit[]
-): boolean {
-  // Simple rebase typically:
-  // - Maintains commit structure but changes base
-  // - Results in linear history
-  // - May have only one parent (the new base)
-
-  return mergeCommit.parents.length === 1 && prCommits.length >= 1;
-}
-
 // This input type is kept for compatibility with the calling action.
 export interface AnalyzeCommitLineageInput {
   repoOwner: string;
   repoName: string;
   pullRequestNumber: number;
   githubToken: string;
+  provider?: SourceControlProviderName;
+  // Path of a local clone to analyze offline when provider is 'local'
+  repositoryPath?: string;
+  // GitHub Enterprise Server host or API URL (default: github.com)
+  baseUrl?: string;
   squashAnalysisConfig?: SquashAnalysisConfig;
+  // Deployment environments treated as production (default: PRODUCTION_ENVIRONMENTS or "production", "prod")
+  productionEnvironments?: string[];
+  // Count published releases as production deployments (default: true)
+  includeReleases?: boolean;
+  // Cancels the analysis, including in-flight API requests
+  signal?: AbortSignal;
+  // Called after each PR and phase with the lineage gathered so far
+  onProgress?: (progress: AnalysisProgress, partial: PartialLineage) => void;
+  // Receives structured events: PRs fetched and queued, detectors run, rate limit left
+  onEvent?: AnalysisEventListener;
+  // Provider to use instead of creating one, so several analyses share a client and cache
+  sourceControlProvider?: SourceControlProvider;
+  // Counts API responses served from the response cache
+  cacheStats?: ApiCacheStats;
 }
 
 /**
@@ -270,14 +379,36 @@ export async function analyzeCommitLineage(
     repoName,
     pullRequestNumber: initialPullRequestNumber,
     githubToken,
-    squashAnalysisConfig
+    provider: providerName = 'github',
+    repositoryPath,
+    squashAnalysisConfig,
+    productionEnvironments,
+    includeReleases = true,
+    signal,
+    onProgress,
+    onEvent,
+    sourceControlProvider,
+    cacheStats,
+    baseUrl
   } = input;
 
-  const octokit = new Octokit({ auth: githubToken });
+  const provider = sourceControlProvider ||
+    await createSourceControlProvider(providerName, githubToken, { repositoryPath, signal, onEvent, cacheStats, baseUrl });
   const nodes = new Map<string, CommitNode>();
+  const edges = new LineageEdgeSet();
   const prQueue: number[] = [initialPullRequestNumber];
   const processedPRs = new Set<number>();
   const prsAnalyzed: number[] = [];
+  const pullRequests = new Map<number, PullRequestNode>();
+  // PR whose commits referenced each nested PR
+  const nestedIn = new Map<number, number>();
+  const truncations: DataTruncation[] = [];
+  let rateLimitExhausted: AnalyzeCommitLineageOutput['rateLimitExhausted'];
+  const warnings: AnalysisIssue[] = [];
+  const errors: AnalysisIssue[] = [];
+  const backports: BackportLink[] = [];
+  // Commits each merged PR put on its base branch, checked for reverts once all PRs are processed
+  const landings: { pullRequestNumber: number; branch: string; mergedAt?: string; landedShas: string[] }[] = [];
 
   // Initialize circuit breaker and timeout settings
   const circuitBreaker = new CircuitBreaker(3, 60000); // 3 failures, 1 minute reset
@@ -287,9 +418,53 @@ export async function analyzeCommitLineage(
 
   // Initialize advanced squash detection
   const analysisConfig = squashAnalysisConfig || AnalysisDepthManager.getDefaultConfig();
-  const depthManager = new AnalysisDepthManager(octokit, analysisConfig);
+  const recordIssue = (severity: 'warning' | 'error', issue: AnalysisIssue) => {
+    (severity === 'warning' ? warnings : errors).push(issue);
+    onEvent?.({ type: 'issue', severity, issue });
+  };
+  // Nested PR failures in deep analysis are collected with the others
+  const depthManager = new AnalysisDepthManager(provider, analysisConfig, event =>
+    event.type === 'issue' ? recordIssue(event.severity, event.issue) : onEvent?.(event));
+  const rebaseMergeDetector = new RebaseMergeDetector(provider);
+
+  const reportProgress = (phase: AnalysisProgress['phase']) => {
+    const progress: AnalysisProgress = {
+      phase,
+      pullRequestsAnalyzed: prsAnalyzed.length,
+      pullRequestsQueued: prQueue.length,
+      commitsFound: nodes.size,
+    };
+    onEvent?.({ type: 'progress', progress });
+    onProgress?.(
+      progress,
+      {
+        nodes: Array.from(nodes.values()),
+        edges: edges.toArray(),
+        pullRequests: Array.from(pullRequests.values()),
+      }
+    );
+  };
+
+  const queuePullRequest = (number: number, reason: 'nested' | 'backport', parentNumber?: number) => {
+    if (processedPRs.has(number) || prQueue.includes(number)) return;
+    if (prQueue.length >= MAX_QUEUED_PULL_REQUESTS) {
+      if (!warnings.some(w => w.stage === 'nested-pull-request' && w.pullRequestNumber === number)) {
+        recordIssue('warning', {
+          stage: 'nested-pull-request',
+          message: `Not analyzed: more than ${MAX_QUEUED_PULL_REQUESTS} PRs were queued`,
+          pullRequestNumber: number,
+          retryable: false,
+        });
+      }
+      return;
+    }
+    prQueue.push(number);
+    if (parentNumber !== undefined) nestedIn.set(number, parentNumber);
+    onEvent?.({ type: 'pr-queued', pullRequestNumber: number, parentPullRequestNumber: parentNumber, reason });
+  };
 
   while (prQueue.length > 0 && iterations < maxIterations) {
+    signal?.throwIfAborted();
     iterations++;
     const pullRequestNumber = prQueue.shift()!;
     if (processedPRs.has(pullRequestNumber)) {
@@ -302,15 +477,51 @@ export async function analyzeCommitLineage(
     try {
       const prData = await circuitBreaker.execute(() =>
         withTimeout(
-          getPullRequestData(octokit, repoOwner, repoName, pullRequestNumber),
+          provider.getPullRequestData(repoOwner, repoName, pullRequestNumber),
           operationTimeoutMs
         )
       );
 
       const prBranchName = prData.prDetails.head.ref;
+      truncations.push(...(prData.truncations || []));
+      (prData.truncations || []).forEach(truncation => recordIssue('warning', truncationWarning(truncation)));
+      onEvent?.({
+        type: 'pr-fetched',
+        pullRequestNumber,
+        title: prData.prDetails.title,
+        commits: prData.prCommits.length,
+        parentPullRequestNumber: nestedIn.get(pullRequestNumber),
+      });
+
+      const { prDetails } = prData;
+      const pullRequest: PullRequestNode = {
+        number: pullRequestNumber,
+        title: prDetails.title,
+        author: prDetails.user?.login,
+        headRef: prDetails.head.ref,
+        baseRef: prDetails.base.ref,
+        merged: prDetails.merged,
+        mergeStrategy: null,
+        mergedBy: prDetails.merged_by?.login,
+        createdAt: prDetails.created_at,
+        mergedAt: prDetails.merged_at || undefined,
+        closedAt: prDetails.closed_at || undefined,
+        mergeCommitSha: prData.mergeCommit?.sha,
+        commitShas: [],
+        parentPullRequestNumber: nestedIn.get(pullRequestNumber),
+        cycleTime: calculateCycleTime(prData),
+      };
+      pullRequests.set(pullRequestNumber, pullRequest);
 
       // Process all commits from the PR branch
       for (const commit of prData.prCommits) {
+        edges.add({
+          type: 'belongs-to-PR',
+          from: commit.sha,
+          to: pullRequestRef(pullRequestNumber),
+          confidence: 1,
+          evidence: { role: 'commit', branch: prBranchName },
+        });
         if (nodes.has(commit.sha)) continue;
 
         nodes.set(commit.sha, {
@@ -325,9 +536,7 @@ export async function analyzeCommitLineage(
         });
 
         const nestedPrNumber = parsePrNumberFromMessage(commit.commit.message);
-        if (nestedPrNumber && !processedPRs.has(nestedPrNumber) && prQueue.length < 20) {
-          prQueue.push(nestedPrNumber);
-        }
+        if (nestedPrNumber) queuePullRequest(nestedPrNumber, 'nested', pullRequestNumber);
       }
 
       // Process the merge/squash commit
@@ -336,10 +545,16 @@ export async function analyzeCommitLineage(
         const mergeCommitSha = mergeCommit.sha;
         console.log("Processing", prData.mergeCommit.commit.message);
 
+        edges.add({
+          type: 'belongs-to-PR',
+          from: mergeCommitSha,
+          to: pullRequestRef(pullRequestNumber),
+          confidence: 1,
+          evidence: { role: 'merge', branch: prData.prDetails.base.ref },
+        });
+
         const nestedPrNumber = parsePrNumberFromMessage(mergeCommit.commit.message);
-        if (nestedPrNumber && !processedPRs.has(nestedPrNumber) && prQueue.length < 20) {
-          prQueue.push(nestedPrNumber);
-        }
+        if (nestedPrNumber) queuePullRequest(nestedPrNumber, 'nested', pullRequestNumber);
 
         // Use the advanced squash detection system
         const squashAnalysis = await depthManager.analyzeWithDepth(
@@ -367,17 +582,93 @@ export async function analyzeCommitLineage(
             squashedFrom: prBranchName
           };
 
-          // Add expanded commits to the nodes map
+          const squashEvidence = {
+            methods: ((squashAnalysis.analysisMetadata.detectionMethods || []) as SquashDetectionResult[])
+              .filter(method => method.isSquash)
+              .map(method => method.method),
+            reasoning: squashAnalysis.analysisMetadata.reasoning,
+          };
+          for (const commit of prData.prCommits) {
+            edges.add({
+              type: 'squashed-into',
+              from: commit.sha,
+              to: mergeCommitSha,
+              confidence: squashAnalysis.confidence,
+              evidence: squashEvidence,
+            });
+          }
+
+          // Add expanded commits to the nodes map; nested squashes point at their own squash commit
           for (const expandedCommit of squashAnalysis.expandedCommits) {
             if (!nodes.has(expandedCommit.sha)) {
               nodes.set(expandedCommit.sha, expandedCommit);
             }
+            edges.add({
+              type: 'squashed-into',
+              from: expandedCommit.sha,
+              to: expandedCommit.metadata?.squashParent || mergeCommitSha,
+              confidence: expandedCommit.metadata?.confidence ?? squashAnalysis.confidence,
+              evidence: { methods: squashEvidence.methods, analysisDepth: expandedCommit.metadata?.analysisDepth },
+            });
           }
         } else {
-          // Fallback to legacy detection for non-squash commits
-          const legacyOperation = detectGitOperation(mergeCommit, prData.prCommits, prBranchName, prData.timelineEvents);
-          gitOperationType = legacyOperation.type;
-          gitOperationMetadata = legacyOperation.metadata || {};
+          // Rebase merges rewrite every PR commit onto the base branch
+          const rebaseMerge = await rebaseMergeDetector.detect(mergeCommit, prData.prCommits, repoOwner, repoName);
+
+          if (rebaseMerge.isRebaseMerge) {
+            gitOperationType = 'Rebase Merge';
+            gitOperationMetadata = {
+              confidence: rebaseMerge.confidence,
+              reasoning: rebaseMerge.reasoning,
+              rewrittenCommits: rebaseMerge.pairs.map(pair => ({
+                originalSha: pair.originalSha,
+                landedSha: pair.landedCommit.sha,
+                matchedBy: pair.matchedBy,
+                confidence: pair.confidence,
+              })),
+              rebasedFrom: prBranchName,
+            };
+
+            for (const pair of rebaseMerge.pairs) {
+              const landed = pair.landedCommit;
+              edges.add({
+                type: 'rebased-as',
+                from: pair.originalSha,
+                to: landed.sha,
+                confidence: pair.confidence,
+                evidence: { matchedBy: pair.matchedBy },
+              });
+              edges.add({
+                type: 'belongs-to-PR',
+                from: landed.sha,
+                to: pullRequestRef(pullRequestNumber),
+                confidence: pair.confidence,
+                evidence: { role: 'rebased', branch: prData.prDetails.base.ref },
+              });
+              // The last landed commit is added below as the PR's merge node
+              if (landed.sha === mergeCommitSha || nodes.has(landed.sha)) continue;
+
+              nodes.set(landed.sha, {
+                sha: landed.sha,
+                shortSha: landed.sha.substring(0, 7),
+                message: landed.commit.message,
+                author: landed.commit.author?.name || 'N/A',
+                date: landed.commit.author?.date || new Date().toISOString(),
+                parents: landed.parents.map(p => p.sha),
+                branch: prData.prDetails.base.ref,
+                type: 'Rebased Commit',
+                metadata: {
+                  confidence: pair.confidence,
+                  matchedBy: pair.matchedBy,
+                },
+              });
+            }
+          } else {
+            // Fallback to legacy detection for non-squash commits
+            const legacyOperation = detectGitOperation(mergeCommit, prData.prCommits, prBranchName, prData.timelineEvents);
+            gitOperationType = legacyOperation.type;
+            gitOperationMetadata = legacyOperation.metadata || {};
+          }
         }
 
         if (!nodes.has(mergeCommitSha)) {
@@ -399,13 +690,202 @@ export async function analyzeCommitLineage(
           existingNode.parents = parents;
           existingNode.metadata = gitOperationMetadata;
         }
+
+        pullRequest.mergeStrategy = toMergeStrategy(gitOperationType, prData.timelineEvents);
+
+        landings.push({
+          pullRequestNumber,
+          branch: prData.prDetails.base.ref,
+          mergedAt: mergeCommit.commit.committer?.date,
+          landedShas: [
+            mergeCommitSha,
+            ...((gitOperationMetadata.rewrittenCommits as { landedSha: string }[] | undefined) || [])
+              .map(pair => pair.landedSha)
+              .filter(sha => sha !== mergeCommitSha),
+          ],
+        });
+      }
+
+      // Link backports to the PR and commits they were cherry-picked from
+      const backport = await traceBackport(provider, repoOwner, repoName, pullRequestNumber, prData, nodes, edges,
+        issue => recordIssue('warning', issue));
+      if (backport) {
+        backports.push(backport);
+        for (const originalPr of backport.originalPullRequestNumbers) {
+          queuePullRequest(originalPr, 'backport');
+        }
       }
     } catch (error) {
-      console.warn(`Failed to process PR #${pullRequestNumber}:`, error);
+      signal?.throwIfAborted();
+      if (error instanceof RateLimitExceededError) {
+        // Nothing to show yet, so report the limit instead of an empty lineage
+        if (prsAnalyzed.length === 1) throw error;
+        // Keep what was gathered; this PR goes back to the front of the pending list
+        prsAnalyzed.pop();
+        processedPRs.delete(pullRequestNumber);
+        rateLimitExhausted = { resetAt: error.resetAt, pendingPullRequests: [pullRequestNumber, ...prQueue] };
+        for (const pending of rateLimitExhausted.pendingPullRequests) {
+          recordIssue('error', toAnalysisIssue(error, nestedIn.has(pending) ? 'nested-pull-request' : 'pull-request', { pullRequestNumber: pending }));
+        }
+        break;
+      }
+      console.warn(`Failed to process PR #${pullRequestNumber}:`, describeError(error));
       // Continue processing other PRs instead of failing completely
+      recordIssue('error', toAnalysisIssue(error, nestedIn.has(pullRequestNumber) ? 'nested-pull-request' : 'pull-request', { pullRequestNumber }));
+    }
+    reportProgress('pull-requests');
+  }
+
+  if (!rateLimitExhausted) {
+    for (const pending of prQueue) {
+      recordIssue('warning', {
+        stage: nestedIn.has(pending) ? 'nested-pull-request' : 'pull-request',
+        message: `Not analyzed: the analysis stops after ${maxIterations} PRs`,
+        pullRequestNumber: pending,
+        retryable: false,
+      });
     }
   }
 
+  // Find reverts (and reverts of reverts) of every landed PR on its base branch
+  const revertTracker = new RevertTracker(provider);
+  const landingStatuses: PullRequestLandingStatus[] = [];
+
+  for (const landing of rateLimitExhausted ? [] : landings) {
+    signal?.throwIfAborted();
+    const since = landings
+      .filter(l => l.branch === landing.branch && l.mergedAt)
+      .map(l => l.mergedAt!)
+      .sort()[0];
+
+    try {
+      const { chains, truncationReason } = await revertTracker.traceReverts(
+        repoOwner, repoName, landing.branch, since, landing.landedShas
+      );
+      if (truncationReason) {
+        recordIssue('warning', {
+          stage: 'reverts',
+          message: `Reverts on ${landing.branch} may be missing: ${truncationReason}`,
+          pullRequestNumber: landing.pullRequestNumber,
+          retryable: false,
+        });
+      }
+
+      for (const chain of chains) {
+        let revertedSha = chain.landedSha;
+        chain.reverts.forEach((revert, index) => {
+          const existing = nodes.get(revert.sha);
+          const type = index % 2 === 0 ? 'Revert' : 'Revert of Revert';
+          edges.add({
+            type: 'reverts',
+            from: revert.sha,
+            to: revertedSha,
+            confidence: 1,
+            evidence: { message: `This reverts commit ${revertedSha}`, revertDepth: index + 1 },
+          });
+          if (existing) {
+            existing.type = type;
+          } else {
+            nodes.set(revert.sha, {
+              sha: revert.sha,
+              shortSha: revert.sha.substring(0, 7),
+              message: revert.commit.message,
+              author: revert.commit.author?.name || 'N/A',
+              date: revert.commit.author?.date || new Date().toISOString(),
+              parents: revert.parents.map(p => p.sha),
+              branch: landing.branch,
+              type,
+              metadata: { revertDepth: index + 1 },
+            });
+          }
+          revertedSha = revert.sha;
+        });
+      }
+
+      landingStatuses.push({
+        pullRequestNumber: landing.pullRequestNumber,
+        branch: landing.branch,
+        status: getLandingStatus(chains),
+        revertShas: chains.flatMap(chain => chain.reverts.map(revert => revert.sha)),
+      });
+    } catch (error) {
+      signal?.throwIfAborted();
+      if (error instanceof RateLimitExceededError) {
+        rateLimitExhausted = { resetAt: error.resetAt, pendingPullRequests: [] };
+        break;
+      }
+      console.warn(`Failed to trace reverts of PR #${landing.pullRequestNumber}:`, describeError(error));
+      recordIssue('error', toAnalysisIssue(error, 'reverts', { pullRequestNumber: landing.pullRequestNumber }));
+    }
+  }
+  if (rateLimitExhausted) {
+    for (const landing of landings) {
+      const handled = landingStatuses.some(status => status.pullRequestNumber === landing.pullRequestNumber) ||
+        errors.some(error => error.stage === 'reverts' && error.pullRequestNumber === landing.pullRequestNumber);
+      if (handled) continue;
+      recordIssue('error', {
+        stage: 'reverts',
+        message: 'Skipped: the API rate limit ran out',
+        pullRequestNumber: landing.pullRequestNumber,
+        retryable: true,
+      });
+    }
+  }
+  reportProgress('reverts');
+
+  // Find when the analyzed PR reached production
+  let deployment: LineageDeployment | null = null;
+  const initialPullRequest = pullRequests.get(initialPullRequestNumber);
+  if (initialPullRequest?.mergeCommitSha && !rateLimitExhausted) {
+    try {
+      const deploymentTracker = new DeploymentTracker(provider, {
+        productionEnvironments: getProductionEnvironments(productionEnvironments),
+        includeReleases,
+      });
+      const search = await deploymentTracker.findFirstDeployment(
+        repoOwner,
+        repoName,
+        initialPullRequestNumber,
+        initialPullRequest.mergeCommitSha,
+        initialPullRequest.mergedAt
+      );
+      deployment = search.deployment;
+      if (search.truncationReason) {
+        recordIssue('warning', {
+          stage: 'deployment',
+          message: `Deployment may be missing: ${search.truncationReason}`,
+          pullRequestNumber: initialPullRequestNumber,
+          retryable: false,
+        });
+      }
+    } catch (error) {
+      signal?.throwIfAborted();
+      if (error instanceof RateLimitExceededError) {
+        rateLimitExhausted = { resetAt: error.resetAt, pendingPullRequests: [] };
+      }
+      console.warn(`Failed to find deployments of PR #${initialPullRequestNumber}:`, describeError(error));
+      recordIssue('error', toAnalysisIssue(error, 'deployment', { pullRequestNumber: initialPullRequestNumber }));
+    }
+  } else if (initialPullRequest?.mergeCommitSha) {
+    recordIssue('error', {
+      stage: 'deployment',
+      message: 'Skipped: the API rate limit ran out',
+      pullRequestNumber: initialPullRequestNumber,
+      retryable: true,
+    });
+  }
+  reportProgress('deployment');
+
+  edges.addParentEdges(Array.from(nodes.values()));
+  const edgeList = edges.toArray();
+
+  for (const pullRequest of pullRequests.values()) {
+    const ref = pullRequestRef(pullRequest.number);
+    pullRequest.commitShas = edgeList
+      .filter(edge => edge.type === 'belongs-to-PR' && edge.to === ref)
+      .map(edge => edge.from);
+  }
+
   // Generate enhanced summary with git operation statistics
   const operationCounts = Array.from(nodes.values()).reduce((acc, node) => {
     const type = node.type || 'Unknown';
@@ -417,10 +897,191 @@ export async function analyzeCommitLineage(
     .map(([type, count]) => `${count} ${type}${count > 1 ? 's' : ''}`)
     .join(', ');
 
-  const summary = `Analyzed ${prsAnalyzed.length} pull request(s): #${prsAnalyzed.join(', #')}. Found ${nodes.size} unique commits including ${operationSummary}. Enhanced detection identifies squash commits, rebases, and merge patterns.`;
+  let summary = `Analyzed ${prsAnalyzed.length} pull request(s): #${prsAnalyzed.join(', #')}. Found ${nodes.size} unique commits including ${operationSummary}. Enhanced detection identifies squash commits, rebases, and merge patterns.`;
+
+  if (landingStatuses.length > 0) {
+    const statusSummary = landingStatuses
+      .map(s => `#${s.pullRequestNumber} is ${s.status}` +
+        (s.revertShas.length > 0 ? ` (${s.revertShas.map(sha => sha.substring(0, 7)).join(' → ')})` : ''))
+      .join('; ');
+    summary += ` Landing status: ${statusSummary}.`;
+  }
+
+  if (deployment) {
+    summary += ` PR #${deployment.pullRequestNumber} first reached ${deployment.environment}` +
+      `${deployment.name ? ` (${deployment.name})` : ''} at ${deployment.deployedAt}.`;
+  }
+
+  if (backports.length > 0) {
+    const backportSummary = backports
+      .map(b => `#${b.pullRequestNumber} on ${b.branch}` +
+        (b.originalPullRequestNumbers.length > 0 ? ` from #${b.originalPullRequestNumbers.join(', #')}` : ''))
+      .join('; ');
+    summary += ` Traced ${backports.length} backport(s): ${backportSummary}.`;
+  }
+
+  if (truncations.length > 0) {
+    const truncatedPrs = [...new Set(truncations.map(t => t.pullRequestNumber))];
+    summary += ` Warning: GitHub data was truncated for PR(s) #${truncatedPrs.join(', #')}, so the lineage may be incomplete.`;
+  }
+
+  if (errors.length > 0) {
+    summary += ` Error: ${errors.length} step(s) failed, so the lineage is partial.`;
+  }
+
+  if (rateLimitExhausted) {
+    const { resetAt, pendingPullRequests } = rateLimitExhausted;
+    summary += ` Warning: the API rate limit ran out${resetAt ? ` (it resets at ${resetAt})` : ''}, so the analysis stopped early` +
+      (pendingPullRequests.length > 0 ? ` before PR(s) #${pendingPullRequests.join(', #')}` : ' before tracing reverts and deployments') +
+      '; the lineage is incomplete.';
+  }
+
+  reportProgress('complete');
 
   return {
     summary,
     nodes: Array.from(nodes.values()),
+    edges: edgeList,
+    pullRequests: Array.from(pullRequests.values()),
+    truncated: truncations.length > 0 || rateLimitExhausted !== undefined,
+    truncations,
+    backports,
+    landingStatuses,
+    deployment,
+    ...(rateLimitExhausted && { rateLimitExhausted }),
+    warnings,
+    errors,
+    completeness: getCompleteness(warnings, errors),
   };
 }
+
+export interface AnalyzeCommitInput extends Omit<AnalyzeCommitLineageInput, 'pullRequestNumber' | 'onProgress'> {
+  // Full or abbreviated SHA of the commit to trace
+  sha: string;
+}
+
+/**
+ * Reverse lookup from a commit SHA, say from a bisect or a stack trace. Finds the PRs the
+ * commit is associated with (or, for a cherry-pick pushed without a PR, those of the commit
+ * it was picked from), analyzes the lineage of the PR that landed it, and returns that
+ * lineage centred on the commit along with how the commit got its current form.
+ */
+export async function analyzeCommit(input: AnalyzeCommitInput): Promise<CommitLookupResult> {
+  const { sha: ref, ...lineageInput } = input;
+  const { repoOwner, repoName, githubToken, provider: providerName = 'github', repositoryPath, signal, onEvent, cacheStats, baseUrl } = input;
+
+  const provider = input.sourceControlProvider ||
+    await createSourceControlProvider(providerName, githubToken, { repositoryPath, signal, onEvent, cacheStats, baseUrl });
+
+  const commit = await provider.getCommitDetails(repoOwner, repoName, ref);
+  const node = toCommitNode(commit);
+  let associated = await provider.listPullRequestsForCommit(repoOwner, repoName, commit.sha);
+
+  let cherryPickedFrom: CommitNode | undefined;
+  const warnings: AnalysisIssue[] = [];
+  const [cherryPickSource] = parseCherryPickSources(commit.commit.message);
+  if (associated.length === 0 && cherryPickSource) {
+    try {
+      cherryPickedFrom = toCommitNode(await provider.getCommitDetails(repoOwner, repoName, cherryPickSource));
+      associated = await provider.listPullRequestsForCommit(repoOwner, repoName, cherryPickedFrom.sha);
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.warn(`Could not fetch cherry-picked commit ${cherryPickSource}`, describeError(error));
+      warnings.push(toAnalysisIssue(error, 'cherry-pick', { commitSha: cherryPickSource }));
+    }
+  }
+
+  const landedWith = associated.find(pr => pr.mergeCommitSha === commit.sha) || associated[0];
+  if (!landedWith) {
+    const commitLineage: AnalyzeCommitLineageOutput = {
+      summary: `No pull request is associated with commit ${node.shortSha}.`,
+      nodes: [node],
+      edges: [],
+      pullRequests: [],
+      truncated: false,
+      truncations: [],
+      backports: [],
+      landingStatuses: [],
+      deployment: null,
+      warnings,
+      errors: [],
+      completeness: getCompleteness(warnings, []),
+    };
+    return { commitLineage, commitOrigin: describeCommitOrigin(commitLineage, commit.sha), pullRequestNumber: null };
+  }
+
+  const lineage = await analyzeCommitLineage({
+    ...lineageInput,
+    pullRequestNumber: landedWith.number,
+    sourceControlProvider: provider,
+  });
+
+  // Commits the PR analysis did not reach, like a cherry-pick pushed straight to a branch
+  if (!lineage.nodes.some(n => n.sha === commit.sha)) {
+    const edges = new LineageEdgeSet();
+    lineage.edges.forEach(edge => edges.add(edge));
+    lineage.nodes.push(node);
+
+    if (cherryPickedFrom) {
+      if (!lineage.nodes.some(n => n.sha === cherryPickedFrom.sha)) lineage.nodes.push(cherryPickedFrom);
+      edges.add({
+        type: 'cherry-picked-as',
+        from: cherryPickedFrom.sha,
+        to: commit.sha,
+        confidence: 1,
+        evidence: { trailer: `(cherry picked from commit ${cherryPickSource})` },
+      });
+    } else {
+      for (const pullRequest of associated) {
+        edges.add({
+          type: 'belongs-to-PR',
+          from: commit.sha,
+          to: pullRequestRef(pullRequest.number),
+          confidence: 1,
+          evidence: { role: 'associated' },
+        });
+      }
+    }
+
+    edges.addParentEdges(lineage.nodes);
+    lineage.edges = edges.toArray();
+  }
+
+  const commitLineage = centerLineage(lineage, commit.sha);
+  const commitOrigin = describeCommitOrigin(commitLineage, commit.sha);
+  commitLineage.summary = `${describeOrigin(commitOrigin, node.shortSha)} ${commitLineage.summary}`;
+
+  return { commitLineage, commitOrigin, pullRequestNumber: landedWith.number };
+}
+
+function toCommitNode(commit: GitHubCommit): CommitNode {
+  return {
+    sha: commit.sha,
+    shortSha: commit.sha.substring(0, 7),
+    message: commit.commit.message,
+    author: commit.commit.author?.name || 'N/A',
+    date: commit.commit.author?.date || new Date().toISOString(),
+    parents: commit.parents.map(p => p.sha),
+    type: 'Commit',
+  };
+}
+
+function describeOrigin(origin: CommitOrigin, shortSha: string): string {
+  const sources = origin.sourceShas.map(sha => sha.substring(0, 7)).join(', ');
+  const pullRequests = origin.pullRequestNumbers.length > 0 ? ` in PR #${origin.pullRequestNumbers.join(', #')}` : '';
+
+  switch (origin.kind) {
+    case 'squash':
+      return `Commit ${shortSha} squashes ${origin.sourceShas.length} commit(s)${pullRequests}.`;
+    case 'rebase':
+      return `Commit ${shortSha} is a rebased copy of ${sources}${pullRequests}.`;
+    case 'cherry-pick':
+      return `Commit ${shortSha} is a cherry-pick of ${sources}${pullRequests}.`;
+    case 'merge':
+      return `Commit ${shortSha} is the merge commit${pullRequests}.`;
+    case 'pull-request-commit':
+      return `Commit ${shortSha} is an original commit${pullRequests}.`;
+    default:
+      return `Commit ${shortSha} is not part of an analyzed PR.`;
+  }
+}
@@ -0,0 +1,165 @@
+'use server';
+
+import type {
+  AnalyzeCommitLineageOutput,
+  ApiCacheStats,
+  ReleaseAnalysis,
+  ReleaseChangelogEntry,
+  ReleaseCommit,
+  SquashAnalysisConfig,
+} from '@/lib/types';
+import {
+  createSourceControlProvider,
+  MergedPullRequestSummary,
+  SourceControlProviderName,
+} from '@/ai/providers/source-control-provider';
+import { CachingSourceControlProvider } from '@/ai/providers/caching-provider';
+import { RateLimitExceededError } from '@/ai/providers/github-client';
+import { mergeLineages } from '@/ai/lineage/merge-lineage';
+import { expandPullRequestCommits, firstParentChain, toReleaseCommit } from '@/ai/lineage/release-range';
+import { describeError, redactSecrets } from '@/lib/credentials';
+import { analyzeCommitLineage } from './analyze-commit-lineage';
+
+// Every PR gets a full lineage analysis, so ranges are capped to keep within API limits
+const DEFAULT_MAX_PULL_REQUESTS = 100;
+
+export interface AnalyzeReleaseRangeInput {
+  repoOwner: string;
+  repoName: string;
+  // Tag, branch or SHA of the previous release; its history is left out
+  base: string;
+  // Tag, branch or SHA of the release
+  head: string;
+  githubToken: string;
+  provider?: SourceControlProviderName;
+  repositoryPath?: string;
+  // GitHub Enterprise Server host or API URL (default: github.com)
+  baseUrl?: string;
+  squashAnalysisConfig?: SquashAnalysisConfig;
+  maxPullRequests?: number;
+  signal?: AbortSignal;
+  // Counts API responses served from the response cache
+  cacheStats?: ApiCacheStats;
+}
+
+/**
+ * Analyzes what a release shipped: walks the first-parent history of `head` back to
+ * `base`, maps each commit to the PR it landed with, and runs the lineage analysis on
+ * every PR. The result is a changelog grouped by PR, with squashed commits expanded to
+ * the PR's original commits, and the merged lineage of the whole release. A PR whose
+ * analysis fails is listed with its error.
+ */
+export async function analyzeReleaseRange(input: AnalyzeReleaseRangeInput): Promise<ReleaseAnalysis> {
+  const {
+    repoOwner,
+    repoName,
+    base,
+    head,
+    githubToken,
+    provider: providerName = 'github',
+    repositoryPath,
+    baseUrl,
+    squashAnalysisConfig,
+    maxPullRequests = DEFAULT_MAX_PULL_REQUESTS,
+    signal,
+    cacheStats,
+  } = input;
+
+  // PR lookups and analyses of the same release overlap heavily
+  const provider = new CachingSourceControlProvider(
+    await createSourceControlProvider(providerName, githubToken, { repositoryPath, signal, cacheStats, baseUrl })
+  );
+
+  const [compare, headCommit] = await Promise.all([
+    provider.compareCommits(repoOwner, repoName, base, head),
+    provider.getCommitDetails(repoOwner, repoName, head),
+  ]);
+  const firstParentCommits = firstParentChain(compare.commits, headCommit.sha);
+  // Compare APIs cap the commits they return (250 on GitHub)
+  let truncated = compare.aheadBy > compare.commits.length;
+
+  const landed = new Map<number, { summary: MergedPullRequestSummary; landingCommits: string[] }>();
+  const directCommits: ReleaseCommit[] = [];
+  for (const commit of firstParentCommits) {
+    signal?.throwIfAborted();
+    const associated = await provider.listPullRequestsForCommit(repoOwner, repoName, commit.sha);
+    const summary = associated.find(pr => pr.mergeCommitSha === commit.sha) || associated[0];
+    if (!summary) {
+      directCommits.push(toReleaseCommit(commit));
+      continue;
+    }
+
+    const entry = landed.get(summary.number);
+    if (entry) entry.landingCommits.push(commit.sha);
+    else landed.set(summary.number, { summary, landingCommits: [commit.sha] });
+  }
+
+  const pullRequests = Array.from(landed.values());
+  if (pullRequests.length > maxPullRequests) truncated = true;
+
+  const lineages: { pullRequestNumber: number; lineage: AnalyzeCommitLineageOutput }[] = [];
+  const changelog: ReleaseChangelogEntry[] = [];
+  for (const { summary, landingCommits } of pullRequests.slice(0, maxPullRequests)) {
+    signal?.throwIfAborted();
+    try {
+      const lineage = await analyzeCommitLineage({
+        repoOwner,
+        repoName,
+        pullRequestNumber: summary.number,
+        githubToken,
+        provider: providerName,
+        repositoryPath,
+        squashAnalysisConfig,
+        includeReleases: false,
+        signal,
+        sourceControlProvider: provider,
+      });
+      lineages.push({ pullRequestNumber: summary.number, lineage });
+
+      const pullRequest = lineage.pullRequests.find(pr => pr.number === summary.number);
+      changelog.push({
+        pullRequestNumber: summary.number,
+        title: pullRequest?.title || summary.title,
+        author: pullRequest?.author,
+        mergedAt: pullRequest?.mergedAt || summary.mergedAt,
+        mergeStrategy: pullRequest?.mergeStrategy ?? null,
+        landingCommits,
+        commits: expandPullRequestCommits(lineage, summary.number, landingCommits),
+      });
+    } catch (error: any) {
+      signal?.throwIfAborted();
+      // The remaining PRs would fail the same way; return the changelog gathered so far
+      if (error instanceof RateLimitExceededError && changelog.length > 0) {
+        truncated = true;
+        break;
+      }
+      console.warn(`Release analysis: failed to analyze PR #${summary.number}:`, describeError(error, [githubToken]));
+      changelog.push({
+        pullRequestNumber: summary.number,
+        title: summary.title,
+        mergedAt: summary.mergedAt,
+        mergeStrategy: null,
+        landingCommits,
+        commits: [],
+        error: redactSecrets(error?.message || 'Analysis failed', [githubToken]),
+      });
+    }
+  }
+
+  return {
+    repoOwner,
+    repoName,
+    base,
+    head,
+    headSha: headCommit.sha,
+    firstParentCommits: firstParentCommits.map(toReleaseCommit),
+    changelog,
+    directCommits,
+    lineage: mergeLineages(lineages.map(({ pullRequestNumber, lineage }) => ({
+      repository: `${repoOwner}/${repoName}`,
+      pullRequestNumber,
+      lineage,
+    }))),
+    truncated,
+  };
+}
@@ -0,0 +1,141 @@
+'use server';
+
+import type { ApiCacheStats, DoraPullRequestResult, DoraReport, SquashAnalysisConfig } from '@/lib/types';
+import { createSourceControlProvider, SourceControlProviderName } from '@/ai/providers/source-control-provider';
+import { RateLimitExceededError } from '@/ai/providers/github-client';
+import { getProductionEnvironments } from '@/ai/lineage/deployment-tracker';
+import { calculateLeadTimeForChanges } from '@/ai/metrics/lead-time';
+import { aggregateDoraMetrics, isHotfix, toDoraPullRequestResult } from '@/ai/metrics/dora';
+import { describeError, redactSecrets } from '@/lib/credentials';
+import { analyzeCommitLineage } from './analyze-commit-lineage';
+
+// Every PR gets a full lineage analysis, so reports are capped to keep within API limits
+const DEFAULT_MAX_PULL_REQUESTS = 50;
+const MAX_DEPLOYMENTS_LISTED = 500;
+
+export interface GenerateDoraReportInput {
+  repoOwner: string;
+  repoName: string;
+  // Branch the PRs were merged into
+  branch: string;
+  // ISO 8601 bounds of the reporting period
+  since: string;
+  until: string;
+  githubToken: string;
+  provider?: SourceControlProviderName;
+  repositoryPath?: string;
+  // GitHub Enterprise Server host or API URL (default: github.com)
+  baseUrl?: string;
+  squashAnalysisConfig?: SquashAnalysisConfig;
+  productionEnvironments?: string[];
+  includeReleases?: boolean;
+  maxPullRequests?: number;
+  // Counts API responses served from the response cache
+  cacheStats?: ApiCacheStats;
+}
+
+/**
+ * Builds a DORA report for a branch: analyzes the lineage of every PR merged into it
+ * within the date range, one PR at a time, and aggregates deployment frequency, lead time
+ * percentiles, change failure rate and time to restore. A PR whose analysis fails is
+ * reported with its error and left out of the metrics.
+ */
+export async function generateDoraReport(input: GenerateDoraReportInput): Promise<DoraReport> {
+  const {
+    repoOwner,
+    repoName,
+    branch,
+    since,
+    until,
+    githubToken,
+    provider: providerName = 'github',
+    repositoryPath,
+    baseUrl,
+    squashAnalysisConfig,
+    productionEnvironments,
+    includeReleases = true,
+    maxPullRequests = DEFAULT_MAX_PULL_REQUESTS,
+    cacheStats,
+  } = input;
+
+  // Shared by every PR analysis so they all follow the same rate limit
+  const provider = await createSourceControlProvider(providerName, githubToken, { repositoryPath, cacheStats, baseUrl });
+
+  // One extra PR tells whether the range was truncated
+  const merged = await provider.listMergedPullRequests(repoOwner, repoName, {
+    baseBranch: branch,
+    since,
+    until,
+    limit: maxPullRequests + 1,
+  });
+  let truncated = merged.length > maxPullRequests;
+
+  const pullRequests: DoraPullRequestResult[] = [];
+  for (const summary of merged.slice(0, maxPullRequests)) {
+    try {
+      const commitLineage = await analyzeCommitLineage({
+        repoOwner,
+        repoName,
+        pullRequestNumber: summary.number,
+        githubToken,
+        provider: providerName,
+        repositoryPath,
+        squashAnalysisConfig,
+        productionEnvironments,
+        includeReleases,
+        sourceControlProvider: provider,
+      });
+      const leadTime = calculateLeadTimeForChanges(commitLineage, { pullRequestNumber: summary.number });
+      pullRequests.push(toDoraPullRequestResult(summary, commitLineage, leadTime));
+    } catch (error: any) {
+      // The remaining PRs would fail the same way; report on those analyzed so far
+      if (error instanceof RateLimitExceededError && pullRequests.length > 0) {
+        truncated = true;
+        break;
+      }
+      console.warn(`DORA report: failed to analyze PR #${summary.number}:`, describeError(error, [githubToken]));
+      pullRequests.push({
+        pullRequestNumber: summary.number,
+        title: summary.title,
+        headRef: summary.headRef,
+        mergedAt: summary.mergedAt,
+        hotfix: isHotfix(summary.title, summary.headRef),
+        landingStatus: 'live',
+        leadTime: null,
+        deployment: null,
+        restoreTimeMs: null,
+        error: redactSecrets(error?.message || 'Analysis failed', [githubToken]),
+      });
+    }
+  }
+
+  // Deployment frequency counts every production deployment in the range, not only those of the PRs
+  const deploymentTimes: string[] = [];
+  try {
+    for (const environment of getProductionEnvironments(productionEnvironments)) {
+      const deployments = await provider.listDeployments(repoOwner, repoName, {
+        environment,
+        since,
+        limit: MAX_DEPLOYMENTS_LISTED,
+      });
+      deploymentTimes.push(...deployments.flatMap(d => d.succeededAt ? [d.succeededAt] : []));
+    }
+    if (includeReleases) {
+      const releases = await provider.listReleases(repoOwner, repoName, { since, limit: MAX_DEPLOYMENTS_LISTED });
+      deploymentTimes.push(...releases.flatMap(r => r.succeededAt ? [r.succeededAt] : []));
+    }
+  } catch (error) {
+    console.warn(`DORA report: failed to list deployments of ${repoOwner}/${repoName}:`, describeError(error, [githubToken]));
+  }
+
+  return {
+    repoOwner,
+    repoName,
+    branch,
+    since,
+    until,
+    metrics: aggregateDoraMetrics(pullRequests, deploymentTimes, { since, until }),
+    pullRequests,
+    truncated,
+  };
+}
@@ -0,0 +1,75 @@
+const { afterEach, describe, it, expect } = require('@jest/globals');
+
+jest.mock('@/ai/flows/analyze-commit-lineage', () => ({ analyzeCommitLineage: jest.fn() }));
+
+const { analyzeCommitLineage } = require('@/ai/flows/analyze-commit-lineage');
+const { cancelAnalysisJob, createAnalysisJob } = require('../analysis-jobs');
+const { InMemoryAnalysisJobStore, getAnalysisJobStore, setAnalysisJobStore } = require('../job-store');
+
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+const job = (id, state, updatedAt = new Date().toISOString()) => ({ id, state, createdAt: updatedAt, updatedAt, progress: null });
+
+describe('Analysis job store', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should merge updates into the stored job', async () => {
+    const store = new InMemoryAnalysisJobStore();
+    await store.create(job('a', 'queued'));
+    await store.update('a', { state: 'running', progress: { phase: 'pull-requests', pullRequestsAnalyzed: 1 } });
+
+    const stored = await store.get('a');
+    expect(stored.state).toBe('running');
+    expect(stored.progress.pullRequestsAnalyzed).toBe(1);
+    expect(await store.update('missing', { state: 'failed' })).toBeNull();
+  });
+
+  it('should drop finished jobs after the TTL but keep running ones', async () => {
+    jest.useFakeTimers({ now: Date.parse('2024-01-01T00:00:00Z') });
+    const store = new InMemoryAnalysisJobStore();
+    await store.create(job('done', 'succeeded'));
+    await store.create(job('busy', 'running'));
+
+    jest.setSystemTime(Date.now() + FINISHED_JOB_TTL_MS + 1);
+
+    expect(await store.get('done')).toBeNull();
+    expect(await store.get('busy')).not.toBeNull();
+  });
+});
+
+describe('Analysis jobs', () => {
+  const input = { githubToken: 'token', repoOwner: 'acme', repoName: 'app', pullRequestNumber: 7 };
+  const lineage = { nodes: [{ sha: 'abc' }], edges: [], pullRequests: [] };
+
+  it('should keep a cancellation when the runner reports progress or success afterwards', async () => {
+    setAnalysisJobStore(new InMemoryAnalysisJobStore());
+    let finish;
+    analyzeCommitLineage.mockImplementation(({ onProgress }) => new Promise(resolve => {
+      onProgress({ phase: 'pull-requests', pullRequestsAnalyzed: 1 }, lineage);
+      finish = () => resolve(lineage);
+    }));
+
+    const { job: created, run } = await createAnalysisJob(input);
+    const running = run();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect((await cancelAnalysisJob(created.id)).state).toBe('cancelled');
+    finish();
+    await running;
+
+    const stored = await getAnalysisJobStore().get(created.id);
+    expect(stored.state).toBe('cancelled');
+    expect(stored.result).toBeUndefined();
+    expect(stored.partialResult.nodes).toHaveLength(1);
+  });
+
+  it('should not cancel a finished job', async () => {
+    const store = new InMemoryAnalysisJobStore();
+    setAnalysisJobStore(store);
+    await store.create(job('a', 'succeeded'));
+
+    expect((await cancelAnalysisJob('a')).state).toBe('succeeded');
+  });
+});
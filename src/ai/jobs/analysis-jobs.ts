@@ -0,0 +1,100 @@
+import type { AnalysisJob } from '@/lib/types';
+import { analyzeCommitLineage, AnalyzeCommitLineageInput } from '@/ai/flows/analyze-commit-lineage';
+import { calculateLeadTimeForChanges } from '@/ai/metrics/lead-time';
+import { describeError, redactSecrets } from '@/lib/credentials';
+import { getAnalysisJobStore, isFinished } from './job-store';
+
+export interface AnalysisJobInput extends Omit<AnalyzeCommitLineageInput, 'signal' | 'onProgress'> {
+  // Overrides the deployment found by the analysis when calculating lead time
+  deployedAt?: string;
+}
+
+// Jobs running in this instance, so a cancel reaching the same instance aborts them at once
+const runningJobs = new Map<string, AbortController>();
+
+/**
+ * Creates a queued analysis job and returns it with the function that runs it. The caller
+ * decides where the job runs, e.g. after the response has been sent.
+ */
+export async function createAnalysisJob(
+  input: AnalysisJobInput
+): Promise<{ job: AnalysisJob; run: () => Promise<void> }> {
+  const store = getAnalysisJobStore();
+  const now = new Date().toISOString();
+  const job: AnalysisJob = {
+    id: crypto.randomUUID(),
+    state: 'queued',
+    createdAt: now,
+    updatedAt: now,
+    request: {
+      provider: input.provider || 'github',
+      repoOwner: input.repoOwner,
+      repoName: input.repoName,
+      pullRequestNumber: input.pullRequestNumber,
+    },
+    progress: null,
+  };
+  await store.create(job);
+
+  return { job, run: () => runAnalysisJob(job.id, input) };
+}
+
+/**
+ * Marks a job cancelled and aborts it if it runs in this instance. Jobs running elsewhere
+ * see the cancellation at their next progress update. Finished jobs are returned unchanged.
+ */
+export async function cancelAnalysisJob(id: string): Promise<AnalysisJob | null> {
+  const store = getAnalysisJobStore();
+  const job = await store.get(id);
+  if (!job || isFinished(job)) return job;
+
+  const cancelled = await store.update(id, { state: 'cancelled' });
+  runningJobs.get(id)?.abort();
+  return cancelled;
+}
+
+async function runAnalysisJob(id: string, input: AnalysisJobInput): Promise<void> {
+  const store = getAnalysisJobStore();
+  const controller = new AbortController();
+  runningJobs.set(id, controller);
+
+  // Updates are written in order, and never over a cancellation
+  let updates = Promise.resolve();
+  const save = (patch: Partial<Omit<AnalysisJob, 'id'>>) => {
+    updates = updates
+      .then(async () => {
+        const current = await store.get(id);
+        if (!current || current.state === 'cancelled') {
+          controller.abort();
+          return;
+        }
+        await store.update(id, patch);
+      })
+      .catch(error => console.warn(`Could not update analysis job ${id}:`, describeError(error)));
+  };
+
+  try {
+    save({ state: 'running' });
+
+    const commitLineage = await analyzeCommitLineage({
+      ...input,
+      signal: controller.signal,
+      onProgress: (progress, partialResult) => save({ progress, partialResult }),
+    });
+    const leadTime = calculateLeadTimeForChanges(commitLineage, {
+      pullRequestNumber: input.pullRequestNumber,
+      deployedAt: input.deployedAt,
+    });
+
+    save({ state: 'succeeded', result: { commitLineage, leadTime }, partialResult: undefined });
+  } catch (error: any) {
+    // A cancelled job keeps its state and the partial result gathered so far
+    if (!controller.signal.aborted) {
+      console.error(`Analysis job ${id} failed:`, describeError(error, [input.githubToken]));
+      save({ state: 'failed', error: redactSecrets(error.message || 'Analysis failed', [input.githubToken]) });
+    }
+  } finally {
+    await updates;
+    runningJobs.delete(id);
+  }
+}
@@ -0,0 +1,63 @@
+import type { AnalysisJob } from '@/lib/types';
+
+// Finished jobs are kept this long for polling clients before they are dropped
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Storage for analysis jobs. The in-memory store lives in the module instance that created
+ * the job, so only requests to the same route on the same server instance see it; the jobs
+ * route serves creating, polling and cancelling for that reason. Deployments with several
+ * instances plug in a shared backend (KV, Redis, a database) with `setAnalysisJobStore`.
+ */
+export interface AnalysisJobStore {
+  create(job: AnalysisJob): Promise<void>;
+  get(id: string): Promise<AnalysisJob | null>;
+  // Merges the patch into the stored job and returns the result, or null when the job is unknown
+  update(id: string, patch: Partial<Omit<AnalysisJob, 'id'>>): Promise<AnalysisJob | null>;
+}
+
+export function isFinished(job: AnalysisJob): boolean {
+  return job.state === 'succeeded' || job.state === 'failed' || job.state === 'cancelled';
+}
+
+export class InMemoryAnalysisJobStore implements AnalysisJobStore {
+  private jobs = new Map<string, AnalysisJob>();
+
+  async create(job: AnalysisJob): Promise<void> {
+    this.evictExpired();
+    this.jobs.set(job.id, job);
+  }
+
+  async get(id: string): Promise<AnalysisJob | null> {
+    this.evictExpired();
+    return this.jobs.get(id) || null;
+  }
+
+  async update(id: string, patch: Partial<Omit<AnalysisJob, 'id'>>): Promise<AnalysisJob | null> {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+
+    const updated = { ...job, ...patch, updatedAt: new Date().toISOString() };
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  private evictExpired() {
+    const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+    for (const [id, job] of this.jobs) {
+      if (isFinished(job) && new Date(job.updatedAt).getTime() < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
+
+let store: AnalysisJobStore = new InMemoryAnalysisJobStore();
+
+export function getAnalysisJobStore(): AnalysisJobStore {
+  return store;
+}
+
+export function setAnalysisJobStore(jobStore: AnalysisJobStore) {
+  store = jobStore;
+}
@@ -0,0 +1,56 @@
+const { describe, it, expect } = require('@jest/globals');
+const { getCompleteness, isRetryableError, toAnalysisIssue } = require('../analysis-issues');
+
+describe('Analysis Issues', () => {
+  describe('Retryable Errors', () => {
+    it('should retry rate limits, server errors and timeouts', () => {
+      expect(isRetryableError({ status: 429, message: 'Too Many Requests' })).toBe(true);
+      expect(isRetryableError({ status: 403, message: 'API rate limit exceeded for user' })).toBe(true);
+      expect(isRetryableError({ status: 502, message: 'Bad Gateway' })).toBe(true);
+      expect(isRetryableError(new Error('Operation timed out after 30000ms'))).toBe(true);
+      expect(isRetryableError(new Error('Circuit breaker is open - too many recent failures'))).toBe(true);
+    });
+
+    it('should not retry missing resources, bad credentials or forbidden access', () => {
+      expect(isRetryableError({ status: 404, message: 'Not Found' })).toBe(false);
+      expect(isRetryableError({ status: 401, message: 'Bad credentials' })).toBe(false);
+      expect(isRetryableError({ status: 403, message: 'Resource not accessible by integration' })).toBe(false);
+      expect(isRetryableError(new TypeError("Cannot read properties of undefined (reading 'sha')"))).toBe(false);
+    });
+  });
+
+  describe('Issue Construction', () => {
+    it('should carry the stage, context and HTTP status of the failure', () => {
+      const error = Object.assign(new Error('Not Found'), { status: 404 });
+
+      expect(toAnalysisIssue(error, 'nested-pull-request', { pullRequestNumber: 42 })).toEqual({
+        stage: 'nested-pull-request',
+        message: 'Not Found',
+        pullRequestNumber: 42,
+        status: 404,
+        retryable: false,
+      });
+    });
+
+    it('should leave out a status that is not a number', () => {
+      const issue = toAnalysisIssue({ message: 'fetch failed', status: 'ECONNRESET' }, 'reverts');
+
+      expect(issue.status).toBeUndefined();
+      expect(issue.retryable).toBe(true);
+    });
+
+    it('should describe thrown values that are not errors', () => {
+      expect(toAnalysisIssue('boom', 'deployment').message).toBe('boom');
+    });
+  });
+
+  describe('Completeness', () => {
+    it('should be partial when anything was reported', () => {
+      const issue = { stage: 'pull-request', message: 'x', retryable: false };
+
+      expect(getCompleteness([], [])).toBe('complete');
+      expect(getCompleteness([issue], [])).toBe('partial');
+      expect(getCompleteness([], [issue])).toBe('partial');
+    });
+  });
+});
@@ -0,0 +1,36 @@
+const { describe, it, expect } = require('@jest/globals');
+const { parseBackportReferences, parseCherryPickSources } = require('../backport-references');
+
+describe('Backport References', () => {
+  describe('parseCherryPickSources', () => {
+    it('should read the trailer written by git cherry-pick -x', () => {
+      const message = 'Fix null check (#123)\n\n(cherry picked from commit 3f2a9c1d4e5b6a7f8091a2b3c4d5e6f708192a3b)';
+      expect(parseCherryPickSources(message)).toEqual(['3f2a9c1d4e5b6a7f8091a2b3c4d5e6f708192a3b']);
+    });
+
+    it('should return every distinct source of a multi-commit pick', () => {
+      const message = 'Combined fix\n\n(cherry picked from commit abc1234)\n(cherry picked from commit def5678)\n(cherry picked from commit abc1234)';
+      expect(parseCherryPickSources(message)).toEqual(['abc1234', 'def5678']);
+    });
+
+    it('should ignore commits without a trailer', () => {
+      expect(parseCherryPickSources('Regular commit mentioning cherry picking')).toEqual([]);
+    });
+  });
+
+  describe('parseBackportReferences', () => {
+    it.each([
+      ['Backport #123', [123]],
+      ['Backport of #123 to release/1.4', [123]],
+      ['[Backport release/1.4] Fix null check (#123)', [123]],
+      ['backported from #45 and backport #46', [45, 46]],
+    ])('should parse "%s"', (text, expected) => {
+      expect(parseBackportReferences(text)).toEqual(expected);
+    });
+
+    it('should ignore PR references unrelated to backports', () => {
+      expect(parseBackportReferences('Fix null check (#123)')).toEqual([]);
+      expect(parseBackportReferences(null)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+const { describe, it, expect } = require('@jest/globals');
+const { centerLineage, describeCommitOrigin } = require('../commit-origin');
+
+const edge = (type, from, to, evidence = {}, confidence = 1) => ({ type, from, to, evidence, confidence });
+
+describe('Commit origin', () => {
+  it('should report the commits squashed into a commit', () => {
+    const lineage = {
+      edges: [
+        edge('squashed-into', 'a', 's', {}, 0.8),
+        edge('squashed-into', 'b', 's', {}, 0.9),
+        edge('belongs-to-PR', 's', '#4', { role: 'merge' }),
+      ],
+      pullRequests: [{ number: 4, mergeCommitSha: 's', mergeStrategy: 'squash' }],
+    };
+
+    expect(describeCommitOrigin(lineage, 's')).toMatchObject({
+      kind: 'squash',
+      sourceShas: ['a', 'b'],
+      pullRequestNumbers: [4],
+      confidence: 0.9,
+    });
+  });
+
+  it('should fall back to the merge strategy for squashes without squash edges', () => {
+    const lineage = {
+      edges: [
+        edge('belongs-to-PR', 'a', '#4', { role: 'commit' }),
+        edge('belongs-to-PR', 's', '#4', { role: 'merge' }),
+      ],
+      pullRequests: [{ number: 4, mergeCommitSha: 's', mergeStrategy: 'squash' }],
+    };
+
+    expect(describeCommitOrigin(lineage, 's')).toMatchObject({ kind: 'squash', sourceShas: ['a'] });
+  });
+
+  it('should tell original PR commits from rewritten ones', () => {
+    const lineage = {
+      edges: [
+        edge('belongs-to-PR', 'a', '#4', { role: 'commit' }),
+        edge('rebased-as', 'a', 'a2'),
+        edge('cherry-picked-as', 'a2', 'a3'),
+      ],
+      pullRequests: [],
+    };
+
+    expect(describeCommitOrigin(lineage, 'a')).toMatchObject({ kind: 'pull-request-commit', rewrittenAs: ['a2'] });
+    expect(describeCommitOrigin(lineage, 'a2')).toMatchObject({ kind: 'rebase', sourceShas: ['a'], rewrittenAs: ['a3'] });
+    expect(describeCommitOrigin(lineage, 'a3')).toMatchObject({ kind: 'cherry-pick', sourceShas: ['a2'] });
+    expect(describeCommitOrigin(lineage, 'z').kind).toBe('direct');
+  });
+
+  it('should keep only what is connected to the commit besides parentage', () => {
+    const lineage = {
+      nodes: ['a', 'm', 'n1', 'x'].map(sha => ({ sha })),
+      edges: [
+        edge('belongs-to-PR', 'a', '#4', { role: 'commit' }),
+        edge('belongs-to-PR', 'm', '#4', { role: 'merge' }),
+        edge('belongs-to-PR', 'n1', '#5', { role: 'commit' }),
+        edge('parent', 'm', 'x'),
+      ],
+      pullRequests: [{ number: 4 }, { number: 5 }],
+      truncations: [],
+      backports: [],
+      landingStatuses: [],
+      deployment: null,
+    };
+
+    const centred = centerLineage(lineage, 'a');
+
+    expect(centred.nodes.map(node => node.sha)).toEqual(['a', 'm']);
+    expect(centred.pullRequests.map(pr => pr.number)).toEqual([4]);
+  });
+});
@@ -0,0 +1,86 @@
+const { describe, it, expect, afterEach } = require('@jest/globals');
+const { DeploymentTracker, getProductionEnvironments } = require('../deployment-tracker');
+
+describe('Deployment Tracker', () => {
+  const originalEnv = process.env.PRODUCTION_ENVIRONMENTS;
+  afterEach(() => {
+    process.env.PRODUCTION_ENVIRONMENTS = originalEnv;
+  });
+
+  describe('getProductionEnvironments', () => {
+    it('should prefer the configured environments', () => {
+      process.env.PRODUCTION_ENVIRONMENTS = 'live';
+      expect(getProductionEnvironments(['prod-eu', 'prod-us'])).toEqual(['prod-eu', 'prod-us']);
+    });
+
+    it('should read PRODUCTION_ENVIRONMENTS', () => {
+      process.env.PRODUCTION_ENVIRONMENTS = ' live , production-eu ';
+      expect(getProductionEnvironments()).toEqual(['live', 'production-eu']);
+    });
+
+    it('should default to production and prod', () => {
+      process.env.PRODUCTION_ENVIRONMENTS = '';
+      expect(getProductionEnvironments()).toEqual(['production', 'prod']);
+    });
+  });
+
+  describe('findFirstDeployment', () => {
+    // deploy-1 predates the merge; deploy-2 and the release contain it
+    const containing = new Set(['deploy-2-sha', 'v2.0.0']);
+    const provider = {
+      listDeployments: async () => [
+        { id: '3', kind: 'deployment', environment: 'production', sha: 'deploy-2-sha', createdAt: '2024-01-03T00:00:00Z', succeededAt: '2024-01-03T00:10:00Z' },
+        { id: '2', kind: 'deployment', environment: 'production', sha: 'failed-sha', createdAt: '2024-01-02T12:00:00Z' },
+        { id: '1', kind: 'deployment', environment: 'production', sha: 'deploy-1-sha', createdAt: '2024-01-02T00:00:00Z', succeededAt: '2024-01-02T00:10:00Z' },
+      ],
+      listReleases: async () => [
+        { id: 'v2.0.0', kind: 'release', environment: 'release', ref: 'v2.0.0', createdAt: '2024-01-05T00:00:00Z', succeededAt: '2024-01-05T00:00:00Z' },
+      ],
+      compareCommits: async (owner, repo, base, head) => ({ status: containing.has(head) ? 'ahead' : 'diverged' }),
+    };
+
+    function findFirstDeployment(deploymentProvider) {
+      const tracker = new DeploymentTracker(deploymentProvider, { productionEnvironments: ['production'], includeReleases: true });
+      return tracker.findFirstDeployment('acme', 'app', 7, 'merge-sha', '2024-01-01T00:00:00Z');
+    }
+
+    it('should return the earliest successful deployment containing the merge commit', async () => {
+      const { deployment, truncationReason } = await findFirstDeployment(provider);
+      expect(truncationReason).toBeUndefined();
+      expect(deployment).toMatchObject({ pullRequestNumber: 7, kind: 'deployment', sha: 'deploy-2-sha', deployedAt: '2024-01-03T00:10:00Z' });
+    });
+
+    it('should skip deployments that never succeeded', async () => {
+      const compared = [];
+      await findFirstDeployment({ ...provider, compareCommits: async (owner, repo, base, head) => { compared.push(head); return { status: 'diverged' }; } });
+      expect(compared).not.toContain('failed-sha');
+    });
+
+    it('should ask for the candidates closest to the merge', async () => {
+      const requested = [];
+      await findFirstDeployment({
+        ...provider,
+        listDeployments: async (owner, repo, options) => { requested.push(options); return []; },
+        listReleases: async (owner, repo, options) => { requested.push(options); return []; },
+      });
+      expect(requested).toEqual([
+        { environment: 'production', since: '2024-01-01T00:00:00Z', limit: 31 },
+        { since: '2024-01-01T00:00:00Z', limit: 31 },
+      ]);
+    });
+
+    it('should report candidates left unchecked when none of the checked ones contain the merge', async () => {
+      const deployments = Array.from({ length: 31 }, (_, i) => ({
+        id: String(i), kind: 'deployment', environment: 'production', sha: `sha-${i}`,
+        createdAt: '2024-01-02T00:00:00Z', succeededAt: new Date(Date.UTC(2024, 0, 2, 0, i)).toISOString(),
+      }));
+      const result = await findFirstDeployment({
+        listDeployments: async () => deployments,
+        listReleases: async () => [],
+        compareCommits: async () => ({ status: 'diverged' }),
+      });
+      expect(result.deployment).toBeNull();
+      expect(result.truncationReason).toMatch(/first 30 deployments and releases/);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+const { describe, it, expect } = require('@jest/globals');
+const { LineageEdgeSet } = require('../lineage-edges');
+
+describe('Lineage Edge Set', () => {
+  it('should merge duplicate relations keeping the highest confidence', () => {
+    const edges = new LineageEdgeSet();
+    edges.add({ type: 'squashed-into', from: 'a', to: 'm', confidence: 0.6, evidence: { methods: ['timestamp-pattern'] } });
+    edges.add({ type: 'squashed-into', from: 'a', to: 'm', confidence: 0.9, evidence: { reasoning: 'tree equality' } });
+
+    expect(edges.toArray()).toEqual([
+      { type: 'squashed-into', from: 'a', to: 'm', confidence: 0.9, evidence: { methods: ['timestamp-pattern'], reasoning: 'tree equality' } }
+    ]);
+  });
+
+  it('should keep different relation types between the same commits', () => {
+    const edges = new LineageEdgeSet();
+    edges.add({ type: 'parent', from: 'b', to: 'a', confidence: 1, evidence: {} });
+    edges.add({ type: 'reverts', from: 'b', to: 'a', confidence: 1, evidence: {} });
+
+    expect(edges.toArray().map(edge => edge.type)).toEqual(['parent', 'reverts']);
+  });
+
+  it('should only add parent edges between commits in the lineage', () => {
+    const edges = new LineageEdgeSet();
+    edges.addParentEdges([
+      { sha: 'm', parents: ['base', 'b'] },
+      { sha: 'b', parents: ['a'] },
+      { sha: 'a', parents: ['base'] },
+    ]);
+
+    expect(edges.toArray()).toEqual([
+      { type: 'parent', from: 'm', to: 'b', confidence: 1, evidence: { parentIndex: 1 } },
+      { type: 'parent', from: 'b', to: 'a', confidence: 1, evidence: { parentIndex: 0 } },
+    ]);
+  });
+});
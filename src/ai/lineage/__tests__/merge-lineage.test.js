@@ -0,0 +1,40 @@
+const { describe, it, expect } = require('@jest/globals');
+const { mergeLineages } = require('../merge-lineage');
+
+function lineage(pullRequestNumber, shas) {
+  return {
+    nodes: shas.map(sha => ({ sha, parents: [] })),
+    edges: shas.map(sha => ({ type: 'belongs-to-PR', from: sha, to: `#${pullRequestNumber}`, confidence: 1, evidence: {} })),
+    pullRequests: [{ number: pullRequestNumber }],
+  };
+}
+
+describe('mergeLineages', () => {
+  it('should deduplicate commits found by several analyses', () => {
+    const graph = mergeLineages([
+      { repository: 'acme/app', pullRequestNumber: 1, lineage: lineage(1, ['a', 'b']) },
+      { repository: 'acme/app', pullRequestNumber: 2, lineage: lineage(2, ['b', 'c']) },
+    ]);
+
+    expect(graph.nodes.map(n => n.sha)).toEqual(['a', 'b', 'c']);
+    expect(graph.nodes[1].analyzedIn).toEqual(['acme/app#1', 'acme/app#2']);
+    expect(graph.sharedCommitCount).toBe(1);
+  });
+
+  it('should qualify PR references with their repository', () => {
+    const graph = mergeLineages([
+      { repository: 'acme/app', pullRequestNumber: 5, lineage: lineage(5, ['a']) },
+      { repository: 'acme/lib', pullRequestNumber: 5, lineage: lineage(5, ['d']) },
+    ]);
+
+    expect(graph.edges.map(e => e.to)).toEqual(['acme/app#5', 'acme/lib#5']);
+    expect(graph.pullRequests.map(pr => pr.repository)).toEqual(['acme/app', 'acme/lib']);
+  });
+
+  it('should not modify the input lineages', () => {
+    const input = lineage(3, ['a']);
+    mergeLineages([{ repository: 'acme/app', pullRequestNumber: 3, lineage: input }]);
+
+    expect(input.edges[0].to).toBe('#3');
+  });
+});
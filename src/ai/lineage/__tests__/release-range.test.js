@@ -0,0 +1,51 @@
+const { describe, it, expect } = require('@jest/globals');
+const { isSafeRef } = require('@/lib/git-refs');
+const { expandPullRequestCommits, firstParentChain, parseRefRange } = require('../release-range');
+
+const commit = (sha, ...parents) => ({ sha, parents: parents.map(p => ({ sha: p })) });
+
+describe('Release range', () => {
+  it('should split two-dot ranges of dotted tags', () => {
+    expect(parseRefRange('v1.4.0..v1.5.0')).toEqual({ base: 'v1.4.0', head: 'v1.5.0' });
+    expect(parseRefRange('main..feature/x')).toEqual({ base: 'main', head: 'feature/x' });
+  });
+
+  it('should reject ranges that are not two-dot', () => {
+    expect(parseRefRange('a...b')).toBeNull();
+    expect(parseRefRange('v1.4.0')).toBeNull();
+    expect(parseRefRange('..v1.5.0')).toBeNull();
+  });
+
+  it('should reject refs git would read as options', () => {
+    expect(parseRefRange('--output=/tmp/x..main')).toBeNull();
+    expect(parseRefRange('main..-n1')).toBeNull();
+    expect(parseRefRange('a..b..c')).toBeNull();
+    expect(isSafeRef('HEAD~2')).toBe(true);
+    expect(isSafeRef('-')).toBe(false);
+  });
+
+  it('should follow first parents and skip merged branch commits', () => {
+    // m merges branch commit b1 into a; a is on the first-parent line
+    const commits = [commit('a', 'base'), commit('b1', 'base'), commit('m', 'a', 'b1'), commit('s', 'm')];
+
+    expect(firstParentChain(commits, 's').map(c => c.sha)).toEqual(['s', 'm', 'a']);
+  });
+
+  it('should expand nested squashes into the original commits', () => {
+    const lineage = {
+      nodes: ['c1', 'c2', 'n1', 'sq'].map(sha => ({ sha, shortSha: sha, message: `${sha}\n\nbody`, author: 'dev', date: '' })),
+      edges: [
+        { type: 'belongs-to-PR', from: 'c1', to: '#4', evidence: { role: 'commit' } },
+        { type: 'belongs-to-PR', from: 'sq', to: '#4', evidence: { role: 'merge' } },
+        { type: 'squashed-into', from: 'c1', to: 'sq', evidence: {} },
+        { type: 'squashed-into', from: 'c2', to: 'sq', evidence: {} },
+        { type: 'squashed-into', from: 'n1', to: 'c2', evidence: {} },
+      ],
+      pullRequests: [{ number: 4, mergeCommitSha: 'sq' }],
+    };
+
+    const commits = expandPullRequestCommits(lineage, 4, ['sq']);
+    expect(commits.map(c => c.sha)).toEqual(['c1', 'c2', 'n1']);
+    expect(commits[0].message).toBe('c1');
+  });
+});
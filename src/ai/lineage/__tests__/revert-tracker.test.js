@@ -0,0 +1,115 @@
+const { afterEach, describe, it, expect } = require('@jest/globals');
+const { RevertTracker, getLandingStatus, parseRevertedShas } = require('../revert-tracker');
+
+const commit = (sha, message, date) => ({ sha, commit: { message, committer: { date } }, parents: [] });
+
+// Branch history as the provider lists it, newest first
+async function followChain(landedSha, history) {
+  const provider = { listCommits: async () => [...history].reverse() };
+  const { chains: [chain] } = await new RevertTracker(provider).traceReverts('acme', 'app', 'main', undefined, [landedSha]);
+  return chain;
+}
+
+describe('Revert Tracker', () => {
+  const squashSha = 'a1b2c3d4e5f60718293a4b5c6d7e8f9012345678';
+  const revert = commit('b'.repeat(40), `Revert "Add feature (#12)"\n\nThis reverts commit ${squashSha}.`);
+  const reland = commit('c'.repeat(40), `Revert "Revert "Add feature (#12)""\n\nThis reverts commit ${'b'.repeat(40)}.`);
+
+  describe('parseRevertedShas', () => {
+    it('should read the body written by git revert', () => {
+      expect(parseRevertedShas(revert.commit.message)).toEqual([squashSha]);
+    });
+
+    it('should read reverts of merge commits', () => {
+      const message = 'Revert "Merge pull request #5 from org/branch"\n\nThis reverts commit 1234567, reversing\nchanges made to 89abcde.';
+      expect(parseRevertedShas(message)).toEqual(['1234567']);
+    });
+
+    it('should ignore commits that only mention reverting', () => {
+      expect(parseRevertedShas('Fix revert button styling')).toEqual([]);
+    });
+  });
+
+  describe('revert chains', () => {
+    it('should report a change without reverts as live', async () => {
+      const chain = await followChain(squashSha, []);
+      expect(getLandingStatus([chain])).toBe('live');
+    });
+
+    it('should report a reverted squash commit as reverted', async () => {
+      const chain = await followChain(squashSha, [revert]);
+      expect(chain.reverts.map(r => r.sha)).toEqual([revert.sha]);
+      expect(getLandingStatus([chain])).toBe('reverted');
+    });
+
+    it('should report a reverted revert as re-landed', async () => {
+      const chain = await followChain(squashSha, [revert, reland]);
+      expect(chain.reverts.map(r => r.sha)).toEqual([revert.sha, reland.sha]);
+      expect(getLandingStatus([chain])).toBe('re-landed');
+    });
+
+    it('should match abbreviated SHAs', async () => {
+      const shortRevert = commit('d'.repeat(40), `Revert "Add feature"\n\nThis reverts commit ${squashSha.substring(0, 7)}.`);
+      expect((await followChain(squashSha, [shortRevert])).reverts).toHaveLength(1);
+    });
+
+    it('should report a rebase merge as reverted when any landed commit is reverted', async () => {
+      const chains = [await followChain(squashSha, [revert]), await followChain('e'.repeat(40), [revert])];
+      expect(getLandingStatus(chains)).toBe('reverted');
+    });
+  });
+
+  describe('history scan', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const mergedAt = '2024-01-01T00:00:00.000Z';
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    // Lists commits dated `index` hours after the merge, newest first, within since/until and limit
+    function historyProvider(count, calls = []) {
+      const history = Array.from({ length: count }, (_, index) => {
+        const date = new Date(new Date(mergedAt).getTime() + (index + 1) * 60 * 60 * 1000).toISOString();
+        return commit(index.toString(16).padStart(40, '0'), index === 0 ? revert.commit.message : `Commit ${index}`, date);
+      });
+      return {
+        listCommits: async (owner, repo, options) => {
+          calls.push(options);
+          return history
+            .filter(c => c.commit.committer.date >= options.since && c.commit.committer.date <= options.until)
+            .reverse()
+            .slice(0, options.limit ?? Infinity);
+        },
+      };
+    }
+
+    it('should scan forward from the merge in windows', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(new Date(mergedAt).getTime() + 30 * DAY);
+      const calls = [];
+      const { chains, truncationReason } = await new RevertTracker(historyProvider(10, calls))
+        .traceReverts('acme', 'app', 'main', mergedAt, [squashSha]);
+
+      expect(chains[0].reverts.map(r => r.sha)).toEqual(['0'.repeat(40)]);
+      expect(truncationReason).toBeUndefined();
+      expect(calls[0]).toMatchObject({ ref: 'main', since: mergedAt });
+      expect(calls[calls.length - 1].until).toBe(new Date(Date.now()).toISOString());
+    });
+
+    it('should keep the commits closest to the merge and report the rest as not scanned', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(new Date(mergedAt).getTime() + 30 * DAY);
+      const { chains, truncationReason } = await new RevertTracker(historyProvider(600))
+        .traceReverts('acme', 'app', 'main', mergedAt, [squashSha]);
+
+      // The revert landed an hour after the merge, before 500 later commits
+      expect(chains[0].reverts).toHaveLength(1);
+      expect(truncationReason).toMatch(/stops after 500 commits, so reverts committed after 2024-01-21T20:00:00.000Z/);
+    });
+
+    it('should report when the latest commits fill the cap without a merge date', async () => {
+      const provider = { listCommits: async () => Array.from({ length: 500 }, (_, i) => commit(String(i), 'Commit')) };
+      const { truncationReason } = await new RevertTracker(provider).traceReverts('acme', 'app', 'main', undefined, [squashSha]);
+      expect(truncationReason).toMatch(/latest 500 commits/);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import type { AnalysisCompleteness, AnalysisIssue, AnalysisStage, DataTruncation } from '@/lib/types';
+import { redactSecrets } from '@/lib/credentials';
+
+// Failures without an HTTP status that tend to pass on their own
+const TRANSIENT_MESSAGES = /timed out|circuit breaker|rate limit|ECONNRESET|ETIMEDOUT|socket hang up|fetch failed|network/i;
+
+/**
+ * Whether a failed step may succeed when the analysis is run again
+ */
+export function isRetryableError(error: unknown): boolean {
+  const { status, message = '' } = (error || {}) as { status?: unknown; message?: string };
+  if (typeof status === 'number') {
+    if (status === 429 || status >= 500) return true;
+    // GitHub reports exhausted rate limits as 403
+    return status === 403 && /rate limit/i.test(message);
+  }
+  return TRANSIENT_MESSAGES.test(message);
+}
+
+/**
+ * Describes a failed step of the analysis
+ */
+export function toAnalysisIssue(
+  error: unknown,
+  stage: AnalysisStage,
+  context: { pullRequestNumber?: number; commitSha?: string } = {}
+): AnalysisIssue {
+  const { status, message } = (error || {}) as { status?: unknown; message?: string };
+  return {
+    stage,
+    // Issues are returned to the caller and kept with stored results
+    message: redactSecrets(message || String(error)),
+    ...context,
+    status: typeof status === 'number' ? status : undefined,
+    retryable: isRetryableError(error),
+  };
+}
+
+/**
+ * Reports a truncated API response as a warning on the PR it belongs to
+ */
+export function truncationWarning(truncation: DataTruncation): AnalysisIssue {
+  return {
+    stage: 'pull-request',
+    message: `${truncation.resource === 'commits' ? 'Commits' : 'Timeline'} truncated: ${truncation.reason}`,
+    pullRequestNumber: truncation.pullRequestNumber,
+    retryable: false,
+  };
+}
+
+export function getCompleteness(warnings: AnalysisIssue[], errors: AnalysisIssue[]): AnalysisCompleteness {
+  return warnings.length === 0 && errors.length === 0 ? 'complete' : 'partial';
+}
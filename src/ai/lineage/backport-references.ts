@@ -0,0 +1,30 @@
+/**
+ * Backport and cherry-pick references
+ *
+ * `git cherry-pick -x` appends a "(cherry picked from commit <sha>)" trailer to the copied
+ * commit, and backport bots title or describe their PRs with "Backport #123",
+ * "[Backport release/1.4] ... (#123)" or "Backport of #123". These parsers turn both into
+ * links back to the original commit or PR so lineage can follow a change across branches.
+ */
+
+const CHERRY_PICK_TRAILER = /\(cherry picked from commit ([0-9a-f]{7,40})\)/gi;
+
+// "Backport #123", "Backport of #123", "Backported from #123", "[Backport release/1.x] Fix (#123)"
+const BACKPORT_REFERENCE = /\bback-?port(?:ed|s)?\b[^#\n]{0,100}#(\d+)/gi;
+
+/**
+ * Returns the SHAs named in "(cherry picked from commit <sha>)" trailers, oldest first
+ */
+export function parseCherryPickSources(message: string): string[] {
+  const shas = Array.from(message.matchAll(CHERRY_PICK_TRAILER), match => match[1].toLowerCase());
+  return [...new Set(shas)];
+}
+
+/**
+ * Returns the PR numbers a backport PR title or body refers to
+ */
+export function parseBackportReferences(text: string | null | undefined): number[] {
+  if (!text) return [];
+  const numbers = Array.from(text.matchAll(BACKPORT_REFERENCE), match => parseInt(match[1], 10));
+  return [...new Set(numbers)];
+}
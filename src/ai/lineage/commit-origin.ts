@@ -0,0 +1,102 @@
+import type { AnalyzeCommitLineageOutput, CommitOrigin, CommitOriginKind, LineageEdge } from '@/lib/types';
+import { pullRequestRef } from './lineage-edges';
+
+// Rewrites that produce a commit, strongest evidence first
+const REWRITE_KINDS: [LineageEdge['type'], CommitOriginKind][] = [
+  ['squashed-into', 'squash'],
+  ['rebased-as', 'rebase'],
+  ['cherry-picked-as', 'cherry-pick'],
+];
+
+/**
+ * Works out how a commit came to be from the edges of a lineage: whether commits were
+ * squashed, rebased or cherry-picked into it, or it is a merge commit, an original PR
+ * commit, or a commit no PR accounts for.
+ */
+export function describeCommitOrigin(lineage: AnalyzeCommitLineageOutput, sha: string): CommitOrigin {
+  const incoming = lineage.edges.filter(edge => edge.to === sha);
+  const outgoing = lineage.edges.filter(edge => edge.from === sha);
+  const memberships = outgoing.filter(edge => edge.type === 'belongs-to-PR');
+
+  const origin: CommitOrigin = {
+    sha,
+    kind: 'direct',
+    sourceShas: [],
+    rewrittenAs: outgoing
+      .filter(edge => REWRITE_KINDS.some(([type]) => type === edge.type))
+      .map(edge => edge.to),
+    pullRequestNumbers: [...new Set(memberships.map(edge => parseInt(edge.to.replace(/^#/, ''), 10)))],
+    confidence: 1,
+  };
+
+  for (const [type, kind] of REWRITE_KINDS) {
+    const sources = incoming.filter(edge => edge.type === type);
+    if (sources.length === 0) continue;
+    return {
+      ...origin,
+      kind,
+      sourceShas: sources.map(edge => edge.from),
+      confidence: Math.max(...sources.map(edge => edge.confidence)),
+    };
+  }
+
+  if (memberships.some(edge => edge.evidence.role === 'merge')) {
+    // Squashes found without the advanced detectors carry no squashed-into edges
+    const landed = lineage.pullRequests.find(pr => pr.mergeCommitSha === sha);
+    if (landed?.mergeStrategy === 'squash') {
+      const ref = pullRequestRef(landed.number);
+      return {
+        ...origin,
+        kind: 'squash',
+        sourceShas: lineage.edges
+          .filter(edge => edge.type === 'belongs-to-PR' && edge.to === ref && edge.evidence.role === 'commit')
+          .map(edge => edge.from),
+      };
+    }
+    return { ...origin, kind: 'merge' };
+  }
+  if (memberships.length > 0) return { ...origin, kind: 'pull-request-commit' };
+  return origin;
+}
+
+/**
+ * Narrows a lineage to what is connected to a commit through lineage relations other than
+ * git parentage: the PRs it belongs to and their commits, the commits it was squashed,
+ * rebased or cherry-picked from or into, and reverts of any of them.
+ */
+export function centerLineage(lineage: AnalyzeCommitLineageOutput, sha: string): AnalyzeCommitLineageOutput {
+  const neighbours = new Map<string, string[]>();
+  const link = (a: string, b: string) => {
+    neighbours.set(a, [...(neighbours.get(a) || []), b]);
+  };
+  for (const edge of lineage.edges) {
+    if (edge.type === 'parent') continue;
+    link(edge.from, edge.to);
+    link(edge.to, edge.from);
+  }
+
+  // Commit SHAs and PR references (#n) connected to the commit
+  const connected = new Set([sha]);
+  const queue = [sha];
+  while (queue.length > 0) {
+    for (const next of neighbours.get(queue.shift()!) || []) {
+      if (connected.has(next)) continue;
+      connected.add(next);
+      queue.push(next);
+    }
+  }
+
+  const hasPullRequest = (number: number) => connected.has(pullRequestRef(number));
+
+  return {
+    ...lineage,
+    nodes: lineage.nodes.filter(node => connected.has(node.sha)),
+    edges: lineage.edges.filter(edge => connected.has(edge.from) && connected.has(edge.to)),
+    pullRequests: lineage.pullRequests.filter(pr => hasPullRequest(pr.number)),
+    truncations: lineage.truncations.filter(t => hasPullRequest(t.pullRequestNumber)),
+    truncated: lineage.truncations.some(t => hasPullRequest(t.pullRequestNumber)),
+    backports: lineage.backports.filter(b => hasPullRequest(b.pullRequestNumber)),
+    landingStatuses: lineage.landingStatuses.filter(s => hasPullRequest(s.pullRequestNumber)),
+    deployment: lineage.deployment && hasPullRequest(lineage.deployment.pullRequestNumber) ? lineage.deployment : null,
+  };
+}
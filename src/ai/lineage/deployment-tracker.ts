@@ -0,0 +1,118 @@
+import type { LineageDeployment } from '@/lib/types';
+import type { DeploymentRecord, SourceControlProvider } from '@/ai/providers/source-control-provider';
+import { describeError } from '@/lib/credentials';
+
+// Used when neither the request nor PRODUCTION_ENVIRONMENTS names the production environments
+const DEFAULT_PRODUCTION_ENVIRONMENTS = ['production', 'prod'];
+
+// Each candidate costs a compare call, so only the earliest ones after the merge are checked
+const MAX_CANDIDATES_CHECKED = 30;
+
+/**
+ * Returns the environments treated as production: the configured list, then the
+ * comma-separated PRODUCTION_ENVIRONMENTS variable, then the defaults
+ */
+export function getProductionEnvironments(configured?: string[]): string[] {
+  if (configured && configured.length > 0) return configured;
+
+  const fromEnv = (process.env.PRODUCTION_ENVIRONMENTS || '')
+    .split(',')
+    .map(env => env.trim())
+    .filter(Boolean);
+  return fromEnv.length > 0 ? fromEnv : DEFAULT_PRODUCTION_ENVIRONMENTS;
+}
+
+export interface DeploymentSearch {
+  deployment: LineageDeployment | null;
+  // Set when no checked candidate contained the merge commit but later ones were left unchecked
+  truncationReason?: string;
+}
+
+export interface DeploymentTrackerOptions {
+  productionEnvironments: string[];
+  // Count published releases (tags) as production deployments too
+  includeReleases: boolean;
+}
+
+/**
+ * Deployment Tracker
+ *
+ * Finds the first successful production deployment, or release, that contains a merge
+ * commit. Candidates created after the merge are checked oldest first by comparing the
+ * merge commit with the deployed commit; the first one the merge commit is an ancestor
+ * of is when the change reached production.
+ */
+export class DeploymentTracker {
+  private provider: SourceControlProvider;
+  private options: DeploymentTrackerOptions;
+
+  constructor(provider: SourceControlProvider, options: DeploymentTrackerOptions) {
+    this.provider = provider;
+    this.options = options;
+  }
+
+  async findFirstDeployment(
+    repoOwner: string,
+    repoName: string,
+    pullRequestNumber: number,
+    mergeCommitSha: string,
+    mergedAt?: string
+  ): Promise<DeploymentSearch> {
+    const candidates: DeploymentRecord[] = [];
+    // One more than is checked, to tell whether any were left out
+    const listOptions = { since: mergedAt, limit: MAX_CANDIDATES_CHECKED + 1 };
+    let truncated = false;
+
+    for (const environment of this.options.productionEnvironments) {
+      const deployments = await this.provider.listDeployments(repoOwner, repoName, { ...listOptions, environment });
+      truncated ||= deployments.length > MAX_CANDIDATES_CHECKED;
+      candidates.push(...deployments);
+    }
+    if (this.options.includeReleases) {
+      const releases = await this.provider.listReleases(repoOwner, repoName, listOptions);
+      truncated ||= releases.length > MAX_CANDIDATES_CHECKED;
+      candidates.push(...releases);
+    }
+
+    const successful = candidates
+      .filter(candidate => candidate.succeededAt && (candidate.sha || candidate.ref))
+      .sort((a, b) => new Date(a.succeededAt!).getTime() - new Date(b.succeededAt!).getTime());
+    truncated ||= successful.length > MAX_CANDIDATES_CHECKED;
+
+    for (const candidate of successful.slice(0, MAX_CANDIDATES_CHECKED)) {
+      try {
+        const comparison = await this.provider.compareCommits(
+          repoOwner,
+          repoName,
+          mergeCommitSha,
+          (candidate.sha || candidate.ref)!
+        );
+        if (comparison.status !== 'ahead' && comparison.status !== 'identical') continue;
+      } catch (e) {
+        console.warn(`Could not compare ${mergeCommitSha} with ${candidate.kind} ${candidate.name || candidate.id}`, describeError(e));
+        continue;
+      }
+
+      return {
+        deployment: {
+          pullRequestNumber,
+          kind: candidate.kind,
+          environment: candidate.environment,
+          name: candidate.name,
+          sha: candidate.sha,
+          ref: candidate.ref,
+          url: candidate.url,
+          createdAt: candidate.createdAt,
+          deployedAt: candidate.succeededAt!,
+        },
+      };
+    }
+
+    return {
+      deployment: null,
+      truncationReason: truncated
+        ? `only the first ${MAX_CANDIDATES_CHECKED} deployments and releases after the merge were checked`
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import type { CommitNode, LineageEdge } from '@/lib/types';
+
+/**
+ * Reference used as the target of belongs-to-PR edges
+ */
+export function pullRequestRef(pullRequestNumber: number): string {
+  return `#${pullRequestNumber}`;
+}
+
+/**
+ * Lineage Edge Set
+ *
+ * Collects the typed relations found while building a lineage. The same relation can
+ * be reported more than once (for example a commit seen in two PRs); duplicates are
+ * merged, keeping the highest confidence and the union of the evidence.
+ */
+export class LineageEdgeSet {
+  private edges = new Map<string, LineageEdge>();
+
+  add(edge: LineageEdge): void {
+    const key = `${edge.type}:${edge.from}:${edge.to}`;
+    const existing = this.edges.get(key);
+
+    if (!existing) {
+      this.edges.set(key, edge);
+      return;
+    }
+
+    existing.confidence = Math.max(existing.confidence, edge.confidence);
+    existing.evidence = { ...existing.evidence, ...edge.evidence };
+  }
+
+  /**
+   * Adds a parent edge for every git parent that is itself part of the lineage
+   */
+  addParentEdges(nodes: CommitNode[]): void {
+    const shas = new Set(nodes.map(node => node.sha));
+    for (const node of nodes) {
+      node.parents.forEach((parentSha, index) => {
+        if (!shas.has(parentSha)) return;
+        this.add({
+          type: 'parent',
+          from: node.sha,
+          to: parentSha,
+          confidence: 1,
+          evidence: { parentIndex: index },
+        });
+      });
+    }
+  }
+
+  toArray(): LineageEdge[] {
+    return Array.from(this.edges.values());
+  }
+}
@@ -0,0 +1,61 @@
+import type {
+  AnalyzeCommitLineageOutput,
+  BatchLineageNode,
+  BatchPullRequestNode,
+  MergedLineageGraph,
+} from '@/lib/types';
+import { LineageEdgeSet } from './lineage-edges';
+
+export interface AnalyzedLineage {
+  // owner/repo
+  repository: string;
+  pullRequestNumber: number;
+  lineage: AnalyzeCommitLineageOutput;
+}
+
+/**
+ * Combines the lineages of several analyzed PRs into one graph. Commits are keyed by SHA,
+ * so a commit found by several analyses (a shared base, a nested PR analyzed on its own)
+ * appears once and lists every analysis it was found in. PR references are qualified with
+ * their repository so PRs with the same number in different repositories stay apart.
+ */
+export function mergeLineages(analyses: AnalyzedLineage[]): MergedLineageGraph {
+  const nodes = new Map<string, BatchLineageNode>();
+  const pullRequests = new Map<string, BatchPullRequestNode>();
+  const edges = new LineageEdgeSet();
+
+  for (const { repository, pullRequestNumber, lineage } of analyses) {
+    const analyzedIn = `${repository}#${pullRequestNumber}`;
+
+    for (const node of lineage.nodes) {
+      const existing = nodes.get(node.sha);
+      if (!existing) {
+        nodes.set(node.sha, { ...node, repositories: [repository], analyzedIn: [analyzedIn] });
+        continue;
+      }
+      if (!existing.repositories.includes(repository)) existing.repositories.push(repository);
+      if (!existing.analyzedIn.includes(analyzedIn)) existing.analyzedIn.push(analyzedIn);
+    }
+
+    for (const edge of lineage.edges) {
+      edges.add({
+        ...edge,
+        to: edge.type === 'belongs-to-PR' ? `${repository}${edge.to}` : edge.to,
+        evidence: { ...edge.evidence },
+      });
+    }
+
+    for (const pullRequest of lineage.pullRequests) {
+      const key = `${repository}#${pullRequest.number}`;
+      if (!pullRequests.has(key)) pullRequests.set(key, { ...pullRequest, repository });
+    }
+  }
+
+  const nodeList = Array.from(nodes.values());
+  return {
+    nodes: nodeList,
+    edges: edges.toArray(),
+    pullRequests: Array.from(pullRequests.values()),
+    sharedCommitCount: nodeList.filter(node => node.analyzedIn.length > 1).length,
+  };
+}
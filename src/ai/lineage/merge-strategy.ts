@@ -0,0 +1,14 @@
+import type { MergeStrategy } from '@/lib/types';
+import type { TimelineEvent } from '@/ai/tools/github-tools';
+
+/**
+ * Maps a detected git operation onto the merge strategy reported for its PR
+ */
+export function toMergeStrategy(gitOperationType: string, timelineEvents?: TimelineEvent[]): MergeStrategy {
+  const type = gitOperationType.toLowerCase();
+  if (type.includes('squash')) return 'squash';
+  if (type.includes('rebase')) return 'rebase';
+  if (type.includes('fast-forward')) return 'fast-forward';
+  if (type.includes('merge')) return 'merge';
+  return timelineEvents?.find(event => event.merge_strategy)?.merge_strategy || 'unknown';
+}
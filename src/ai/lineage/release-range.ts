@@ -0,0 +1,84 @@
+import type { GitHubCommit } from '@/ai/tools/github-tools';
+import type { AnalyzeCommitLineageOutput, ReleaseCommit } from '@/lib/types';
+import { isSafeRef } from '@/lib/git-refs';
+import { pullRequestRef } from './lineage-edges';
+
+/**
+ * Splits a two-dot ref range such as "v1.4.0..v1.5.0". Git ref names cannot contain "..",
+ * so the first one separates the refs. Ranges whose refs are not safe to pass to git,
+ * such as ones starting with "-", are rejected.
+ */
+export function parseRefRange(range: string): { base: string; head: string } | null {
+  const match = range.trim().match(/^(\S*?[^.\s])\.\.([^.\s]\S*)$/);
+  if (!match || !isSafeRef(match[1]) || !isSafeRef(match[2])) return null;
+  return { base: match[1], head: match[2] };
+}
+
+/**
+ * Follows first parents from head through the commits of a range, newest first. On a
+ * branch that only takes merges, squashes and rebases this is one commit per landed change.
+ */
+export function firstParentChain(commits: GitHubCommit[], headSha: string): GitHubCommit[] {
+  const bySha = new Map(commits.map(commit => [commit.sha, commit]));
+  const chain: GitHubCommit[] = [];
+
+  let current = bySha.get(headSha);
+  while (current) {
+    chain.push(current);
+    bySha.delete(current.sha);
+    current = current.parents[0] ? bySha.get(current.parents[0].sha) : undefined;
+  }
+
+  return chain;
+}
+
+export function toReleaseCommit(commit: GitHubCommit): ReleaseCommit {
+  return {
+    sha: commit.sha,
+    shortSha: commit.sha.substring(0, 7),
+    message: commit.commit.message.split('\n')[0],
+    author: commit.commit.author?.name || 'N/A',
+    date: commit.commit.author?.date || '',
+  };
+}
+
+/**
+ * The original commits of a PR: its branch commits, plus every commit squashed into its
+ * landing commits (directly or through a nested squash). Landing commits are left out.
+ */
+export function expandPullRequestCommits(
+  lineage: AnalyzeCommitLineageOutput,
+  pullRequestNumber: number,
+  landingCommits: string[]
+): ReleaseCommit[] {
+  const ref = pullRequestRef(pullRequestNumber);
+  const landed = new Set(landingCommits);
+  const mergeCommitSha = lineage.pullRequests.find(pr => pr.number === pullRequestNumber)?.mergeCommitSha;
+  if (mergeCommitSha) landed.add(mergeCommitSha);
+
+  const original = new Set(lineage.edges
+    .filter(edge => edge.type === 'belongs-to-PR' && edge.to === ref && edge.evidence.role === 'commit')
+    .map(edge => edge.from));
+
+  const squashTargets = new Set(landed);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const edge of lineage.edges) {
+      if (edge.type !== 'squashed-into' || !squashTargets.has(edge.to) || squashTargets.has(edge.from)) continue;
+      squashTargets.add(edge.from);
+      original.add(edge.from);
+      added = true;
+    }
+  }
+
+  return lineage.nodes
+    .filter(node => original.has(node.sha) && !landed.has(node.sha))
+    .map(node => ({
+      sha: node.sha,
+      shortSha: node.shortSha,
+      message: node.message.split('\n')[0],
+      author: node.author,
+      date: node.date,
+    }));
+}
@@ -0,0 +1,196 @@
+import type { LandingStatus } from '@/lib/types';
+import type { GitHubCommit } from '@/ai/tools/github-tools';
+import type { SourceControlProvider } from '@/ai/providers/source-control-provider';
+
+// Base branch history scanned for reverts after the earliest analyzed PR landed
+const MAX_REVERT_SCAN_COMMITS = 500;
+
+// The scan walks forward from the merge in windows of this length, doubled while they stay
+// under the commit budget and halved when one would exceed it, down to the minimum
+const INITIAL_SCAN_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const MIN_SCAN_WINDOW_MS = 60 * 60 * 1000;
+
+// Reverts of reverts of reverts... are followed at most this deep
+const MAX_REVERT_CHAIN_DEPTH = 10;
+
+// "This reverts commit <sha>." and, for merge commits, "This reverts commit <sha>, reversing changes made to <sha>."
+const REVERT_BODY = /This reverts commit ([0-9a-f]{7,40})/gi;
+
+export interface RevertChain {
+  landedSha: string;
+  // The first commit reverts the landed commit and every following commit reverts the one before it
+  reverts: GitHubCommit[];
+}
+
+export interface RevertTrace {
+  chains: RevertChain[];
+  // Set when the scan hit its commit cap, saying which reverts were not looked for
+  truncationReason?: string;
+}
+
+interface CommitScan {
+  // Oldest first
+  commits: GitHubCommit[];
+  truncationReason?: string;
+}
+
+/**
+ * Returns the SHAs named in a commit's "This reverts commit <sha>" lines
+ */
+export function parseRevertedShas(message: string): string[] {
+  const shas = Array.from(message.matchAll(REVERT_BODY), match => match[1].toLowerCase());
+  return [...new Set(shas)];
+}
+
+/**
+ * Derives whether a PR's change is still on its branch from the revert chains of its landed commits.
+ * An odd number of reverts takes a change out, an even number puts it back.
+ */
+export function getLandingStatus(chains: RevertChain[]): LandingStatus {
+  if (chains.some(chain => chain.reverts.length % 2 === 1)) return 'reverted';
+  if (chains.some(chain => chain.reverts.length > 0)) return 're-landed';
+  return 'live';
+}
+
+function matchesSha(fullSha: string, referencedSha: string): boolean {
+  return fullSha.startsWith(referencedSha) || referencedSha.startsWith(fullSha);
+}
+
+/**
+ * Revert Tracker
+ *
+ * Scans a branch's history forward from when a change landed for `git revert` commits
+ * that name it, then follows reverts of those reverts, so lineage can tell whether a
+ * change is live, reverted or re-landed. Squash commits and rebase-merged commits are
+ * tracked by the SHAs that landed on the branch.
+ */
+export class RevertTracker {
+  private provider: SourceControlProvider;
+  private revertScans = new Map<string, Promise<CommitScan>>();
+
+  constructor(provider: SourceControlProvider) {
+    this.provider = provider;
+  }
+
+  async traceReverts(
+    repoOwner: string,
+    repoName: string,
+    branch: string,
+    since: string | undefined,
+    landedShas: string[]
+  ): Promise<RevertTrace> {
+    const { commits: reverts, truncationReason } = await this.getRevertCommits(repoOwner, repoName, branch, since);
+
+    const chains = landedShas.map(landedSha => {
+      const chain: GitHubCommit[] = [];
+      let current = landedSha;
+
+      while (chain.length < MAX_REVERT_CHAIN_DEPTH) {
+        const next = reverts
+          .filter(revert => !chain.includes(revert) && revert.sha !== landedSha)
+          .find(revert => parseRevertedShas(revert.commit.message).some(sha => matchesSha(current, sha)));
+        if (!next) break;
+        chain.push(next);
+        current = next.sha;
+      }
+
+      return { landedSha, reverts: chain };
+    });
+
+    return { chains, truncationReason };
+  }
+
+  /**
+   * Lists the revert commits on a branch since a date, oldest first. Cached per branch and date.
+   */
+  private getRevertCommits(repoOwner: string, repoName: string, branch: string, since?: string): Promise<CommitScan> {
+    const key = `${branch}@${since || ''}`;
+    if (!this.revertScans.has(key)) {
+      const scan = since
+        ? this.scanForward(repoOwner, repoName, branch, since)
+        : this.scanLatest(repoOwner, repoName, branch);
+      this.revertScans.set(key, scan.then(({ commits, truncationReason }) => ({
+        commits: commits.filter(commit => parseRevertedShas(commit.commit.message).length > 0),
+        truncationReason,
+      })));
+    }
+    return this.revertScans.get(key)!;
+  }
+
+  /**
+   * Lists a branch's commits from a date forward, oldest first, so the commits closest to
+   * the merge are the ones scanned when the history is longer than the cap. Providers list
+   * history newest first, so each window is listed whole and reversed.
+   */
+  private async scanForward(
+    repoOwner: string,
+    repoName: string,
+    branch: string,
+    since: string
+  ): Promise<CommitScan> {
+    const now = Date.now();
+    const commits = new Map<string, GitHubCommit>();
+    let start = new Date(since).getTime();
+    let windowMs = INITIAL_SCAN_WINDOW_MS;
+
+    while (start < now) {
+      const end = Math.min(start + windowMs, now);
+      const remaining = MAX_REVERT_SCAN_COMMITS - commits.size;
+      const window = await this.provider.listCommits(repoOwner, repoName, {
+        ref: branch,
+        since: new Date(start).toISOString(),
+        until: new Date(end).toISOString(),
+        limit: remaining + 1,
+      });
+
+      if (window.length > remaining && remaining > 0 && windowMs > MIN_SCAN_WINDOW_MS) {
+        // A full window would cut off its oldest commits, so narrow it first
+        windowMs = Math.max(Math.floor(windowMs / 2), MIN_SCAN_WINDOW_MS);
+        continue;
+      }
+
+      const listed = window.length > remaining && remaining > 0
+        // Even the narrowest window holds more than the cap, so it is listed whole to keep its oldest commits
+        ? await this.provider.listCommits(repoOwner, repoName, {
+          ref: branch,
+          since: new Date(start).toISOString(),
+          until: new Date(end).toISOString(),
+        })
+        : window;
+      const scanned = [...listed].reverse().slice(0, remaining);
+      // Windows share their boundary, so a commit may be listed twice
+      scanned.forEach(commit => commits.set(commit.sha, commit));
+
+      if (listed.length > remaining) {
+        const scannedCommits = [...commits.values()];
+        const scannedUntil = scannedCommits[scannedCommits.length - 1]?.commit.committer?.date || new Date(start).toISOString();
+        return {
+          commits: scannedCommits,
+          truncationReason: `the scan stops after ${MAX_REVERT_SCAN_COMMITS} commits, so reverts committed after ${scannedUntil} were not looked for`,
+        };
+      }
+
+      start = end;
+      windowMs *= 2;
+    }
+
+    return { commits: [...commits.values()] };
+  }
+
+  /**
+   * Lists the latest commits on a branch, oldest first, for changes without a merge date
+   */
+  private async scanLatest(
+    repoOwner: string,
+    repoName: string,
+    branch: string
+  ): Promise<CommitScan> {
+    const commits = await this.provider.listCommits(repoOwner, repoName, { ref: branch, limit: MAX_REVERT_SCAN_COMMITS });
+    return {
+      commits: commits.reverse(),
+      truncationReason: commits.length >= MAX_REVERT_SCAN_COMMITS
+        ? `the scan stops at the latest ${MAX_REVERT_SCAN_COMMITS} commits, so older reverts were not looked for`
+        : undefined,
+    };
+  }
+}
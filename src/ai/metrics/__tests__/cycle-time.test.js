@@ -0,0 +1,51 @@
+const { describe, it, expect } = require('@jest/globals');
+const { calculateCycleTime } = require('../cycle-time');
+
+const HOUR = 60 * 60 * 1000;
+const commit = (date) => ({ commit: { author: { date } } });
+
+describe('PR cycle time', () => {
+  it('should split first commit to merge into coding, pickup, review and merge', () => {
+    const cycleTime = calculateCycleTime({
+      prDetails: { user: { login: 'alice' }, merged: true, created_at: '2024-01-01T10:00:00Z', merged_at: '2024-01-02T12:00:00Z' },
+      prCommits: [commit('2024-01-01T08:00:00Z'), commit('2024-01-01T06:00:00Z')],
+      timelineEvents: [
+        { event: 'review_requested', created_at: '2024-01-01T10:00:00Z', requested_reviewer: { login: 'bob' } },
+        { event: 'reviewed', created_at: '2024-01-01T14:00:00Z', actor: { login: 'bob' }, state: 'changes_requested' },
+        { event: 'reviewed', created_at: '2024-01-02T10:00:00Z', actor: { login: 'bob' }, state: 'approved' },
+      ],
+    });
+
+    expect(cycleTime.stages).toMatchObject([
+      { name: 'coding', durationMs: 4 * HOUR },
+      { name: 'pickup', durationMs: 4 * HOUR },
+      { name: 'review', durationMs: 20 * HOUR },
+      { name: 'merge', durationMs: 2 * HOUR },
+    ]);
+  });
+
+  it('should ignore the author replying to their own PR', () => {
+    const cycleTime = calculateCycleTime({
+      prDetails: { user: { login: 'alice' }, merged: false, created_at: '2024-01-01T10:00:00Z' },
+      prCommits: [],
+      timelineEvents: [
+        { event: 'reviewed', created_at: '2024-01-01T11:00:00Z', actor: { login: 'alice' }, state: 'commented' },
+        { event: 'reviewed', created_at: '2024-01-01T15:00:00Z', actor: { login: 'carol' }, state: 'commented' },
+      ],
+    });
+
+    expect(cycleTime.firstReviewAt).toBe('2024-01-01T15:00:00Z');
+    expect(cycleTime.approvedAt).toBeUndefined();
+  });
+
+  it('should start pickup when a draft is marked ready for review', () => {
+    const cycleTime = calculateCycleTime({
+      prDetails: { merged: false, created_at: '2024-01-01T10:00:00Z' },
+      prCommits: [commit('2024-01-01T09:00:00Z')],
+      timelineEvents: [{ event: 'ready_for_review', created_at: '2024-01-03T10:00:00Z' }],
+    });
+
+    expect(cycleTime.openedAt).toBe('2024-01-03T10:00:00Z');
+    expect(cycleTime.stages).toMatchObject([{ name: 'coding', durationMs: 49 * HOUR }]);
+  });
+});
@@ -0,0 +1,65 @@
+const { describe, it, expect } = require('@jest/globals');
+const { aggregateDoraMetrics, isHotfix, percentile } = require('../dora');
+
+const range = { since: '2024-01-01T00:00:00Z', until: '2024-01-15T00:00:00Z' };
+const pr = (overrides) => ({
+  landingStatus: 'live',
+  hotfix: false,
+  leadTime: null,
+  restoreTimeMs: null,
+  ...overrides,
+});
+
+describe('DORA report', () => {
+  it('should recognize hotfixes by title or branch', () => {
+    expect(isHotfix('Hotfix: null pointer in checkout')).toBe(true);
+    expect(isHotfix('Fix login', 'hotfix/login')).toBe(true);
+    expect(isHotfix('Hot-fix the build')).toBe(true);
+    expect(isHotfix('Fix shotfixture loader', 'feature/fixtures')).toBe(false);
+  });
+
+  it('should take nearest-rank percentiles of lead times', () => {
+    const metrics = aggregateDoraMetrics(
+      [10, 20, 30, 40, 50, 60, 70, 80, 90, 100].map(ms => pr({ leadTime: { leadTimeMs: ms } })),
+      [],
+      range
+    );
+
+    expect(metrics.leadTime.samples).toBe(10);
+    expect(metrics.leadTime.p50Ms).toBe(50);
+    expect(metrics.leadTime.p90Ms).toBe(90);
+  });
+
+  it('should count deployments in the range once each', () => {
+    const metrics = aggregateDoraMetrics([], [
+      '2024-01-02T00:00:00Z',
+      '2024-01-02T00:00:00Z',
+      '2024-01-09T00:00:00Z',
+      '2023-12-31T00:00:00Z',
+    ], range);
+
+    expect(metrics.deploymentFrequency.deployments).toBe(2);
+    expect(metrics.deploymentFrequency.perWeek).toBe(1);
+  });
+
+  it('should count reverted, re-landed and hotfix PRs as failures and skip failed analyses', () => {
+    const metrics = aggregateDoraMetrics([
+      pr({ landingStatus: 'reverted', restoreTimeMs: 3000 }),
+      pr({ landingStatus: 're-landed', restoreTimeMs: 1000 }),
+      pr({ hotfix: true, restoreTimeMs: 2000 }),
+      pr({}),
+      pr({ error: 'Not Found', landingStatus: 'reverted' }),
+    ], [], range);
+
+    expect(metrics.changeFailureRate).toEqual({ failures: 3, total: 4, rate: 0.75 });
+    expect(metrics.timeToRestore).toEqual({ samples: 3, medianMs: 2000, meanMs: 2000 });
+  });
+
+  it('should report no rates when nothing was analyzed', () => {
+    const metrics = aggregateDoraMetrics([pr({ error: 'boom' })], [], range);
+
+    expect(metrics.changeFailureRate.rate).toBeNull();
+    expect(metrics.leadTime.p50Ms).toBeNull();
+    expect(metrics.timeToRestore.medianMs).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+const { describe, it, expect } = require('@jest/globals');
+const { calculateLeadTimeForChanges } = require('../lead-time');
+
+const firstCommitSha = (lineage, pullRequestNumber) =>
+  calculateLeadTimeForChanges(lineage, { pullRequestNumber }).firstCommitSha;
+
+const node = (sha, date) => ({ sha, date, parents: [] });
+
+describe('Lead Time for Changes', () => {
+  it('should start at the earliest commit squashed into the landed commit', () => {
+    const lineage = {
+      nodes: [node('squash', '2024-01-10T00:00:00Z'), node('a', '2024-01-02T00:00:00Z'), node('b', '2024-01-05T00:00:00Z')],
+      edges: [
+        { type: 'squashed-into', from: 'a', to: 'squash' },
+        { type: 'squashed-into', from: 'b', to: 'squash' },
+      ],
+      pullRequests: [{ number: 1, commitShas: ['squash'], mergeCommitSha: 'squash' }],
+    };
+    expect(firstCommitSha(lineage, 1)).toBe('a');
+  });
+
+  it('should include commits of nested PRs', () => {
+    const lineage = {
+      nodes: [node('outer', '2024-01-10T00:00:00Z'), node('inner', '2024-01-01T00:00:00Z')],
+      edges: [],
+      pullRequests: [
+        { number: 1, commitShas: ['outer'] },
+        { number: 2, commitShas: ['inner'], parentPullRequestNumber: 1 },
+      ],
+    };
+    expect(firstCommitSha(lineage, 1)).toBe('inner');
+  });
+
+  it('should follow a backport to the original commit', () => {
+    const lineage = {
+      nodes: [node('backport', '2024-02-01T00:00:00Z'), node('original', '2024-01-15T00:00:00Z')],
+      edges: [{ type: 'cherry-picked-as', from: 'original', to: 'backport' }],
+      pullRequests: [{ number: 9, commitShas: ['backport'] }],
+    };
+    expect(firstCommitSha(lineage, 9)).toBe('original');
+  });
+
+  it('should fall back to the landed commit when nothing else is known', () => {
+    const lineage = {
+      nodes: [node('squash', '2024-01-10T00:00:00Z')],
+      edges: [],
+      pullRequests: [{ number: 1, commitShas: ['squash'], mergeCommitSha: 'squash' }],
+    };
+    expect(firstCommitSha(lineage, 1)).toBe('squash');
+  });
+});
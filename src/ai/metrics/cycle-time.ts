@@ -0,0 +1,65 @@
+import type { CycleTimeStage, PullRequestCycleTime } from '@/lib/types';
+import type { PullRequestData } from '@/ai/tools/github-tools';
+
+function stage(name: CycleTimeStage['name'], startedAt?: string, endedAt?: string): CycleTimeStage | null {
+  if (!startedAt || !endedAt) return null;
+  return {
+    name,
+    startedAt,
+    endedAt,
+    durationMs: Math.max(0, new Date(endedAt).getTime() - new Date(startedAt).getTime()),
+  };
+}
+
+function earliest(dates: (string | undefined)[]): string | undefined {
+  return dates
+    .filter((date): date is string => !!date)
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime())[0];
+}
+
+/**
+ * Cycle time of a single PR, split into its stages:
+ *
+ * - coding: first commit → PR opened (or marked ready for review, for drafts)
+ * - pickup: opened → first review by someone other than the author
+ * - review: first review → first approval
+ * - merge: approval → merge
+ *
+ * Reviews come from the `reviewed` timeline events; a stage is left out when either of
+ * its ends is unknown, e.g. a PR merged without review has no pickup or review stage.
+ */
+export function calculateCycleTime(prData: PullRequestData): PullRequestCycleTime {
+  const { prDetails, prCommits } = prData;
+  const events = prData.timelineEvents || [];
+  const author = prDetails.user?.login;
+
+  const firstCommitAt = earliest(prCommits.map(c => c.commit.author?.date || c.commit.committer?.date));
+  // A draft only asks for review once it is marked ready
+  const openedAt = events.find(e => e.event === 'ready_for_review')?.created_at || prDetails.created_at;
+
+  const reviews = events
+    .filter(e => e.event === 'reviewed' && e.created_at && (!author || e.actor?.login !== author))
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+  const firstReviewAt = reviews[0]?.created_at;
+  const approvedAt = reviews.find(e => e.state === 'approved')?.created_at;
+  const mergedAt = prDetails.merged ? prDetails.merged_at || undefined : undefined;
+
+  const stages = [
+    stage('coding', firstCommitAt, openedAt),
+    stage('pickup', openedAt, firstReviewAt),
+    stage('review', firstReviewAt, approvedAt),
+    stage('merge', approvedAt, mergedAt),
+  ].filter((s): s is CycleTimeStage => s !== null);
+
+  return {
+    firstCommitAt,
+    openedAt,
+    firstReviewAt,
+    approvedAt,
+    mergedAt,
+    totalMs: firstCommitAt && mergedAt
+      ? Math.max(0, new Date(mergedAt).getTime() - new Date(firstCommitAt).getTime())
+      : null,
+    stages,
+  };
+}
@@ -0,0 +1,130 @@
+import type {
+  AnalyzeCommitLineageOutput,
+  DoraMetrics,
+  DoraPullRequestResult,
+  LeadTimeForChanges,
+} from '@/lib/types';
+import type { MergedPullRequestSummary } from '@/ai/providers/source-control-provider';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Matches "hotfix/...", "Hotfix: ..." and "hot-fix" in PR titles and branch names
+const HOTFIX_PATTERN = /\bhot-?fix/i;
+
+export function isHotfix(title?: string, headRef?: string): boolean {
+  return HOTFIX_PATTERN.test(title || '') || HOTFIX_PATTERN.test(headRef || '');
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function elapsed(from?: string, to?: string): number | null {
+  if (!from || !to) return null;
+  return Math.max(0, new Date(to).getTime() - new Date(from).getTime());
+}
+
+/**
+ * Reduces the lineage of one merged PR to what the DORA report needs. A reverted PR was
+ * restored when its first revert landed, measured from when it reached production; a hotfix
+ * PR restored service when it reached production, measured from when it was opened.
+ */
+export function toDoraPullRequestResult(
+  summary: MergedPullRequestSummary,
+  lineage: AnalyzeCommitLineageOutput,
+  leadTime: LeadTimeForChanges | null
+): DoraPullRequestResult {
+  const hotfix = isHotfix(summary.title, summary.headRef);
+  const landing = lineage.landingStatuses.find(status => status.pullRequestNumber === summary.number);
+  const pullRequest = lineage.pullRequests.find(pr => pr.number === summary.number);
+  const deployment = lineage.deployment?.pullRequestNumber === summary.number ? lineage.deployment : null;
+  const reachedProductionAt = deployment?.deployedAt || summary.mergedAt;
+
+  let restoreTimeMs: number | null = null;
+  if (landing && landing.status !== 'live') {
+    const firstRevert = lineage.nodes.find(node => node.sha === landing.revertShas[0]);
+    restoreTimeMs = elapsed(reachedProductionAt, firstRevert?.date);
+  } else if (hotfix) {
+    restoreTimeMs = elapsed(pullRequest?.createdAt, reachedProductionAt);
+  }
+
+  return {
+    pullRequestNumber: summary.number,
+    title: summary.title,
+    headRef: summary.headRef,
+    mergedAt: summary.mergedAt,
+    hotfix,
+    landingStatus: landing?.status || 'live',
+    leadTime,
+    deployment,
+    restoreTimeMs,
+  };
+}
+
+/**
+ * Aggregates the four DORA metrics over a date range. Deployment frequency counts the
+ * production deployments and releases that succeeded in the range; the other metrics are
+ * taken over the PRs whose analysis succeeded. A PR counts as a change failure when it was
+ * reverted (even if later re-landed) or is itself a hotfix.
+ */
+export function aggregateDoraMetrics(
+  pullRequests: DoraPullRequestResult[],
+  deploymentTimes: string[],
+  range: { since: string; until: string }
+): DoraMetrics {
+  const since = new Date(range.since).getTime();
+  const until = new Date(range.until).getTime();
+  const days = Math.max(1, (until - since) / DAY_MS);
+
+  const deployments = new Set(
+    deploymentTimes.filter(time => {
+      const at = new Date(time).getTime();
+      return at >= since && at <= until;
+    })
+  ).size;
+
+  const analyzed = pullRequests.filter(pr => !pr.error);
+  const leadTimes = analyzed
+    .map(pr => pr.leadTime?.leadTimeMs)
+    .filter((ms): ms is number => typeof ms === 'number')
+    .sort((a, b) => a - b);
+  const failures = analyzed.filter(pr => pr.landingStatus !== 'live' || pr.hotfix).length;
+  const restoreTimes = analyzed
+    .map(pr => pr.restoreTimeMs)
+    .filter((ms): ms is number => ms !== null)
+    .sort((a, b) => a - b);
+
+  return {
+    deploymentFrequency: {
+      deployments,
+      perDay: deployments / days,
+      perWeek: (deployments / days) * 7,
+    },
+    leadTime: {
+      samples: leadTimes.length,
+      p50Ms: percentile(leadTimes, 50),
+      p75Ms: percentile(leadTimes, 75),
+      p90Ms: percentile(leadTimes, 90),
+      meanMs: mean(leadTimes),
+    },
+    changeFailureRate: {
+      failures,
+      total: analyzed.length,
+      rate: analyzed.length > 0 ? failures / analyzed.length : null,
+    },
+    timeToRestore: {
+      samples: restoreTimes.length,
+      medianMs: percentile(restoreTimes, 50),
+      meanMs: mean(restoreTimes),
+    },
+  };
+}
@@ -0,0 +1,111 @@
+import type { AnalyzeCommitLineageOutput, LeadTimeForChanges, LeadTimeStage, LineageEdge } from '@/lib/types';
+
+// Edges that lead from a landed commit back to the commits it was made from
+const ORIGIN_EDGE_TYPES: LineageEdge['type'][] = ['squashed-into', 'rebased-as', 'cherry-picked-as'];
+
+export interface LeadTimeOptions {
+  // PR the change was delivered in (default: the first analyzed PR)
+  pullRequestNumber?: number;
+  // When the change reached production; defaults to the deployment found for the lineage
+  deployedAt?: string;
+}
+
+function stage(name: LeadTimeStage['name'], startedAt?: string, endedAt?: string): LeadTimeStage | null {
+  if (!startedAt || !endedAt) return null;
+  return {
+    name,
+    startedAt,
+    endedAt,
+    durationMs: Math.max(0, new Date(endedAt).getTime() - new Date(startedAt).getTime()),
+  };
+}
+
+/**
+ * Lead Time for Changes (DORA)
+ *
+ * Measures from the first commit of the change to its deployment. The change is the PR,
+ * every PR nested in it, and every commit reachable backwards through squashed-into,
+ * rebased-as and cherry-picked-as edges, so squashed and rewritten history still counts
+ * from the original first commit rather than from the commit that landed. Until a
+ * deployment time is known the lead time is measured to the merge.
+ */
+export function calculateLeadTimeForChanges(
+  lineage: AnalyzeCommitLineageOutput,
+  options: LeadTimeOptions = {}
+): LeadTimeForChanges | null {
+  const pullRequests = lineage.pullRequests || [];
+  const pullRequest = options.pullRequestNumber !== undefined
+    ? pullRequests.find(pr => pr.number === options.pullRequestNumber)
+    : pullRequests[0];
+  if (!pullRequest) return null;
+
+  // The PR and every PR nested in it, however deep
+  const prNumbers = new Set([pullRequest.number]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const pr of pullRequests) {
+      if (pr.parentPullRequestNumber !== undefined && prNumbers.has(pr.parentPullRequestNumber) && !prNumbers.has(pr.number)) {
+        prNumbers.add(pr.number);
+        added = true;
+      }
+    }
+  }
+
+  const changeShas = new Set(pullRequests.filter(pr => prNumbers.has(pr.number)).flatMap(pr => pr.commitShas));
+  const landedShas = new Set<string>();
+  for (const pr of pullRequests) {
+    if (prNumbers.has(pr.number) && pr.mergeCommitSha) landedShas.add(pr.mergeCommitSha);
+  }
+
+  // Walk back from landed commits to the commits they were made from
+  const originEdges = (lineage.edges || []).filter(edge => ORIGIN_EDGE_TYPES.includes(edge.type));
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const edge of originEdges) {
+      if (changeShas.has(edge.to) && !changeShas.has(edge.from)) {
+        changeShas.add(edge.from);
+        grew = true;
+      }
+      // Squash commits and rebased copies are dated when they landed; cherry-picks keep the author date
+      if (edge.type !== 'cherry-picked-as') landedShas.add(edge.to);
+    }
+  }
+
+  // Landed commits carry merge-time dates, so they only count when nothing else is known
+  const changeNodes = lineage.nodes.filter(node => changeShas.has(node.sha));
+  const originalNodes = changeNodes.filter(node => !landedShas.has(node.sha));
+  const candidates = originalNodes.length > 0 ? originalNodes : changeNodes;
+  const firstCommit = candidates.reduce<typeof candidates[number] | undefined>(
+    (earliest, node) => !earliest || new Date(node.date) < new Date(earliest.date) ? node : earliest,
+    undefined
+  );
+
+  const mergedAt = pullRequest.mergedAt ||
+    lineage.nodes.find(node => node.sha === pullRequest.mergeCommitSha)?.date;
+  const deployedAt = options.deployedAt ||
+    (lineage.deployment?.pullRequestNumber === pullRequest.number ? lineage.deployment.deployedAt : undefined);
+
+  const stages = [
+    stage('commit-to-merge', firstCommit?.date, mergedAt),
+    stage('merge-to-deploy', mergedAt, deployedAt),
+  ].filter((s): s is LeadTimeStage => s !== null);
+
+  const measuredTo = firstCommit && deployedAt ? 'deployment' : firstCommit && mergedAt ? 'merge' : null;
+  const endedAt = measuredTo === 'deployment' ? deployedAt : mergedAt;
+
+  return {
+    pullRequestNumber: pullRequest.number,
+    firstCommitSha: firstCommit?.sha,
+    firstCommitAt: firstCommit?.date,
+    mergedAt,
+    deployedAt,
+    leadTimeMs: measuredTo && endedAt
+      ? Math.max(0, new Date(endedAt).getTime() - new Date(firstCommit!.date).getTime())
+      : null,
+    measuredTo,
+    stages,
+    commitsConsidered: candidates.length,
+  };
+}
@@ -0,0 +1,92 @@
+const { afterEach, describe, it, expect } = require('@jest/globals');
+const { generateKeyPairSync, createPublicKey, createVerify } = require('crypto');
+const { canUseGitHubApp, createAppJwt, getGitHubAppCredentials, GitHubAppAuth, GitHubAppOwnerNotAllowedError } = require('../github-app-auth');
+const { requestOwner } = require('../github-client');
+
+function verify(jwt, publicKey) {
+  const [header, payload, signature] = jwt.split('.');
+  const verifier = createVerify('RSA-SHA256');
+  verifier.update(`${header}.${payload}`);
+  return verifier.verify(publicKey, Buffer.from(signature, 'base64url'));
+}
+
+describe('GitHub App authentication', () => {
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const pkcs1 = privateKey.export({ type: 'pkcs1', format: 'pem' });
+  const pkcs8 = privateKey.export({ type: 'pkcs8', format: 'pem' });
+  const publicKey = createPublicKey(privateKey);
+
+  it('signs a JWT with a PKCS#1 key as GitHub issues them, wrapped in PKCS#8', async () => {
+    const jwt = await createAppJwt({ appId: '42', privateKey: pkcs1 }, Date.UTC(2024, 0, 1));
+    expect(verify(jwt, publicKey)).toBe(true);
+
+    const payload = JSON.parse(Buffer.from(jwt.split('.')[1], 'base64url').toString());
+    const now = Date.UTC(2024, 0, 1) / 1000;
+    expect(payload).toEqual({ iat: now - 60, exp: now + 540, iss: '42' });
+    // GitHub rejects app JWTs valid for more than 10 minutes
+    expect(payload.exp - payload.iat).toBeLessThanOrEqual(600);
+  });
+
+  it('signs a JWT with a PKCS#8 key', async () => {
+    const jwt = await createAppJwt({ appId: '42', privateKey: pkcs8 }, Date.now());
+    expect(verify(jwt, publicKey)).toBe(true);
+  });
+
+  it('finds the repository owner of REST and GraphQL requests', () => {
+    expect(requestOwner('https://api.github.com/repos/acme/app/pulls/1', {})).toBe('acme');
+    expect(requestOwner('https://ghe.example.com/api/v3/repos/acme/app/commits/abc', {})).toBe('acme');
+    expect(requestOwner('https://api.github.com/graphql', { variables: { owner: 'octo', name: 'app' } })).toBe('octo');
+    expect(requestOwner('https://api.github.com/graphql', {})).toBeUndefined();
+  });
+
+  describe('requests without a repository owner', () => {
+    afterEach(() => {
+      delete process.env.GITHUB_APP_ID;
+      delete process.env.GITHUB_APP_PRIVATE_KEY;
+      delete process.env.GITHUB_APP_INSTALLATION_ID;
+    });
+
+    it('reads the installation for them from GITHUB_APP_INSTALLATION_ID', () => {
+      process.env.GITHUB_APP_ID = '42';
+      process.env.GITHUB_APP_PRIVATE_KEY = pkcs8;
+      expect(getGitHubAppCredentials().installationId).toBeUndefined();
+
+      process.env.GITHUB_APP_INSTALLATION_ID = ' 1234 ';
+      expect(getGitHubAppCredentials().installationId).toBe(1234);
+
+      process.env.GITHUB_APP_INSTALLATION_ID = 'not-a-number';
+      expect(getGitHubAppCredentials().installationId).toBeUndefined();
+    });
+
+    it('fails them when no installation is configured instead of picking one', async () => {
+      const appAuth = new GitHubAppAuth({ appId: '42', privateKey: pkcs8 });
+      await expect(appAuth.getInstallationToken()).rejects.toThrow(/GITHUB_APP_INSTALLATION_ID/);
+    });
+  });
+
+  describe('allowed owners', () => {
+    afterEach(() => {
+      delete process.env.GITHUB_APP_ID;
+      delete process.env.GITHUB_APP_PRIVATE_KEY;
+      delete process.env.GITHUB_APP_ALLOWED_OWNERS;
+    });
+
+    it('serves no owner unless GITHUB_APP_ALLOWED_OWNERS lists it', () => {
+      process.env.GITHUB_APP_ID = '42';
+      process.env.GITHUB_APP_PRIVATE_KEY = pkcs8;
+      expect(canUseGitHubApp('acme')).toBe(false);
+
+      process.env.GITHUB_APP_ALLOWED_OWNERS = ' Acme , octo';
+      expect(canUseGitHubApp('ACME')).toBe(true);
+      expect(canUseGitHubApp('other')).toBe(false);
+
+      process.env.GITHUB_APP_ALLOWED_OWNERS = '*';
+      expect(canUseGitHubApp('other')).toBe(true);
+    });
+
+    it('refuses installation tokens for other owners before asking GitHub', async () => {
+      const appAuth = new GitHubAppAuth({ appId: '42', privateKey: pkcs8, allowedOwners: ['acme'] });
+      await expect(appAuth.getInstallationToken('other')).rejects.toThrow(GitHubAppOwnerNotAllowedError);
+    });
+  });
+});
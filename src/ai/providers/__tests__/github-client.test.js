@@ -0,0 +1,130 @@
+const { afterEach, describe, it, expect } = require('@jest/globals');
+const { retryDelay } = require('../github-client');
+const { InMemoryResponseCacheStore, getResponseCacheStore, isImmutableRequest } = require('../response-cache');
+
+const MAX_BACKOFF_MS = 30000;
+
+const SHA = '0123456789abcdef0123456789abcdef01234567';
+const OTHER_SHA = 'fedcba9876543210fedcba9876543210fedcba98';
+
+describe('GitHub Client', () => {
+  describe('Immutable Requests', () => {
+    it('should treat commits, git objects and comparisons by full SHA as immutable', () => {
+      expect(isImmutableRequest('GET', `https://api.github.com/repos/a/b/commits/${SHA}`)).toBe(true);
+      expect(isImmutableRequest('GET', `https://api.github.com/repos/a/b/git/trees/${SHA}?recursive=1`)).toBe(true);
+      expect(isImmutableRequest('GET', `https://api.github.com/repos/a/b/compare/${SHA}...${OTHER_SHA}`)).toBe(true);
+    });
+
+    it('should revalidate branches, short SHAs and pull requests', () => {
+      expect(isImmutableRequest('GET', 'https://api.github.com/repos/a/b/commits/main')).toBe(false);
+      expect(isImmutableRequest('GET', 'https://api.github.com/repos/a/b/commits/0123456')).toBe(false);
+      expect(isImmutableRequest('GET', `https://api.github.com/repos/a/b/compare/main...${SHA}`)).toBe(false);
+      expect(isImmutableRequest('GET', 'https://api.github.com/repos/a/b/pulls/1')).toBe(false);
+    });
+
+    it('should not cache the list of pull requests for a commit', () => {
+      expect(isImmutableRequest('GET', `https://api.github.com/repos/a/b/commits/${SHA}/pulls`)).toBe(false);
+    });
+
+    it('should only cache GET requests', () => {
+      expect(isImmutableRequest('POST', `https://api.github.com/repos/a/b/commits/${SHA}`)).toBe(false);
+    });
+  });
+
+  describe('In-Memory Store', () => {
+    it('should evict the least recently used entry', async () => {
+      const store = new InMemoryResponseCacheStore(2);
+      await store.set('a', { status: 200 });
+      await store.set('b', { status: 200 });
+      await store.get('a');
+      await store.set('c', { status: 200 });
+
+      expect(await store.get('a')).not.toBeNull();
+      expect(await store.get('b')).toBeNull();
+      expect(await store.get('c')).not.toBeNull();
+    });
+  });
+
+  describe('Store Registration', () => {
+    const STORE = Symbol.for('commitdetective.responseCacheStore');
+
+    afterEach(() => {
+      delete globalThis[STORE];
+      jest.restoreAllMocks();
+    });
+
+    it('should share the registered store with other copies of the module', () => {
+      const store = new InMemoryResponseCacheStore();
+      jest.isolateModules(() => require('../response-cache').setResponseCacheStore(store));
+
+      let registered;
+      jest.isolateModules(() => { registered = require('../response-cache').getResponseCacheStore(); });
+      expect(registered).toBe(store);
+    });
+
+    it('should use a bound KV namespace', async () => {
+      const values = new Map();
+      // Cloudflare exposes bindings on process.env; Node's would turn the object into a string
+      jest.replaceProperty(process, 'env', {
+        ...process.env,
+        GITHUB_RESPONSE_CACHE_KV: {
+          get: async (key) => (values.has(key) ? JSON.parse(values.get(key)) : null),
+          put: async (key, value) => { values.set(key, value); },
+        },
+      });
+
+      await getResponseCacheStore().set('a', { status: 200, immutable: true });
+      expect(values.has('github-response:a')).toBe(true);
+      expect(await getResponseCacheStore().get('a')).toEqual({ status: 200, immutable: true });
+    });
+  });
+
+  describe('Retry Delay', () => {
+    const now = 1_700_000_000_000;
+
+    // retryDelay with the clock and the jitter fixed
+    function delay(error, attempt, random = 1) {
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+      jest.spyOn(Math, 'random').mockReturnValue(random);
+      return retryDelay(error, attempt);
+    }
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should back off exponentially with jitter on server errors', () => {
+      expect(delay({ status: 502 }, 0)).toBe(1000);
+      expect(delay({ status: 503 }, 3, 0.5)).toBe(4000);
+      expect(delay({ status: 500 }, 10)).toBe(MAX_BACKOFF_MS);
+    });
+
+    it('should retry network errors but not aborts', () => {
+      expect(delay({ name: 'HttpError', message: 'fetch failed' }, 0)).toBe(1000);
+      expect(delay({ name: 'AbortError' }, 0)).toBeNull();
+    });
+
+    it('should not retry client errors', () => {
+      expect(delay({ status: 404 }, 0)).toBeNull();
+      expect(delay({ status: 403, message: 'Resource not accessible by integration' }, 0)).toBeNull();
+    });
+
+    it('should honour retry-after up to the longest wait', () => {
+      expect(delay({ status: 429, response: { headers: { 'retry-after': '5' } } }, 0)).toBe(5000);
+      expect(delay({ status: 403, response: { headers: { 'retry-after': '120' } } }, 0)).toBeNull();
+    });
+
+    it('should wait for a primary rate limit that resets soon and give up on one that does not', () => {
+      const soon = { status: 403, response: { headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(now / 1000 + 30) } } };
+      const later = { status: 403, response: { headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(now / 1000 + 3600) } } };
+
+      expect(delay(soon, 0)).toBe(30000);
+      expect(delay(later, 0)).toBeNull();
+    });
+
+    it('should back off on secondary rate limits without retry-after', () => {
+      const error = { status: 403, message: 'You have exceeded a secondary rate limit', response: { headers: {} } };
+      expect(delay(error, 1, 0.25)).toBe(500);
+    });
+  });
+});
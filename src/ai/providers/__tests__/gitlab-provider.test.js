@@ -0,0 +1,124 @@
+const { afterEach, describe, it, expect } = require('@jest/globals');
+const { GitLabProvider } = require('../gitlab-provider');
+
+const PROJECT = '/api/v4/projects/acme%2Fapp';
+const originalFetch = globalThis.fetch;
+
+// Serves GitLab API paths from a table, and any commit with an empty diff; anything else is a 404
+function stubGitLab(routes) {
+  globalThis.fetch = async (url) => {
+    const path = new URL(url).pathname.replace(PROJECT, '');
+    const commit = /^\/repository\/commits\/([^/]+)(\/diff)?$/.exec(path);
+    const body = commit ? (commit[2] ? [] : { id: commit[1], parent_ids: [] }) : routes[path];
+    return body === undefined
+      ? new Response('{}', { status: 404, statusText: 'Not Found' })
+      : new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+  };
+}
+
+function mergeRequest(fields, project = { merge_method: 'merge' }, commits = [{ id: 'c1' }]) {
+  stubGitLab({
+    '/merge_requests/1': { state: 'merged', merged_at: '2024-01-02T00:00:00Z', sha: 'head', ...fields },
+    '': project,
+    '/merge_requests/1/commits': commits,
+    '/merge_requests/1/notes': [],
+  });
+  return new GitLabProvider('token', 'https://gitlab.example.com').getPullRequestData('acme', 'app', 1);
+}
+
+const mergeStrategy = (data) => data.timelineEvents.find(event => event.event === 'merged').merge_strategy;
+
+describe('GitLab Merge Request Normalization', () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  describe('Merge Strategy Mapping', () => {
+    it('should map squashed merge requests to the squash strategy', async () => {
+      const data = await mergeRequest({ squash: true, squash_commit_sha: 'sq1', merge_commit_sha: 'm1' });
+      expect(mergeStrategy(data)).toBe('squash');
+      expect(data.prDetails.merge_commit_sha).toBe('sq1');
+    });
+
+    it('should map fast-forward projects without a merge commit to the rebase strategy', async () => {
+      const data = await mergeRequest({ squash: false, merge_commit_sha: null }, { merge_method: 'ff' });
+      expect(mergeStrategy(data)).toBe('rebase');
+      expect(data.prDetails.merge_commit_sha).toBe('head');
+    });
+
+    it('should default to the merge strategy', async () => {
+      const data = await mergeRequest({ squash: false, merge_commit_sha: 'm1' }, undefined);
+      expect(mergeStrategy(data)).toBe('merge');
+    });
+
+    it('should not treat a squash flag without a squash commit as a squash', async () => {
+      const data = await mergeRequest({ squash: true, squash_commit_sha: null, merge_commit_sha: 'm1' });
+      expect(mergeStrategy(data)).toBe('merge');
+    });
+  });
+
+  describe('Commit Ordering', () => {
+    it('should return commits oldest first and chain inferred parents', async () => {
+      const { prCommits } = await mergeRequest(
+        { merge_commit_sha: 'm1', diff_refs: { start_sha: 'base' } },
+        undefined,
+        [{ id: 'c3' }, { id: 'c2' }, { id: 'c1' }]
+      );
+
+      expect(prCommits.map(c => c.sha)).toEqual(['c1', 'c2', 'c3']);
+      expect(prCommits[0].parents).toEqual([{ sha: 'base' }]);
+      expect(prCommits[2].parents).toEqual([{ sha: 'c2' }]);
+    });
+
+    it('should prefer parent ids reported by GitLab', async () => {
+      const { prCommits } = await mergeRequest(
+        { merge_commit_sha: 'm1', diff_refs: { start_sha: 'base' } },
+        undefined,
+        [{ id: 'c2', parent_ids: ['x'] }, { id: 'c1' }]
+      );
+      expect(prCommits[1].parents).toEqual([{ sha: 'x' }]);
+    });
+  });
+
+  describe('Deployments After a Merge', () => {
+    it('should list deployments from the merge forward and return them newest first', async () => {
+      const queries = [];
+      globalThis.fetch = async (url) => {
+        queries.push(new URL(url).searchParams);
+        const deployments = [
+          { id: 1, status: 'success', sha: 'a', created_at: '2024-01-02T00:00:00Z' },
+          { id: 2, status: 'failed', sha: 'b', created_at: '2024-01-03T00:00:00Z' },
+          { id: 3, status: 'success', sha: 'c', created_at: '2024-01-04T00:00:00Z' },
+        ];
+        return new Response(JSON.stringify(deployments), { status: 200 });
+      };
+
+      const records = await new GitLabProvider('token', 'https://gitlab.example.com')
+        .listDeployments('acme', 'app', { environment: 'production', since: '2024-01-01T00:00:00Z', limit: 2 });
+
+      expect(queries[0].get('sort')).toBe('asc');
+      expect(queries[0].get('updated_after')).toBe('2024-01-01T00:00:00Z');
+      expect(records.map(record => record.id)).toEqual(['2', '1']);
+    });
+
+    it('should page releases until they predate the merge and keep the ones closest to it', async () => {
+      const pages = {
+        1: [{ tag_name: 'v3', released_at: '2024-01-05T00:00:00Z' }, { tag_name: 'v2', released_at: '2024-01-03T00:00:00Z' }],
+        2: [{ tag_name: 'v1', released_at: '2024-01-02T00:00:00Z' }, { tag_name: 'v0', released_at: '2023-12-01T00:00:00Z' }],
+        3: [{ tag_name: 'older', released_at: '2023-11-01T00:00:00Z' }],
+      };
+      const requested = [];
+      globalThis.fetch = async (url) => {
+        const page = new URL(url).searchParams.get('page');
+        requested.push(page);
+        return new Response(JSON.stringify(pages[page]), { status: 200, headers: { 'x-next-page': String(Number(page) + 1) } });
+      };
+
+      const releases = await new GitLabProvider('token', 'https://gitlab.example.com')
+        .listReleases('acme', 'app', { since: '2024-01-01T00:00:00Z', limit: 2 });
+
+      expect(requested).toEqual(['1', '2']);
+      expect(releases.map(release => release.ref)).toEqual(['v2', 'v1']);
+    });
+  });
+});
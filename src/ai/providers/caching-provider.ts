@@ -0,0 +1,97 @@
+import type { GitHubCommit, PullRequestData } from '@/ai/tools/github-tools';
+import type {
+  CommitDetails,
+  CompareResult,
+  DeploymentRecord,
+  ListCommitsOptions,
+  ListDeploymentsOptions,
+  ListMergedPullRequestsOptions,
+  MergedPullRequestSummary,
+  SourceControlProvider,
+  SourceControlProviderName,
+} from './source-control-provider';
+
+/**
+ * Caching Source Control Provider
+ *
+ * Wraps a provider and remembers every response for the lifetime of the wrapper, so
+ * analyses sharing it fetch each PR, commit and comparison once. Requests in flight are
+ * shared too; failed requests are not cached.
+ */
+export class CachingSourceControlProvider implements SourceControlProvider {
+  readonly name: SourceControlProviderName;
+  private provider: SourceControlProvider;
+  private cache = new Map<string, Promise<unknown>>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(provider: SourceControlProvider) {
+    this.provider = provider;
+    this.name = provider.name;
+  }
+
+  get stats(): { hits: number; misses: number } {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  getPullRequestData(repoOwner: string, repoName: string, pullRequestNumber: number): Promise<PullRequestData> {
+    return this.cached('getPullRequestData', [repoOwner, repoName, pullRequestNumber],
+      () => this.provider.getPullRequestData(repoOwner, repoName, pullRequestNumber));
+  }
+
+  getCommitDetails(repoOwner: string, repoName: string, ref: string): Promise<CommitDetails> {
+    return this.cached('getCommitDetails', [repoOwner, repoName, ref],
+      () => this.provider.getCommitDetails(repoOwner, repoName, ref));
+  }
+
+  compareCommits(repoOwner: string, repoName: string, base: string, head: string): Promise<CompareResult> {
+    return this.cached('compareCommits', [repoOwner, repoName, base, head],
+      () => this.provider.compareCommits(repoOwner, repoName, base, head));
+  }
+
+  listCommits(repoOwner: string, repoName: string, options: ListCommitsOptions): Promise<GitHubCommit[]> {
+    return this.cached('listCommits', [repoOwner, repoName, options],
+      () => this.provider.listCommits(repoOwner, repoName, options));
+  }
+
+  listMergedPullRequests(
+    repoOwner: string,
+    repoName: string,
+    options: ListMergedPullRequestsOptions
+  ): Promise<MergedPullRequestSummary[]> {
+    return this.cached('listMergedPullRequests', [repoOwner, repoName, options],
+      () => this.provider.listMergedPullRequests(repoOwner, repoName, options));
+  }
+
+  listPullRequestsForCommit(repoOwner: string, repoName: string, sha: string): Promise<MergedPullRequestSummary[]> {
+    return this.cached('listPullRequestsForCommit', [repoOwner, repoName, sha],
+      () => this.provider.listPullRequestsForCommit(repoOwner, repoName, sha));
+  }
+
+  listDeployments(repoOwner: string, repoName: string, options: ListDeploymentsOptions): Promise<DeploymentRecord[]> {
+    return this.cached('listDeployments', [repoOwner, repoName, options],
+      () => this.provider.listDeployments(repoOwner, repoName, options));
+  }
+
+  listReleases(repoOwner: string, repoName: string, options: ListDeploymentsOptions): Promise<DeploymentRecord[]> {
+    return this.cached('listReleases', [repoOwner, repoName, options],
+      () => this.provider.listReleases(repoOwner, repoName, options));
+  }
+
+  private cached<T>(method: string, args: unknown[], load: () => Promise<T>): Promise<T> {
+    const key = JSON.stringify([method, ...args]);
+    const cached = this.cache.get(key);
+    if (cached) {
+      this.hits++;
+      return cached as Promise<T>;
+    }
+
+    this.misses++;
+    const response = load().catch(error => {
+      this.cache.delete(key);
+      throw error;
+    });
+    this.cache.set(key, response);
+    return response;
+  }
+}
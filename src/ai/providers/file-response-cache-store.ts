@@ -0,0 +1,36 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { CachedResponse, ResponseCacheStore } from './response-cache';
+
+/**
+ * Keeps responses as JSON files, one per key, so they survive restarts of a Node.js server
+ */
+export class FileSystemResponseCacheStore implements ResponseCacheStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  async get(key: string): Promise<CachedResponse | null> {
+    try {
+      return JSON.parse(await readFile(this.filePath(key), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    const file = this.filePath(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    // Written aside and renamed so concurrent readers never see a partial file
+    const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(temporary, JSON.stringify(entry));
+    await rename(temporary, file);
+  }
+
+  // Keys are hex digests; the first two characters shard the directory
+  private filePath(key: string): string {
+    return path.join(this.directory, key.substring(0, 2), `${key}.json`);
+  }
+}
@@ -0,0 +1,265 @@
+import { Octokit } from '@octokit/rest';
+
+/**
+ * GitHub App authentication
+ *
+ * When GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY are set, GitHub analyses that come without
+ * a token run as the app. The server signs a JWT with the app's private key, swaps it for
+ * an installation token of the repository owner, and reuses that token until shortly
+ * before it expires. Anyone who can reach the server can make such requests, so the app
+ * only serves the owners listed in GITHUB_APP_ALLOWED_OWNERS. Requests that name no owner
+ * use the installation in GITHUB_APP_INSTALLATION_ID, and fail without one rather than act
+ * as whichever installation GitHub lists first. The JWT is signed with Web Crypto so this also works
+ * on the edge.
+ */
+
+// GitHub rejects app JWTs that are valid for longer than 10 minutes
+const JWT_LIFETIME_SECONDS = 9 * 60;
+// Allows for clocks running ahead of GitHub's
+const JWT_CLOCK_DRIFT_SECONDS = 60;
+// Installation tokens last an hour; they are replaced when less than this is left
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// AlgorithmIdentifier of rsaEncryption, for wrapping PKCS#1 keys in PKCS#8
+const RSA_ALGORITHM_IDENTIFIER = [0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00];
+
+export interface GitHubAppCredentials {
+  appId: string;
+  // PEM private key, PKCS#1 as GitHub issues it or PKCS#8
+  privateKey: string;
+  // Installation used for requests that name no repository owner
+  installationId?: number;
+  // Lowercased owners whose repositories the app may read for requests without a token; '*' allows any
+  allowedOwners?: string[];
+}
+
+interface InstallationToken {
+  token: string;
+  expiresAtMs: number;
+}
+
+/**
+ * Thrown when the app is not installed on the owner of the repository being analyzed.
+ * Carries a 404 status like Octokit's RequestError.
+ */
+export class GitHubAppInstallationError extends Error {
+  status = 404;
+
+  constructor(owner: string) {
+    super(`The GitHub App is not installed on ${owner}. Install it there or provide an access token.`);
+    this.name = 'GitHubAppInstallationError';
+  }
+}
+
+/**
+ * Thrown when a request without a token asks for an owner outside GITHUB_APP_ALLOWED_OWNERS.
+ * Carries a 403 status like Octokit's RequestError.
+ */
+export class GitHubAppOwnerNotAllowedError extends Error {
+  status = 403;
+
+  constructor(owner: string) {
+    super(`The GitHub App may not be used for ${owner}. Add it to GITHUB_APP_ALLOWED_OWNERS or provide an access token.`);
+    this.name = 'GitHubAppOwnerNotAllowedError';
+  }
+}
+
+/**
+ * The app credentials from GITHUB_APP_ID, GITHUB_APP_PRIVATE_KEY and the optional
+ * GITHUB_APP_INSTALLATION_ID and GITHUB_APP_ALLOWED_OWNERS, or null when the server is
+ * not set up as a GitHub App.
+ * Escaped newlines in the key are restored, since most hosting dashboards only take
+ * single-line values.
+ */
+export function getGitHubAppCredentials(): GitHubAppCredentials | null {
+  const appId = process.env.GITHUB_APP_ID?.trim();
+  const privateKey = process.env.GITHUB_APP_PRIVATE_KEY?.replace(/\\n/g, '\n').trim();
+  if (!appId || !privateKey) return null;
+
+  const installationId = Number(process.env.GITHUB_APP_INSTALLATION_ID?.trim());
+  const allowedOwners = (process.env.GITHUB_APP_ALLOWED_OWNERS || '')
+    .split(',')
+    .map(owner => owner.trim().toLowerCase())
+    .filter(Boolean);
+
+  return {
+    appId,
+    privateKey,
+    installationId: Number.isInteger(installationId) && installationId > 0 ? installationId : undefined,
+    allowedOwners,
+  };
+}
+
+export function isGitHubAppOwnerAllowed(credentials: GitHubAppCredentials, owner: string): boolean {
+  const allowedOwners = credentials.allowedOwners || [];
+  return allowedOwners.includes('*') || allowedOwners.includes(owner.toLowerCase());
+}
+
+/**
+ * Whether a request without a token may analyze the repositories of `owner` as the app
+ */
+export function canUseGitHubApp(owner: string): boolean {
+  const credentials = getGitHubAppCredentials();
+  return credentials !== null && isGitHubAppOwnerAllowed(credentials, owner);
+}
+
+/**
+ * Signs the short-lived RS256 JWT that authenticates as the app itself
+ */
+export async function createAppJwt(credentials: GitHubAppCredentials, nowMs = Date.now()): Promise<string> {
+  const now = Math.floor(nowMs / 1000);
+  const header = { alg: 'RS256', typ: 'JWT' };
+  const payload = {
+    iat: now - JWT_CLOCK_DRIFT_SECONDS,
+    exp: now + JWT_LIFETIME_SECONDS,
+    iss: credentials.appId,
+  };
+
+  const signingInput = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(payload))}`;
+  const key = await crypto.subtle.importKey(
+    'pkcs8',
+    toPkcs8(credentials.privateKey),
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(signingInput));
+
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Issues installation tokens for one GitHub host, caching the installation and token of
+ * each owner. Concurrent requests for the same owner share one token exchange.
+ */
+export class GitHubAppAuth {
+  private credentials: GitHubAppCredentials;
+  private baseUrl?: string;
+  private installations = new Map<string, number>();
+  private tokens = new Map<string, InstallationToken>();
+  private pending = new Map<string, Promise<InstallationToken>>();
+
+  constructor(credentials: GitHubAppCredentials, baseUrl?: string) {
+    this.credentials = credentials;
+    this.baseUrl = baseUrl;
+  }
+
+  /**
+   * An installation token for the repositories of `owner`, which must be an allowed owner.
+   * Requests that name no owner use the configured installation, and fail when there is none.
+   */
+  async getInstallationToken(owner?: string): Promise<string> {
+    if (owner && !isGitHubAppOwnerAllowed(this.credentials, owner)) {
+      throw new GitHubAppOwnerNotAllowedError(owner);
+    }
+
+    const key = owner?.toLowerCase() || '';
+    const cached = this.tokens.get(key);
+    if (cached && cached.expiresAtMs - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+      return cached.token;
+    }
+
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.createInstallationToken(owner).finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    const token = await pending;
+    this.tokens.set(key, token);
+    return token.token;
+  }
+
+  /**
+   * Forgets the token of an owner, e.g. after GitHub rejected it
+   */
+  invalidate(owner?: string): void {
+    this.tokens.delete(owner?.toLowerCase() || '');
+  }
+
+  private async createInstallationToken(owner?: string): Promise<InstallationToken> {
+    const octokit = new Octokit({ auth: await createAppJwt(this.credentials), baseUrl: this.baseUrl });
+    const installationId = await this.findInstallation(octokit, owner);
+    const { data } = await octokit.apps.createInstallationAccessToken({ installation_id: installationId });
+    return { token: data.token, expiresAtMs: Date.parse(data.expires_at) };
+  }
+
+  private async findInstallation(octokit: Octokit, owner?: string): Promise<number> {
+    if (!owner) {
+      if (this.credentials.installationId === undefined) {
+        throw new Error('A GitHub App request named no repository owner. Set GITHUB_APP_INSTALLATION_ID to choose the installation for such requests.');
+      }
+      return this.credentials.installationId;
+    }
+
+    const key = owner.toLowerCase();
+    const known = this.installations.get(key);
+    if (known !== undefined) return known;
+
+    let installationId: number | undefined;
+    // Organizations and users have separate lookups
+    try {
+      installationId = (await octokit.apps.getOrgInstallation({ org: owner })).data.id;
+    } catch (error: any) {
+      if (error.status !== 404) throw error;
+      try {
+        installationId = (await octokit.apps.getUserInstallation({ username: owner })).data.id;
+      } catch (userError: any) {
+        if (userError.status !== 404) throw userError;
+      }
+    }
+
+    if (installationId === undefined) {
+      throw new GitHubAppInstallationError(owner);
+    }
+    this.installations.set(key, installationId);
+    return installationId;
+  }
+}
+
+// One instance per host, so tokens outlive the request that fetched them
+const appAuths = new Map<string, GitHubAppAuth>();
+
+/**
+ * The app authentication for a GitHub host, or null when no app is configured
+ */
+export function getGitHubAppAuth(baseUrl?: string): GitHubAppAuth | null {
+  const credentials = getGitHubAppCredentials();
+  if (!credentials) return null;
+
+  const key = baseUrl || '';
+  let appAuth = appAuths.get(key);
+  if (!appAuth) {
+    appAuth = new GitHubAppAuth(credentials, baseUrl);
+    appAuths.set(key, appAuth);
+  }
+  return appAuth;
+}
+
+function toPkcs8(pem: string): ArrayBuffer {
+  const der = Uint8Array.from(atob(pem.replace(/-----[^-]+-----/g, '').replace(/\s+/g, '')), c => c.charCodeAt(0));
+  if (!pem.includes('BEGIN RSA PRIVATE KEY')) return der.buffer;
+
+  // PrivateKeyInfo ::= SEQUENCE { version, AlgorithmIdentifier, OCTET STRING (PKCS#1 key) }
+  const body = [0x02, 0x01, 0x00, ...RSA_ALGORITHM_IDENTIFIER, 0x04, ...derLength(der.length)];
+  const prefix = [0x30, ...derLength(body.length + der.length), ...body];
+  const pkcs8 = new Uint8Array(prefix.length + der.length);
+  pkcs8.set(prefix);
+  pkcs8.set(der, prefix.length);
+  return pkcs8.buffer;
+}
+
+function derLength(length: number): number[] {
+  if (length < 0x80) return [length];
+  const bytes: number[] = [];
+  for (let remaining = length; remaining > 0; remaining = Math.floor(remaining / 256)) {
+    bytes.unshift(remaining & 0xff);
+  }
+  return [0x80 | bytes.length, ...bytes];
+}
+
+function base64UrlEncode(input: string | Uint8Array): string {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
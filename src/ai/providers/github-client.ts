@@ -0,0 +1,241 @@
+import { Octokit } from '@octokit/rest';
+import type { AnalysisEventListener, ApiCacheStats, RateLimitStatus } from '@/lib/types';
+import type { GitHubAppAuth } from './github-app-auth';
+import {
+  CachedResponse,
+  getResponseCacheStore,
+  isImmutableRequest,
+  responseCacheKey,
+  ResponseCacheStore,
+} from './response-cache';
+
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+// Longest wait for the rate limit to reset before the analysis gives up
+const MAX_RATE_LIMIT_WAIT_MS = 60000;
+// Below this share of the budget, requests are spread out until the reset
+const LOW_BUDGET_RATIO = 0.05;
+const MAX_THROTTLE_DELAY_MS = 1000;
+
+export interface GitHubClientOptions {
+  // REST API base URL of a GitHub Enterprise Server instance (default: github.com)
+  baseUrl?: string;
+  // Aborts in-flight requests and waits between retries
+  signal?: AbortSignal;
+  // Receives a rate-limit event after each response that reports one
+  onEvent?: AnalysisEventListener;
+  // Counts responses served by the response cache
+  cacheStats?: ApiCacheStats;
+  // Defaults to getResponseCacheStore()
+  cacheStore?: ResponseCacheStore;
+  maxRetries?: number;
+}
+
+/**
+ * Thrown when the API rate limit is spent and does not reset soon enough to wait for it.
+ * Carries the HTTP status like Octokit's RequestError so callers can handle both alike.
+ */
+export class RateLimitExceededError extends Error {
+  status: number;
+  resetAt?: string;
+
+  constructor(message: string, status: number, resetAt?: string) {
+    super(message);
+    this.name = 'RateLimitExceededError';
+    this.status = status;
+    this.resetAt = resetAt;
+  }
+}
+
+/**
+ * Creates the Octokit client every GitHub call of an analysis goes through. It serves and
+ * revalidates responses from the response cache, follows the rate limit headers (slowing
+ * down as the budget runs low), waits out secondary rate limits, retries transient 5xx
+ * and network errors with jittered exponential backoff, and throws RateLimitExceededError
+ * once the budget is spent.
+ *
+ * Authenticates with an access token, or as a GitHub App with the installation token of
+ * the repository owner each request is for.
+ */
+export function createGitHubClient(auth: string | GitHubAppAuth, options: GitHubClientOptions = {}): Octokit {
+  const { signal, onEvent, cacheStats, maxRetries = DEFAULT_MAX_RETRIES } = options;
+  const appAuth = typeof auth === 'string' ? null : auth;
+  const octokit = new Octokit({ auth: appAuth ? undefined : auth, baseUrl: options.baseUrl, request: { signal } });
+  let rateLimit: { limit: number; remaining: number; resetAtMs?: number } | null = null;
+
+  const recordRateLimit = (headers: Record<string, string | number | undefined> = {}) => {
+    const remaining = headers['x-ratelimit-remaining'];
+    if (remaining === undefined) return;
+
+    const reset = headers['x-ratelimit-reset'];
+    rateLimit = {
+      limit: Number(headers['x-ratelimit-limit']),
+      remaining: Number(remaining),
+      resetAtMs: reset ? Number(reset) * 1000 : undefined,
+    };
+    const status: RateLimitStatus = {
+      limit: rateLimit.limit,
+      remaining: rateLimit.remaining,
+      resetAt: rateLimit.resetAtMs ? new Date(rateLimit.resetAtMs).toISOString() : undefined,
+    };
+    onEvent?.({ type: 'rate-limit', rateLimit: status });
+  };
+
+  // Waits for the budget when it is spent or nearly spent
+  const throttle = async () => {
+    if (!rateLimit?.resetAtMs) return;
+    const untilReset = rateLimit.resetAtMs - Date.now();
+    if (untilReset <= 0) return;
+
+    if (rateLimit.remaining <= 0) {
+      if (untilReset > MAX_RATE_LIMIT_WAIT_MS) {
+        throw new RateLimitExceededError('GitHub API rate limit exceeded', 403, new Date(rateLimit.resetAtMs).toISOString());
+      }
+      await sleep(untilReset, signal);
+    } else if (rateLimit.remaining < rateLimit.limit * LOW_BUDGET_RATIO) {
+      await sleep(Math.min(untilReset / rateLimit.remaining, MAX_THROTTLE_DELAY_MS), signal);
+    }
+  };
+
+  octokit.hook.wrap('request', async (request, requestOptions) => {
+    const { method, url } = octokit.request.endpoint.parse(requestOptions);
+    const owner = appAuth ? requestOwner(url, requestOptions) : undefined;
+    const authorize = async () => {
+      const token = await appAuth!.getInstallationToken(owner);
+      requestOptions.headers = { ...requestOptions.headers, authorization: `token ${token}` };
+      return token;
+    };
+    const token = appAuth ? await authorize() : auth as string;
+
+    const store = method === 'GET' ? options.cacheStore || getResponseCacheStore() : null;
+    const key = store ? await responseCacheKey(token, url) : '';
+    const cached = store ? await store.get(key) : null;
+
+    if (cached?.immutable) {
+      if (cacheStats) cacheStats.hits++;
+      return toResponse(cached);
+    }
+    if (cached?.etag) {
+      requestOptions.headers = { ...requestOptions.headers, 'if-none-match': cached.etag };
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      await throttle();
+      try {
+        const response = await request(requestOptions);
+        recordRateLimit(response.headers);
+
+        if (store) {
+          if (cacheStats) cacheStats.misses++;
+          const immutable = isImmutableRequest(method, url);
+          if (immutable || response.headers.etag) {
+            await store.set(key, {
+              status: response.status,
+              url: response.url,
+              headers: response.headers as Record<string, string>,
+              data: response.data,
+              etag: response.headers.etag,
+              immutable,
+              storedAt: new Date().toISOString(),
+            });
+          }
+        }
+        return response;
+      } catch (error: any) {
+        recordRateLimit(error.response?.headers);
+
+        if (error.status === 304 && cached) {
+          if (cacheStats) cacheStats.revalidated++;
+          return toResponse(cached);
+        }
+        // Installation tokens can be revoked before they expire
+        if (error.status === 401 && appAuth && attempt === 0) {
+          appAuth.invalidate(owner);
+          await authorize();
+          continue;
+        }
+
+        const delay = retryDelay(error, attempt);
+        if (delay === null || attempt >= maxRetries || signal?.aborted) {
+          throw toRateLimitError(error) || error;
+        }
+        await sleep(delay, signal);
+      }
+    }
+  });
+
+  return octokit;
+}
+
+/**
+ * The repository owner a REST or GraphQL request is for, if it names one
+ */
+export function requestOwner(url: string, requestOptions: Record<string, any>): string | undefined {
+  const match = /\/repos\/([^/?]+)\//.exec(new URL(url).pathname);
+  if (match) return decodeURIComponent(match[1]);
+  const owner = requestOptions.variables?.owner;
+  return typeof owner === 'string' ? owner : undefined;
+}
+
+/**
+ * How long to wait before retrying a failed request, or null when it should not be retried
+ */
+export function retryDelay(error: any, attempt: number): number | null {
+  const status: number | undefined = error.status;
+  const headers = error.response?.headers || {};
+  const backoff = Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+
+  if (status === 403 || status === 429) {
+    const retryAfter = headers['retry-after'];
+    if (retryAfter !== undefined) {
+      const waitMs = Number(retryAfter) * 1000;
+      return waitMs <= MAX_RATE_LIMIT_WAIT_MS ? waitMs : null;
+    }
+    if (headers['x-ratelimit-remaining'] === '0') {
+      const waitMs = Number(headers['x-ratelimit-reset']) * 1000 - Date.now();
+      return waitMs <= MAX_RATE_LIMIT_WAIT_MS ? Math.max(waitMs, 0) : null;
+    }
+    // Secondary rate limits do not always send retry-after
+    return /secondary rate limit/i.test(error.message || '') ? backoff : null;
+  }
+
+  // Transient server errors, and network errors that never got a status
+  if (status === undefined) return error.name === 'AbortError' ? null : backoff;
+  return status >= 500 ? backoff : null;
+}
+
+function toRateLimitError(error: any): RateLimitExceededError | null {
+  const headers = error.response?.headers || {};
+  const limited = (error.status === 403 || error.status === 429) && (
+    headers['retry-after'] !== undefined ||
+    headers['x-ratelimit-remaining'] === '0' ||
+    /rate limit/i.test(error.message || '')
+  );
+  if (!limited) return null;
+
+  const reset = headers['x-ratelimit-reset'];
+  return new RateLimitExceededError(
+    error.message || 'GitHub API rate limit exceeded',
+    error.status,
+    reset ? new Date(Number(reset) * 1000).toISOString() : undefined
+  );
+}
+
+function toResponse(cached: CachedResponse) {
+  return { status: cached.status, url: cached.url, headers: cached.headers, data: cached.data as any };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
@@ -0,0 +1,71 @@
+/**
+ * GitHub Enterprise Server hosts
+ *
+ * Analyses run against github.com unless a request names another host. Tokens are sent to
+ * that host, so only hosts listed in GITHUB_ENTERPRISE_HOSTS are accepted; anything else
+ * would let a request point the server at an arbitrary URL.
+ */
+
+const GITHUB_COM_HOSTS = ['github.com', 'api.github.com'];
+
+// Where a GitHub Enterprise Server instance serves its REST API
+const ENTERPRISE_API_PATH = '/api/v3';
+
+/**
+ * Hosts listed in GITHUB_ENTERPRISE_HOSTS, lowercased, with their port when one is given
+ */
+export function getAllowedGitHubHosts(): string[] {
+  return (process.env.GITHUB_ENTERPRISE_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Resolves a GitHub host or URL, such as "github.example.com", "https://github.example.com"
+ * or "https://github.example.com/api/v3", to the REST API base URL to use. Returns undefined
+ * for github.com, which is Octokit's default, and throws for anything that is not an
+ * allowed GitHub Enterprise Server host.
+ */
+export function resolveGitHubBaseUrl(input?: string): string | undefined {
+  const value = input?.trim();
+  if (!value) return undefined;
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`);
+  } catch {
+    throw new Error(`Invalid GitHub host "${value}".`);
+  }
+
+  const host = url.host.toLowerCase();
+  if (GITHUB_COM_HOSTS.includes(host)) return undefined;
+
+  if (url.protocol !== 'https:') {
+    throw new Error(`GitHub host ${host} must use https.`);
+  }
+  if (url.username || url.password || url.search || url.hash) {
+    throw new Error(`GitHub host ${host} must not carry credentials, a query or a fragment.`);
+  }
+  const path = url.pathname.replace(/\/+$/, '');
+  if (path !== '' && path !== ENTERPRISE_API_PATH) {
+    throw new Error(`GitHub host ${host} must be given without a path, or with ${ENTERPRISE_API_PATH}.`);
+  }
+  if (!getAllowedGitHubHosts().includes(host)) {
+    throw new Error(`GitHub host ${host} is not allowed. Add it to GITHUB_ENTERPRISE_HOSTS.`);
+  }
+
+  return `https://${host}${ENTERPRISE_API_PATH}`;
+}
+
+/**
+ * Whether a GitHub host or URL can be analyzed, for request validation
+ */
+export function isAllowedGitHubBaseUrl(input?: string): boolean {
+  try {
+    resolveGitHubBaseUrl(input);
+    return true;
+  } catch {
+    return false;
+  }
+}
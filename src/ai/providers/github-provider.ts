@@ -0,0 +1,287 @@
+import { Octokit } from '@octokit/rest';
+import { getPullRequestData, GitHubCommit, PullRequestData } from '@/ai/tools/github-tools';
+import { getPullRequestDataGraphQL, getSupportedTimelineItemTypes } from '@/ai/tools/github-graphql';
+import { redactSecrets } from '@/lib/credentials';
+import { RateLimitExceededError } from './github-client';
+import type {
+  CommitDetails,
+  CompareResult,
+  DeploymentRecord,
+  ListCommitsOptions,
+  ListDeploymentsOptions,
+  ListMergedPullRequestsOptions,
+  MergedPullRequestSummary,
+  SourceControlProvider,
+} from './source-control-provider';
+
+// Deployments and releases are listed newest first, so older ones are rarely needed; with
+// `since` the ones closest to it are kept instead
+const DEFAULT_DEPLOYMENT_LIMIT = 30;
+
+// Releases are listed by creation but dated by publication, so paging continues this far
+// before `since` to find drafts created earlier and published after it
+const DRAFT_RELEASE_LOOKBACK_MS = 90 * 24 * 60 * 60 * 1000;
+
+// How pull requests are fetched: one GraphQL query, or several REST calls
+export type PullRequestApi = 'graphql' | 'rest';
+
+/**
+ * GitHub implementation of the source control provider, backed by Octokit
+ */
+export class GitHubProvider implements SourceControlProvider {
+  readonly name = 'github' as const;
+  private octokit: Octokit;
+  private pullRequestApi: PullRequestApi;
+  private enterprise: boolean;
+  // Timeline item types a GitHub Enterprise Server supports, found on its first PR
+  private timelineItemTypes?: string[];
+
+  constructor(octokit: Octokit, pullRequestApi: PullRequestApi = getDefaultPullRequestApi(), enterprise = false) {
+    this.octokit = octokit;
+    this.pullRequestApi = pullRequestApi;
+    this.enterprise = enterprise;
+  }
+
+  async getPullRequestData(
+    repoOwner: string,
+    repoName: string,
+    pullRequestNumber: number
+  ): Promise<PullRequestData> {
+    if (this.pullRequestApi === 'graphql') {
+      try {
+        if (this.enterprise && !this.timelineItemTypes) {
+          this.timelineItemTypes = await getSupportedTimelineItemTypes(this.octokit, repoOwner);
+        }
+        return await getPullRequestDataGraphQL(this.octokit, repoOwner, repoName, pullRequestNumber, this.timelineItemTypes);
+      } catch (error: any) {
+        // REST would fail the same way
+        if (error instanceof RateLimitExceededError || error.status === 401 || error.status === 404 || error.name === 'AbortError') {
+          throw error;
+        }
+        // Tokens without GraphQL access and servers missing part of the schema fail every
+        // query, so the rest of the analysis goes straight to REST
+        console.warn(`GraphQL fetch of PR #${pullRequestNumber} failed, falling back to REST: ${redactSecrets(error.message)}`);
+        this.pullRequestApi = 'rest';
+      }
+    }
+    return getPullRequestData(this.octokit, repoOwner, repoName, pullRequestNumber);
+  }
+
+  async getCommitDetails(repoOwner: string, repoName: string, ref: string): Promise<CommitDetails> {
+    const response = await this.octokit.repos.getCommit({
+      owner: repoOwner,
+      repo: repoName,
+      ref,
+    });
+
+    const data = response.data as any; // Using 'any' as octokit types can be complex
+    return {
+      ...data,
+      treeSha: data.commit?.tree?.sha,
+      stats: data.stats,
+      files: data.files,
+    };
+  }
+
+  async compareCommits(repoOwner: string, repoName: string, base: string, head: string): Promise<CompareResult> {
+    const response = await this.octokit.repos.compareCommitsWithBasehead({
+      owner: repoOwner,
+      repo: repoName,
+      basehead: `${base}...${head}`,
+    });
+
+    return {
+      status: response.data.status,
+      aheadBy: response.data.ahead_by,
+      behindBy: response.data.behind_by,
+      mergeBaseSha: response.data.merge_base_commit?.sha,
+      commits: response.data.commits as any,
+      files: response.data.files as any,
+    };
+  }
+
+  async listCommits(repoOwner: string, repoName: string, options: ListCommitsOptions): Promise<GitHubCommit[]> {
+    const limit = options.limit ?? Infinity;
+    let fetched = 0;
+
+    const commits = await this.octokit.paginate(
+      this.octokit.repos.listCommits,
+      {
+        owner: repoOwner,
+        repo: repoName,
+        sha: options.ref,
+        since: options.since,
+        until: options.until,
+        per_page: 100,
+      },
+      (response, done) => {
+        fetched += response.data.length;
+        if (fetched >= limit) done();
+        return response.data;
+      }
+    );
+
+    return commits.slice(0, limit) as any;
+  }
+
+  async listMergedPullRequests(
+    repoOwner: string,
+    repoName: string,
+    options: ListMergedPullRequestsOptions
+  ): Promise<MergedPullRequestSummary[]> {
+    const since = new Date(options.since).getTime();
+    const until = new Date(options.until).getTime();
+    const limit = options.limit ?? Infinity;
+    const pullRequests: MergedPullRequestSummary[] = [];
+
+    // A PR is updated when it merges, so once updates predate the range so do the merges
+    for await (const response of this.octokit.paginate.iterator(this.octokit.pulls.list, {
+      owner: repoOwner,
+      repo: repoName,
+      state: 'closed',
+      base: options.baseBranch,
+      sort: 'updated',
+      direction: 'desc',
+      per_page: 100,
+    })) {
+      for (const pr of response.data) {
+        if (new Date(pr.updated_at).getTime() < since) return this.byMergeTime(pullRequests);
+        if (!pr.merged_at) continue;
+
+        const mergedAt = new Date(pr.merged_at).getTime();
+        if (mergedAt < since || mergedAt > until) continue;
+
+        pullRequests.push({
+          number: pr.number,
+          title: pr.title,
+          headRef: pr.head.ref,
+          mergedAt: pr.merged_at,
+          mergeCommitSha: pr.merge_commit_sha || undefined,
+        });
+        if (pullRequests.length >= limit) return this.byMergeTime(pullRequests);
+      }
+    }
+
+    return this.byMergeTime(pullRequests);
+  }
+
+  async listPullRequestsForCommit(repoOwner: string, repoName: string, sha: string): Promise<MergedPullRequestSummary[]> {
+    const response = await this.octokit.repos.listPullRequestsAssociatedWithCommit({
+      owner: repoOwner,
+      repo: repoName,
+      commit_sha: sha,
+      per_page: 100,
+    });
+
+    return response.data.flatMap(pr => pr.merged_at ? [{
+      number: pr.number,
+      title: pr.title,
+      headRef: pr.head.ref,
+      mergedAt: pr.merged_at,
+      mergeCommitSha: pr.merge_commit_sha || undefined,
+    }] : []);
+  }
+
+  async listDeployments(repoOwner: string, repoName: string, options: ListDeploymentsOptions): Promise<DeploymentRecord[]> {
+    const deployments = await this.listSince(
+      this.octokit.repos.listDeployments,
+      { owner: repoOwner, repo: repoName, environment: options.environment },
+      (deployment: any) => deployment.created_at,
+      options
+    );
+
+    const records: DeploymentRecord[] = [];
+    for (const deployment of deployments) {
+      // Statuses are listed newest first; the deployment succeeded when any of them is "success"
+      const statuses = await this.octokit.repos.listDeploymentStatuses({
+        owner: repoOwner,
+        repo: repoName,
+        deployment_id: deployment.id,
+        per_page: 100,
+      });
+      const success = [...statuses.data].reverse().find(status => status.state === 'success');
+
+      records.push({
+        id: String(deployment.id),
+        kind: 'deployment',
+        environment: deployment.environment,
+        sha: deployment.sha,
+        ref: deployment.ref,
+        url: success?.environment_url || success?.log_url || undefined,
+        createdAt: deployment.created_at,
+        succeededAt: success?.created_at,
+      });
+    }
+
+    return records;
+  }
+
+  async listReleases(repoOwner: string, repoName: string, options: ListDeploymentsOptions): Promise<DeploymentRecord[]> {
+    const releases = await this.listSince(
+      this.octokit.repos.listReleases,
+      { owner: repoOwner, repo: repoName },
+      (release: any) => release.draft || release.prerelease ? undefined : release.published_at,
+      options,
+      { listedBy: (release: any) => release.created_at, lookbackMs: DRAFT_RELEASE_LOOKBACK_MS }
+    );
+
+    return releases.map(release => ({
+      id: String(release.id),
+      kind: 'release',
+      environment: 'release',
+      // target_commitish is often a branch name, so the tag is resolved when comparing
+      ref: release.tag_name,
+      name: release.name || release.tag_name,
+      url: release.html_url,
+      createdAt: release.created_at,
+      succeededAt: release.published_at,
+    }));
+  }
+
+  /**
+   * Pages through a newest-first list, keeping the items dated at or after `since`. Without
+   * `since` the newest `limit` items are kept; with it, paging continues until items predate
+   * it and the `limit` items closest to it are kept, so a busy history after it does not
+   * push out the earliest ones. Items without a date are skipped. When the list is ordered
+   * by another date, `order.listedBy` reads it: paging stops once that date is `lookbackMs`
+   * before `since`, and the kept items are re-sorted by `dateOf`.
+   */
+  private async listSince(
+    method: any,
+    params: Record<string, unknown>,
+    dateOf: (item: any) => string | null | undefined,
+    options: ListDeploymentsOptions,
+    order: { listedBy: (item: any) => string | null | undefined; lookbackMs: number } = { listedBy: dateOf, lookbackMs: 0 }
+  ): Promise<any[]> {
+    const limit = options.limit ?? DEFAULT_DEPLOYMENT_LIMIT;
+    const since = options.since ? new Date(options.since).getTime() : 0;
+    const items: any[] = [];
+
+    for await (const response of this.octokit.paginate.iterator(method, { ...params, per_page: 100 })) {
+      let reachedSince = false;
+      for (const item of response.data as any[]) {
+        const listedAt = order.listedBy(item);
+        if (options.since && listedAt && new Date(listedAt).getTime() < since - order.lookbackMs) {
+          reachedSince = true;
+          break;
+        }
+        const date = dateOf(item);
+        if (date && new Date(date).getTime() >= since) {
+          items.push(item);
+        }
+      }
+      if (reachedSince || (!options.since && items.length >= limit)) break;
+    }
+
+    items.sort((a, b) => new Date(dateOf(b)!).getTime() - new Date(dateOf(a)!).getTime());
+    return options.since ? items.slice(-limit) : items.slice(0, limit);
+  }
+
+  private byMergeTime(pullRequests: MergedPullRequestSummary[]): MergedPullRequestSummary[] {
+    return pullRequests.sort((a, b) => new Date(b.mergedAt).getTime() - new Date(a.mergedAt).getTime());
+  }
+}
+
+function getDefaultPullRequestApi(): PullRequestApi {
+  return process.env.GITHUB_PULL_REQUEST_API === 'rest' ? 'rest' : 'graphql';
+}
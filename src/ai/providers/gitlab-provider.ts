@@ -0,0 +1,471 @@
+import type { GitHubCommit, PullRequestData, TimelineEvent } from '@/ai/tools/github-tools';
+import type { AnalysisEventListener } from '@/lib/types';
+import type {
+  CommitDetails,
+  CommitFile,
+  CompareResult,
+  DeploymentRecord,
+  ListCommitsOptions,
+  ListDeploymentsOptions,
+  ListMergedPullRequestsOptions,
+  MergedPullRequestSummary,
+  SourceControlProvider,
+} from './source-control-provider';
+import { describeError } from '@/lib/credentials';
+
+const DEFAULT_GITLAB_BASE_URL = 'https://gitlab.com';
+
+/**
+ * Error thrown for non-2xx GitLab API responses.
+ * Carries the HTTP status like Octokit's RequestError so callers can handle both alike.
+ */
+export class GitLabRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'GitLabRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * GitLab implementation of the source control provider.
+ *
+ * Merge requests are normalized into the pull request shape. GitLab's own squash
+ * setting and the project's merge method decide the merge strategy, which is
+ * surfaced as a synthetic `merged` timeline event for the detectors.
+ */
+export class GitLabProvider implements SourceControlProvider {
+  readonly name = 'gitlab' as const;
+  private token: string;
+  private baseUrl: string;
+  private signal?: AbortSignal;
+  private onEvent?: AnalysisEventListener;
+
+  constructor(
+    token: string,
+    baseUrl: string = process.env.GITLAB_BASE_URL || DEFAULT_GITLAB_BASE_URL,
+    signal?: AbortSignal,
+    onEvent?: AnalysisEventListener
+  ) {
+    this.token = token;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.signal = signal;
+    this.onEvent = onEvent;
+  }
+
+  async getPullRequestData(
+    repoOwner: string,
+    repoName: string,
+    pullRequestNumber: number
+  ): Promise<PullRequestData> {
+    const projectPath = this.projectPath(repoOwner, repoName);
+
+    const mergeRequest = await this.request<any>(`/projects/${projectPath}/merge_requests/${pullRequestNumber}`);
+    const project = await this.request<any>(`/projects/${projectPath}`).catch(() => null);
+
+    // GitLab lists merge request commits newest first
+    const mrCommits = (await this.requestAllPages<any>(
+      `/projects/${projectPath}/merge_requests/${pullRequestNumber}/commits`
+    )).reverse();
+
+    const baseSha: string | undefined = mergeRequest.diff_refs?.start_sha || mergeRequest.diff_refs?.base_sha;
+    const prCommits = mrCommits.map((commit, index) => this.toCommit(commit, index === 0
+      ? (baseSha ? [baseSha] : [])
+      : [mrCommits[index - 1].id]
+    ));
+
+    const merged = mergeRequest.state === 'merged';
+    const mergeStrategy = this.getMergeStrategy(mergeRequest, project);
+
+    // With squash enabled the squash commit is the one carrying the PR's changes
+    const landedSha: string | null = merged
+      ? (mergeRequest.squash && mergeRequest.squash_commit_sha) || mergeRequest.merge_commit_sha || (mergeStrategy === 'rebase' ? mergeRequest.sha : null)
+      : null;
+
+    let mergeCommit: GitHubCommit | null = null;
+    if (landedSha) {
+      try {
+        mergeCommit = await this.getCommitDetails(repoOwner, repoName, landedSha);
+      } catch (e) {
+        console.warn(`Could not fetch merge commit ${landedSha}`, describeError(e));
+      }
+    }
+
+    let baseCommit: GitHubCommit | undefined;
+    if (mergeRequest.diff_refs?.base_sha) {
+      try {
+        baseCommit = await this.getCommitDetails(repoOwner, repoName, mergeRequest.diff_refs.base_sha);
+      } catch (e) {
+        console.warn(`Could not fetch base commit ${mergeRequest.diff_refs.base_sha}`, describeError(e));
+      }
+    }
+
+    const timelineEvents: TimelineEvent[] = await this.getReviewEvents(projectPath, pullRequestNumber);
+    if (merged && mergeRequest.merged_at) {
+      timelineEvents.push({
+        event: 'merged',
+        created_at: mergeRequest.merged_at,
+        actor: this.toActor(mergeRequest.merge_user || mergeRequest.merged_by),
+        merge_strategy: mergeStrategy,
+      });
+    }
+
+    return {
+      prDetails: {
+        title: mergeRequest.title,
+        body: mergeRequest.description,
+        user: this.toActor(mergeRequest.author),
+        merged,
+        merge_commit_sha: landedSha,
+        head: { ref: mergeRequest.source_branch, sha: mergeRequest.sha },
+        base: { ref: mergeRequest.target_branch, sha: mergeRequest.diff_refs?.base_sha },
+        commits: prCommits.length,
+        merged_by: this.toActor(mergeRequest.merge_user || mergeRequest.merged_by),
+        created_at: mergeRequest.created_at,
+        updated_at: mergeRequest.updated_at,
+        merged_at: mergeRequest.merged_at,
+        closed_at: mergeRequest.closed_at || mergeRequest.merged_at,
+      },
+      prCommits,
+      mergeCommit,
+      timelineEvents,
+      baseCommit,
+      truncations: [],
+    };
+  }
+
+  async getCommitDetails(repoOwner: string, repoName: string, ref: string): Promise<CommitDetails> {
+    const projectPath = this.projectPath(repoOwner, repoName);
+    const commit = await this.request<any>(
+      `/projects/${projectPath}/repository/commits/${encodeURIComponent(ref)}`,
+      { stats: 'true' }
+    );
+
+    let files: CommitFile[] | undefined;
+    try {
+      const diffs = await this.requestAllPages<any>(
+        `/projects/${projectPath}/repository/commits/${encodeURIComponent(ref)}/diff`
+      );
+      files = diffs.map(diff => this.toCommitFile(diff));
+    } catch (e) {
+      console.warn(`Could not fetch diff for commit ${ref}`, describeError(e));
+    }
+
+    return {
+      ...this.toCommit(commit, commit.parent_ids || []),
+      stats: commit.stats,
+      files,
+    };
+  }
+
+  async compareCommits(repoOwner: string, repoName: string, base: string, head: string): Promise<CompareResult> {
+    const projectPath = this.projectPath(repoOwner, repoName);
+    const mergeBase = await this.request<any>(
+      `/projects/${projectPath}/repository/merge_base?refs[]=${encodeURIComponent(base)}&refs[]=${encodeURIComponent(head)}`
+    );
+    const [baseCommit, headCommit] = await Promise.all([
+      this.request<any>(`/projects/${projectPath}/repository/commits/${encodeURIComponent(base)}`),
+      this.request<any>(`/projects/${projectPath}/repository/commits/${encodeURIComponent(head)}`),
+    ]);
+
+    // Three-dot compare: changes on head since the merge base
+    const compare = await this.request<any>(`/projects/${projectPath}/repository/compare`, {
+      from: base,
+      to: head,
+      straight: 'false',
+    });
+    const behind = await this.request<any>(`/projects/${projectPath}/repository/compare`, {
+      from: head,
+      to: base,
+      straight: 'false',
+    });
+
+    const aheadBy = compare.commits?.length || 0;
+    const behindBy = behind.commits?.length || 0;
+    const status = baseCommit.id === headCommit.id
+      ? 'identical'
+      : mergeBase.id === baseCommit.id
+        ? 'ahead'
+        : mergeBase.id === headCommit.id ? 'behind' : 'diverged';
+
+    return {
+      status,
+      aheadBy,
+      behindBy,
+      mergeBaseSha: mergeBase.id,
+      commits: (compare.commits || []).map((commit: any) => this.toCommit(commit, commit.parent_ids || [])),
+      files: (compare.diffs || []).map((diff: any) => this.toCommitFile(diff)),
+    };
+  }
+
+  async listCommits(repoOwner: string, repoName: string, options: ListCommitsOptions): Promise<GitHubCommit[]> {
+    const limit = options.limit ?? Infinity;
+    const commits = await this.requestAllPages<any>(
+      `/projects/${this.projectPath(repoOwner, repoName)}/repository/commits`,
+      {
+        ref_name: options.ref,
+        ...(options.since ? { since: options.since } : {}),
+        ...(options.until ? { until: options.until } : {}),
+      },
+      limit
+    );
+
+    return commits.slice(0, limit).map(commit => this.toCommit(commit, commit.parent_ids || []));
+  }
+
+  async listMergedPullRequests(
+    repoOwner: string,
+    repoName: string,
+    options: ListMergedPullRequestsOptions
+  ): Promise<MergedPullRequestSummary[]> {
+    const since = new Date(options.since).getTime();
+    const until = new Date(options.until).getTime();
+    const mergeRequests = await this.requestAllPages<any>(
+      `/projects/${this.projectPath(repoOwner, repoName)}/merge_requests`,
+      {
+        state: 'merged',
+        target_branch: options.baseBranch,
+        updated_after: options.since,
+        order_by: 'updated_at',
+        sort: 'desc',
+      }
+    );
+
+    return mergeRequests
+      .filter(mr => mr.merged_at && new Date(mr.merged_at).getTime() >= since && new Date(mr.merged_at).getTime() <= until)
+      .sort((a, b) => new Date(b.merged_at).getTime() - new Date(a.merged_at).getTime())
+      .slice(0, options.limit ?? Infinity)
+      .map(mr => ({
+        number: mr.iid,
+        title: mr.title,
+        headRef: mr.source_branch,
+        mergedAt: mr.merged_at,
+        mergeCommitSha: (mr.squash && mr.squash_commit_sha) || mr.merge_commit_sha || undefined,
+      }));
+  }
+
+  async listPullRequestsForCommit(repoOwner: string, repoName: string, sha: string): Promise<MergedPullRequestSummary[]> {
+    const mergeRequests = await this.request<any[]>(
+      `/projects/${this.projectPath(repoOwner, repoName)}/repository/commits/${encodeURIComponent(sha)}/merge_requests`
+    );
+
+    return mergeRequests
+      .filter(mr => mr.state === 'merged' && mr.merged_at)
+      .map(mr => ({
+        number: mr.iid,
+        title: mr.title,
+        headRef: mr.source_branch,
+        mergedAt: mr.merged_at,
+        mergeCommitSha: (mr.squash && mr.squash_commit_sha) || mr.merge_commit_sha || undefined,
+      }));
+  }
+
+  async listDeployments(repoOwner: string, repoName: string, options: ListDeploymentsOptions): Promise<DeploymentRecord[]> {
+    const limit = options.limit ?? 30;
+    const deployments = await this.requestAllPages<any>(
+      `/projects/${this.projectPath(repoOwner, repoName)}/deployments`,
+      {
+        ...(options.environment ? { environment: options.environment } : {}),
+        ...(options.since ? { updated_after: options.since } : {}),
+        order_by: 'created_at',
+        // From `since` forward, so the limit keeps the deployments closest to it
+        sort: options.since ? 'asc' : 'desc',
+      },
+      limit
+    );
+    const listed = deployments.slice(0, limit);
+
+    // Newest first, like the other providers
+    return (options.since ? listed.reverse() : listed).map(deployment => ({
+      id: String(deployment.id),
+      kind: 'deployment' as const,
+      environment: deployment.environment?.name || options.environment || '',
+      sha: deployment.sha,
+      ref: deployment.ref,
+      url: deployment.environment?.external_url || deployment.deployable?.web_url,
+      createdAt: deployment.created_at,
+      succeededAt: deployment.status === 'success' ? deployment.finished_at || deployment.updated_at : undefined,
+    }));
+  }
+
+  async listReleases(repoOwner: string, repoName: string, options: ListDeploymentsOptions): Promise<DeploymentRecord[]> {
+    const limit = options.limit ?? 30;
+    const since = options.since ? new Date(options.since).getTime() : 0;
+    // Releases cannot be filtered by date, so with `since` paging continues until they predate it
+    const releases = await this.requestAllPages<any>(
+      `/projects/${this.projectPath(repoOwner, repoName)}/releases`,
+      { order_by: 'released_at', sort: 'desc' },
+      options.since ? Infinity : limit,
+      release => new Date(release.released_at).getTime() < since
+    );
+    const published = releases
+      .filter(release => !release.upcoming_release && new Date(release.released_at).getTime() >= since);
+
+    // With `since` the releases closest to it are kept
+    return (options.since ? published.slice(-limit) : published.slice(0, limit))
+      .map(release => ({
+        id: release.tag_name,
+        kind: 'release' as const,
+        environment: 'release',
+        sha: release.commit?.id,
+        ref: release.tag_name,
+        name: release.name || release.tag_name,
+        url: release._links?.self,
+        createdAt: release.created_at,
+        succeededAt: release.released_at,
+      }));
+  }
+
+  /**
+   * GitLab has no review timeline, so review events are read from the merge request's notes:
+   * system notes record review requests, approvals and drafts marked ready, and any other
+   * note is a review comment
+   */
+  private async getReviewEvents(projectPath: string, iid: number): Promise<TimelineEvent[]> {
+    let notes: any[];
+    try {
+      notes = await this.requestAllPages<any>(
+        `/projects/${projectPath}/merge_requests/${iid}/notes`,
+        { sort: 'asc', order_by: 'created_at' }
+      );
+    } catch (e) {
+      console.warn(`Could not fetch notes for merge request !${iid}`, describeError(e));
+      return [];
+    }
+
+    const events: TimelineEvent[] = [];
+    for (const note of notes) {
+      const actor = this.toActor(note.author);
+      const body: string = note.body || '';
+      if (!note.system) {
+        events.push({ event: 'reviewed', created_at: note.created_at, actor, state: 'commented' });
+      } else if (/^approved this merge request/i.test(body)) {
+        events.push({ event: 'reviewed', created_at: note.created_at, actor, state: 'approved' });
+      } else if (/^marked this merge request as \*\*ready\*\*/i.test(body)) {
+        events.push({ event: 'ready_for_review', created_at: note.created_at, actor });
+      } else {
+        const reviewer = body.match(/^requested review from @([\w.-]+)/i)?.[1];
+        if (reviewer) {
+          events.push({ event: 'review_requested', created_at: note.created_at, actor, requested_reviewer: { login: reviewer } });
+        }
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Maps GitLab's merge request settings onto the GitHub merge strategies
+   */
+  private getMergeStrategy(mergeRequest: any, project: any): 'merge' | 'squash' | 'rebase' {
+    if (mergeRequest.squash && mergeRequest.squash_commit_sha) {
+      return 'squash';
+    }
+    if (!mergeRequest.merge_commit_sha && ['ff', 'rebase_merge'].includes(project?.merge_method)) {
+      return 'rebase';
+    }
+    return 'merge';
+  }
+
+  private toCommit(commit: any, parentShas: string[]): GitHubCommit {
+    return {
+      sha: commit.id,
+      author: null,
+      commit: {
+        author: {
+          name: commit.author_name,
+          email: commit.author_email,
+          date: commit.authored_date,
+        },
+        committer: {
+          name: commit.committer_name,
+          email: commit.committer_email,
+          date: commit.committed_date,
+        },
+        message: commit.message,
+      },
+      parents: (commit.parent_ids || parentShas).map((sha: string) => ({ sha })),
+    };
+  }
+
+  private toCommitFile(diff: any): CommitFile {
+    const lines: string[] = (diff.diff || '').split('\n');
+    return {
+      filename: diff.new_path,
+      previous_filename: diff.renamed_file ? diff.old_path : undefined,
+      status: diff.new_file ? 'added' : diff.deleted_file ? 'removed' : diff.renamed_file ? 'renamed' : 'modified',
+      additions: lines.filter(line => line.startsWith('+') && !line.startsWith('+++')).length,
+      deletions: lines.filter(line => line.startsWith('-') && !line.startsWith('---')).length,
+      patch: diff.diff,
+    };
+  }
+
+  private toActor(user: any): { login: string } | undefined {
+    return user?.username ? { login: user.username } : undefined;
+  }
+
+  private projectPath(repoOwner: string, repoName: string): string {
+    // Owners may be nested groups such as "group/subgroup"
+    return encodeURIComponent(`${repoOwner}/${repoName}`);
+  }
+
+  private async request<T>(path: string, params: Record<string, string> = {}): Promise<T> {
+    const { data } = await this.fetchPage<T>(path, params);
+    return data;
+  }
+
+  /**
+   * Follows GitLab's `x-next-page` header until every page (or `limit` results) has been read
+   */
+  private async requestAllPages<T>(
+    path: string,
+    params: Record<string, string> = {},
+    limit = Infinity,
+    // Paging stops after the page with an item this returns true for
+    isLast?: (item: T) => boolean
+  ): Promise<T[]> {
+    const results: T[] = [];
+    let page: string | null = '1';
+
+    while (page && results.length < limit) {
+      const response: { data: T[]; headers: Headers } = await this.fetchPage<T[]>(path, { ...params, per_page: '100', page });
+      results.push(...response.data);
+      page = isLast && response.data.some(isLast) ? null : response.headers.get('x-next-page') || null;
+    }
+
+    return results;
+  }
+
+  private async fetchPage<T>(path: string, params: Record<string, string>): Promise<{ data: T; headers: Headers }> {
+    const query = new URLSearchParams(params).toString();
+    const url = `${this.baseUrl}/api/v4${path}${query ? `?${query}` : ''}`;
+
+    const response = await fetch(url, {
+      headers: {
+        'PRIVATE-TOKEN': this.token,
+        Accept: 'application/json',
+      },
+      signal: this.signal,
+    });
+
+    const remaining = response.headers.get('RateLimit-Remaining');
+    if (remaining !== null && this.onEvent) {
+      const reset = response.headers.get('RateLimit-Reset');
+      this.onEvent({
+        type: 'rate-limit',
+        rateLimit: {
+          limit: Number(response.headers.get('RateLimit-Limit')),
+          remaining: Number(remaining),
+          resetAt: reset ? new Date(Number(reset) * 1000).toISOString() : undefined,
+        },
+      });
+    }
+
+    if (!response.ok) {
+      throw new GitLabRequestError(`GitLab API request failed: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    return { data: await response.json() as T, headers: response.headers };
+  }
+}
@@ -0,0 +1,455 @@
+import { execFile } from 'node:child_process';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import type { GitHubCommit, PullRequestData, TimelineEvent } from '@/ai/tools/github-tools';
+import { isSafeRef } from '@/lib/git-refs';
+import type {
+  CommitDetails,
+  CommitFile,
+  CompareResult,
+  DeploymentRecord,
+  ListCommitsOptions,
+  ListDeploymentsOptions,
+  ListMergedPullRequestsOptions,
+  MergedPullRequestSummary,
+  SourceControlProvider,
+} from './source-control-provider';
+
+const execFileAsync = promisify(execFile);
+
+// NUL-separated so commit messages can contain anything but NUL
+const COMMIT_FORMAT = ['%H', '%T', '%P', '%an', '%ae', '%aI', '%cn', '%ce', '%cI', '%B'].join('%x00');
+
+// Overrides the user's diff.external, color.diff, diff.noprefix and diff.mnemonicPrefix
+// settings, so parseUnifiedDiff always sees plain a/ and b/ patches
+const DIFF_OPTIONS = ['--no-ext-diff', '--no-color', '--src-prefix=a/', '--dst-prefix=b/'];
+
+/**
+ * Resolves a user supplied repository path and makes sure it lives under
+ * LOCAL_REPOSITORIES_ROOT. Local analysis is disabled when the root is not configured.
+ */
+export function resolveRepositoryPath(repositoryPath: string): string {
+  const root = process.env.LOCAL_REPOSITORIES_ROOT;
+  if (!root) {
+    throw new Error('Local repository analysis is disabled. Set LOCAL_REPOSITORIES_ROOT to enable it.');
+  }
+
+  const resolvedRoot = path.resolve(root);
+  const resolvedPath = path.resolve(resolvedRoot, repositoryPath);
+  if (resolvedPath !== resolvedRoot && !resolvedPath.startsWith(resolvedRoot + path.sep)) {
+    throw new Error(`Repository path must be inside ${resolvedRoot}`);
+  }
+
+  return resolvedPath;
+}
+
+/**
+ * Local Git Provider
+ *
+ * Reads commits, parents, trees and patches straight from the object database of a
+ * local clone (bare or working copy) so lineage analysis runs offline without any
+ * API budget. PR boundaries come from `refs/pull/<n>/head` refs and from merge and
+ * squash commit messages ("Merge pull request #<n>", "... (#<n>)").
+ */
+export class LocalGitProvider implements SourceControlProvider {
+  readonly name = 'local' as const;
+  private repositoryPath: string;
+  private signal?: AbortSignal;
+
+  constructor(repositoryPath: string, signal?: AbortSignal) {
+    this.repositoryPath = resolveRepositoryPath(repositoryPath);
+    this.signal = signal;
+  }
+
+  async getPullRequestData(
+    repoOwner: string,
+    repoName: string,
+    pullRequestNumber: number
+  ): Promise<PullRequestData> {
+    const headSha = await this.resolveRef(`refs/pull/${pullRequestNumber}/head`);
+    const mergeSha = await this.findMergeCommit(pullRequestNumber);
+
+    if (!headSha && !mergeSha) {
+      throw Object.assign(
+        new Error(`Pull request #${pullRequestNumber} not found in ${this.repositoryPath}`),
+        { status: 404 }
+      );
+    }
+
+    const mergeCommit = mergeSha ? await this.getCommitDetails(repoOwner, repoName, mergeSha) : null;
+
+    // A true merge commit tells us exactly where the PR branch ended
+    const prHeadSha = headSha || (mergeCommit && mergeCommit.parents.length > 1 ? mergeCommit.parents[1].sha : null);
+    const baseTip = mergeCommit?.parents[0]?.sha || await this.resolveRef('HEAD');
+    const baseSha = prHeadSha && baseTip ? await this.mergeBase(baseTip, prHeadSha) : null;
+
+    const prCommits = prHeadSha
+      ? await this.listRange(baseSha ? `${baseSha}..${prHeadSha}` : prHeadSha)
+      : [];
+
+    const headRef = this.parseHeadRef(mergeCommit?.commit.message) || `pull/${pullRequestNumber}`;
+    const baseRef = mergeSha ? await this.findBranchContaining(mergeSha) : 'HEAD';
+
+    const timelineEvents: TimelineEvent[] = [];
+    if (mergeCommit && mergeCommit.parents.length > 1) {
+      timelineEvents.push({
+        event: 'merged',
+        created_at: mergeCommit.commit.committer?.date || '',
+        merge_strategy: 'merge',
+      });
+    }
+
+    return {
+      prDetails: {
+        title: this.parseTitle(mergeCommit?.commit.message),
+        body: null,
+        // Without a hosting service the PR author is the author of its first commit
+        user: prCommits[0]?.commit.author ? { login: prCommits[0].commit.author.name } : null,
+        merged: !!mergeCommit,
+        merge_commit_sha: mergeSha,
+        head: { ref: headRef, sha: prHeadSha || undefined },
+        base: { ref: baseRef, sha: baseSha || undefined },
+        commits: prCommits.length,
+        merged_by: mergeCommit?.commit.committer ? { login: mergeCommit.commit.committer.name } : null,
+        created_at: prCommits[0]?.commit.author?.date,
+        merged_at: mergeCommit?.commit.committer?.date || null,
+        closed_at: mergeCommit?.commit.committer?.date || null,
+      },
+      prCommits,
+      mergeCommit,
+      timelineEvents,
+      baseCommit: baseSha ? await this.getCommitDetails(repoOwner, repoName, baseSha) : undefined,
+      truncations: [],
+    };
+  }
+
+  async getCommitDetails(repoOwner: string, repoName: string, ref: string): Promise<CommitDetails> {
+    const sha = await this.resolveCommit(ref);
+    const output = await this.git(['log', '-1', `--format=${COMMIT_FORMAT}`, sha, '--']);
+    const { commit, treeSha } = this.parseCommit(output);
+
+    // Merge commits are diffed against their first parent, like GitHub does
+    const diffArgs = commit.parents.length > 0
+      ? ['diff', ...DIFF_OPTIONS, '--find-renames', commit.parents[0].sha, commit.sha]
+      : ['diff-tree', ...DIFF_OPTIONS, '-p', '--root', '--find-renames', '--no-commit-id', commit.sha];
+    const files = parseUnifiedDiff(await this.git(diffArgs));
+
+    const additions = files.reduce((sum, file) => sum + file.additions, 0);
+    const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+
+    return {
+      ...commit,
+      treeSha,
+      stats: { additions, deletions, total: additions + deletions },
+      files,
+    };
+  }
+
+  async compareCommits(repoOwner: string, repoName: string, base: string, head: string): Promise<CompareResult> {
+    const [baseSha, headSha] = await Promise.all([this.resolveRef(base), this.resolveRef(head)]);
+    if (!baseSha || !headSha) {
+      throw Object.assign(new Error(`Cannot compare unknown refs ${base}...${head}`), { status: 404 });
+    }
+
+    const mergeBaseSha = await this.mergeBase(baseSha, headSha);
+    const counts = (await this.git(['rev-list', '--left-right', '--count', `${baseSha}...${headSha}`])).trim().split(/\s+/);
+    const behindBy = parseInt(counts[0], 10) || 0;
+    const aheadBy = parseInt(counts[1], 10) || 0;
+
+    const status = baseSha === headSha
+      ? 'identical'
+      : behindBy === 0 ? 'ahead' : aheadBy === 0 ? 'behind' : 'diverged';
+
+    return {
+      status,
+      aheadBy,
+      behindBy,
+      mergeBaseSha: mergeBaseSha || undefined,
+      commits: await this.listRange(`${baseSha}..${headSha}`),
+      files: mergeBaseSha ? parseUnifiedDiff(await this.git(['diff', ...DIFF_OPTIONS, '--find-renames', mergeBaseSha, headSha])) : [],
+    };
+  }
+
+  async listCommits(repoOwner: string, repoName: string, options: ListCommitsOptions): Promise<GitHubCommit[]> {
+    const args = ['log', `--format=${COMMIT_FORMAT}%x1e`];
+    if (options.limit !== undefined) args.push('-n', String(options.limit));
+    if (options.since) args.push(`--since=${options.since}`);
+    if (options.until) args.push(`--until=${options.until}`);
+
+    const output = await this.git([...args, await this.resolveCommit(options.ref), '--']);
+    return this.parseCommitRecords(output);
+  }
+
+  /**
+   * Reads PRs from the merge and squash commits on the branch's first-parent history
+   */
+  async listMergedPullRequests(
+    repoOwner: string,
+    repoName: string,
+    options: ListMergedPullRequestsOptions
+  ): Promise<MergedPullRequestSummary[]> {
+    const commits = this.parseCommitRecords(await this.git([
+      'log', '--first-parent', `--format=${COMMIT_FORMAT}%x1e`,
+      `--since=${options.since}`, `--until=${options.until}`,
+      await this.resolveCommit(options.baseBranch), '--',
+    ]));
+
+    const pullRequests: MergedPullRequestSummary[] = [];
+    for (const commit of commits) {
+      const pullRequest = this.toMergedPullRequest(commit);
+      if (!pullRequest) continue;
+
+      pullRequests.push(pullRequest);
+      if (pullRequests.length >= (options.limit ?? Infinity)) break;
+    }
+
+    return pullRequests;
+  }
+
+  /**
+   * Reads the PR from the commit's message when it is a merge or squash commit, and
+   * otherwise from the first "Merge pull request" commit that brought it into a branch
+   */
+  async listPullRequestsForCommit(repoOwner: string, repoName: string, ref: string): Promise<MergedPullRequestSummary[]> {
+    const sha = await this.resolveCommit(ref);
+    const [commit] = this.parseCommitRecords(
+      await this.git(['log', '-n', '1', `--format=${COMMIT_FORMAT}%x1e`, sha, '--'])
+    );
+    const pullRequest = commit && this.toMergedPullRequest(commit);
+    if (pullRequest) return [pullRequest];
+
+    const branch = await this.findBranchContaining(sha);
+    const merges = this.parseCommitRecords(await this.git([
+      'log', '--ancestry-path', '--merges', '--reverse', `--format=${COMMIT_FORMAT}%x1e`, `${sha}..${branch}`, '--',
+    ]));
+    for (const merge of merges) {
+      if (!/^Merge pull request #\d+/.test(merge.commit.message)) continue;
+      // Merges that only have the commit in their first-parent history did not bring it in
+      if (await this.isAncestor(sha, merge.parents[0].sha)) continue;
+      return [this.toMergedPullRequest(merge)!];
+    }
+    return [];
+  }
+
+  /**
+   * A clone has no deployment history
+   */
+  async listDeployments(): Promise<DeploymentRecord[]> {
+    return [];
+  }
+
+  /**
+   * Lists tags as releases, dated by the tag (annotated) or the tagged commit (lightweight)
+   */
+  async listReleases(repoOwner: string, repoName: string, options: ListDeploymentsOptions): Promise<DeploymentRecord[]> {
+    const output = await this.git([
+      'for-each-ref', '--sort=-creatordate',
+      '--format=%(refname:short)%00%(creatordate:iso-strict)%00%(objectname)%00%(*objectname)',
+      'refs/tags',
+    ]);
+    const since = options.since ? new Date(options.since).getTime() : 0;
+    const limit = options.limit ?? 30;
+
+    const releases = output
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => {
+        const [tag, date, objectSha, peeledSha] = line.split('\x00');
+        return {
+          id: tag,
+          kind: 'release' as const,
+          environment: 'release',
+          sha: peeledSha || objectSha,
+          ref: tag,
+          name: tag,
+          createdAt: date,
+          succeededAt: date,
+        };
+      })
+      .filter(release => new Date(release.createdAt).getTime() >= since);
+
+    // With `since` the releases closest to it are kept
+    return options.since ? releases.slice(-limit) : releases.slice(0, limit);
+  }
+
+  /**
+   * Finds the commit that landed a PR, preferring merge commits over squash commits. The
+   * base branch (HEAD's first-parent history) is searched first, so a cherry-pick or
+   * backport on another branch is only used when the PR never landed there.
+   */
+  private async findMergeCommit(pullRequestNumber: number): Promise<string | null> {
+    const patterns = [
+      `^Merge pull request #${pullRequestNumber}( |$)`,
+      `\\(#${pullRequestNumber}\\)$`,
+    ];
+    const scopes = [
+      ['--first-parent', 'HEAD'],
+      ['--branches', '--remotes', '--tags'],
+    ];
+
+    for (const scope of scopes) {
+      for (const pattern of patterns) {
+        const output = await this.git(['rev-list', '-n', '1', '--extended-regexp', `--grep=${pattern}`, ...scope]);
+        const sha = output.trim();
+        if (sha) return sha;
+      }
+    }
+
+    return null;
+  }
+
+  private async listRange(range: string): Promise<GitHubCommit[]> {
+    const output = await this.git(['log', '--reverse', `--format=${COMMIT_FORMAT}%x1e`, range, '--']);
+    return this.parseCommitRecords(output);
+  }
+
+  private parseCommitRecords(output: string): GitHubCommit[] {
+    return output
+      .split('\x1e')
+      .map(record => record.replace(/^\n/, ''))
+      .filter(record => record.trim().length > 0)
+      .map(record => this.parseCommit(record).commit);
+  }
+
+  private async findBranchContaining(sha: string): Promise<string> {
+    const output = await this.git([
+      'for-each-ref', '--contains', sha, '--format=%(refname:short)', 'refs/heads', 'refs/remotes',
+    ]);
+    const branches = output.split('\n').map(b => b.trim()).filter(Boolean);
+    return branches.find(b => /(^|\/)(main|master)$/.test(b)) || branches[0] || 'HEAD';
+  }
+
+  private async mergeBase(a: string, b: string): Promise<string | null> {
+    try {
+      return (await this.git(['merge-base', a, b])).trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async isAncestor(ancestor: string, descendant: string): Promise<boolean> {
+    try {
+      await this.git(['merge-base', '--is-ancestor', ancestor, descendant]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Resolves a ref to a commit SHA, so only SHAs reach the git commands that take
+   * revisions. Refs that could be read as options are rejected.
+   */
+  private async resolveRef(ref: string): Promise<string | null> {
+    if (!isSafeRef(ref)) {
+      throw Object.assign(new Error(`Invalid ref: ${ref}`), { status: 400 });
+    }
+    try {
+      return (await this.git(['rev-parse', '--verify', '--quiet', '--end-of-options', `${ref}^{commit}`])).trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async resolveCommit(ref: string): Promise<string> {
+    const sha = await this.resolveRef(ref);
+    if (!sha) {
+      throw Object.assign(new Error(`Unknown ref ${ref} in ${this.repositoryPath}`), { status: 404 });
+    }
+    return sha;
+  }
+
+  private toMergedPullRequest(commit: GitHubCommit): MergedPullRequestSummary | null {
+    const subject = commit.commit.message.split('\n')[0];
+    const number = subject.match(/^Merge pull request #(\d+)/)?.[1] || subject.match(/\(#(\d+)\)$/)?.[1];
+    if (!number) return null;
+
+    return {
+      number: parseInt(number, 10),
+      title: this.parseTitle(commit.commit.message),
+      headRef: this.parseHeadRef(commit.commit.message) || undefined,
+      mergedAt: commit.commit.committer?.date || '',
+      mergeCommitSha: commit.sha,
+    };
+  }
+
+  private parseHeadRef(message?: string): string | null {
+    const match = message?.match(/^Merge pull request #\d+ from (\S+)/);
+    if (!match) return null;
+    // "owner/branch-name" -> "branch-name"
+    return match[1].includes('/') ? match[1].slice(match[1].indexOf('/') + 1) : match[1];
+  }
+
+  private parseTitle(message?: string): string | undefined {
+    if (!message) return undefined;
+    const [subject, ...rest] = message.split('\n');
+    // GitHub puts the PR title in the body of "Merge pull request" commits
+    if (/^Merge pull request #\d+/.test(subject)) {
+      return rest.find(line => line.trim().length > 0)?.trim() || subject;
+    }
+    return subject;
+  }
+
+  private parseCommit(record: string): { commit: GitHubCommit; treeSha: string } {
+    const [sha, treeSha, parents, authorName, authorEmail, authorDate, committerName, committerEmail, committerDate, ...message] =
+      record.split('\x00');
+
+    return {
+      treeSha,
+      commit: {
+        sha: sha.trim(),
+        author: null,
+        commit: {
+          author: { name: authorName, email: authorEmail, date: authorDate },
+          committer: { name: committerName, email: committerEmail, date: committerDate },
+          message: message.join('\x00').trim(),
+        },
+        parents: parents.split(' ').filter(Boolean).map(parentSha => ({ sha: parentSha })),
+      },
+    };
+  }
+
+  private async git(args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', ['-C', this.repositoryPath, ...args], {
+      maxBuffer: 64 * 1024 * 1024,
+      signal: this.signal,
+    });
+    return stdout;
+  }
+}
+
+/**
+ * Splits `git diff` output into per-file entries with GitHub-style hunk-only patches
+ */
+function parseUnifiedDiff(diff: string): CommitFile[] {
+  const files: CommitFile[] = [];
+  const sections = diff.split(/^(?=diff --git )/m).filter(section => section.startsWith('diff --git '));
+
+  for (const section of sections) {
+    const lines = section.split('\n');
+    const header = lines[0].match(/^diff --git a\/(.+) b\/(.+)$/);
+    if (!header) continue;
+
+    const hunkStart = lines.findIndex(line => line.startsWith('@@'));
+    const hunkLines = hunkStart >= 0 ? lines.slice(hunkStart) : [];
+    const meta = hunkStart >= 0 ? lines.slice(1, hunkStart) : lines.slice(1);
+
+    const renameFrom = meta.find(line => line.startsWith('rename from '))?.slice('rename from '.length);
+    const status = meta.some(line => line.startsWith('new file mode'))
+      ? 'added'
+      : meta.some(line => line.startsWith('deleted file mode'))
+        ? 'removed'
+        : renameFrom ? 'renamed' : 'modified';
+
+    files.push({
+      filename: header[2],
+      previous_filename: renameFrom,
+      status,
+      additions: hunkLines.filter(line => line.startsWith('+')).length,
+      deletions: hunkLines.filter(line => line.startsWith('-')).length,
+      patch: hunkLines.length > 0 ? hunkLines.join('\n').replace(/\n$/, '') : undefined,
+    });
+  }
+
+  return files;
+}
@@ -0,0 +1,17 @@
+import { FileSystemResponseCacheStore } from './file-response-cache-store';
+import { LocalGitProvider } from './local-git-provider';
+import { setResponseCacheStore } from './response-cache';
+import { setLocalProviderFactory } from './source-control-provider';
+
+/**
+ * Registers the parts that depend on Node built-ins. Called from instrumentation on
+ * Node.js servers only, so edge bundles never import them.
+ */
+export function registerNodeRuntime() {
+  setLocalProviderFactory((repositoryPath, signal) => new LocalGitProvider(repositoryPath, signal));
+
+  const cacheDirectory = process.env.GITHUB_RESPONSE_CACHE_DIR;
+  if (cacheDirectory) {
+    setResponseCacheStore(new FileSystemResponseCacheStore(cacheDirectory));
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Response cache for GitHub API calls
+ *
+ * Responses are keyed by the token and URL so one token never reads what another fetched.
+ * Responses addressed by a full commit SHA never change and are served without a request;
+ * everything else is stored with its ETag and revalidated with `If-None-Match`.
+ */
+
+export interface CachedResponse {
+  status: number;
+  url: string;
+  headers: Record<string, string>;
+  data: unknown;
+  etag?: string;
+  immutable: boolean;
+  storedAt: string;
+}
+
+export interface ResponseCacheStore {
+  get(key: string): Promise<CachedResponse | null>;
+  set(key: string, entry: CachedResponse): Promise<void>;
+}
+
+const DEFAULT_MAX_MEMORY_ENTRIES = 2000;
+
+// Mutable entries only pay off while their ETag is likely to match
+const KV_MUTABLE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Commits, trees and blobs by full SHA, and comparisons between two full SHAs
+const IMMUTABLE_PATHS = [
+  /\/repos\/[^/]+\/[^/]+\/commits\/[0-9a-f]{40}(\?|$)/i,
+  /\/repos\/[^/]+\/[^/]+\/git\/(commits|trees|blobs)\/[0-9a-f]{40}(\?|$)/i,
+  /\/repos\/[^/]+\/[^/]+\/compare\/[0-9a-f]{40}\.{2,3}[0-9a-f]{40}(\?|$)/i,
+];
+
+export function isImmutableRequest(method: string, url: string): boolean {
+  return method === 'GET' && IMMUTABLE_PATHS.some(pattern => pattern.test(url));
+}
+
+/**
+ * Cache key for a request: a hash of the token and the URL, so tokens never end up in storage
+ */
+export async function responseCacheKey(token: string, url: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${token}\n${url}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Keeps the most recently used responses of this server instance
+ */
+export class InMemoryResponseCacheStore implements ResponseCacheStore {
+  private entries = new Map<string, CachedResponse>();
+  private maxEntries: number;
+
+  constructor(maxEntries = DEFAULT_MAX_MEMORY_ENTRIES) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<CachedResponse | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    // Re-insert so the map stays in least recently used order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+/**
+ * The part of a Workers KV namespace binding the cache uses
+ */
+export interface KvNamespaceLike {
+  get(key: string, type: 'json'): Promise<unknown>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+/**
+ * Shares responses across instances through a Workers KV namespace
+ */
+export class KvResponseCacheStore implements ResponseCacheStore {
+  private namespace: KvNamespaceLike;
+  private prefix: string;
+
+  constructor(namespace: KvNamespaceLike, prefix = 'github-response:') {
+    this.namespace = namespace;
+    this.prefix = prefix;
+  }
+
+  async get(key: string): Promise<CachedResponse | null> {
+    return (await this.namespace.get(this.prefix + key, 'json') as CachedResponse | null) || null;
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    await this.namespace.put(this.prefix + key, JSON.stringify(entry),
+      entry.immutable ? undefined : { expirationTtl: KV_MUTABLE_TTL_SECONDS });
+  }
+}
+
+// Instrumentation registers the filesystem store from a separate bundle layer with its own copy
+// of this module, so the store is kept on globalThis where the actions' copy finds it
+const RESPONSE_CACHE_STORE: unique symbol = Symbol.for('commitdetective.responseCacheStore');
+
+type ResponseCacheStoreGlobal = typeof globalThis & { [RESPONSE_CACHE_STORE]?: ResponseCacheStore };
+
+/**
+ * The GITHUB_RESPONSE_CACHE_KV namespace binding, if there is one. On Cloudflare Pages,
+ * next-on-pages exposes the bindings of the request's environment on `process.env`.
+ */
+function getKvNamespaceBinding(): KvNamespaceLike | null {
+  const binding = (process.env as Record<string, unknown>).GITHUB_RESPONSE_CACHE_KV as Partial<KvNamespaceLike> | undefined;
+  return binding && typeof binding.get === 'function' && typeof binding.put === 'function'
+    ? binding as KvNamespaceLike
+    : null;
+}
+
+/**
+ * Returns the configured store: the one registered with `setResponseCacheStore` (Node.js
+ * servers register a filesystem store at startup when GITHUB_RESPONSE_CACHE_DIR is set),
+ * a KV store when a GITHUB_RESPONSE_CACHE_KV namespace is bound, or an in-memory one.
+ */
+export function getResponseCacheStore(): ResponseCacheStore {
+  const registry = globalThis as ResponseCacheStoreGlobal;
+  if (!registry[RESPONSE_CACHE_STORE]) {
+    const namespace = getKvNamespaceBinding();
+    registry[RESPONSE_CACHE_STORE] = namespace ? new KvResponseCacheStore(namespace) : new InMemoryResponseCacheStore();
+  }
+  return registry[RESPONSE_CACHE_STORE];
+}
+
+export function setResponseCacheStore(responseCacheStore: ResponseCacheStore) {
+  (globalThis as ResponseCacheStoreGlobal)[RESPONSE_CACHE_STORE] = responseCacheStore;
+}
@@ -0,0 +1,246 @@
+import type { GitHubCommit, PullRequestData } from '@/ai/tools/github-tools';
+import type { AnalysisEventListener, ApiCacheStats } from '@/lib/types';
+import { getGitHubAppAuth } from './github-app-auth';
+import { createGitHubClient } from './github-client';
+import { resolveGitHubBaseUrl } from './github-hosts';
+import { GitHubProvider } from './github-provider';
+import { GitLabProvider } from './gitlab-provider';
+
+export type SourceControlProviderName = 'github' | 'gitlab' | 'local';
+
+export interface SourceControlProviderOptions {
+  // Path of a local clone, relative to LOCAL_REPOSITORIES_ROOT (local provider only)
+  repositoryPath?: string;
+  // Aborts in-flight API requests and git commands
+  signal?: AbortSignal;
+  // Receives a rate-limit event after each API response that reports one
+  onEvent?: AnalysisEventListener;
+  // Counts API responses served from the response cache (GitHub only)
+  cacheStats?: ApiCacheStats;
+  // GitHub Enterprise Server host or API URL; must be listed in GITHUB_ENTERPRISE_HOSTS (GitHub only)
+  baseUrl?: string;
+}
+
+export interface CommitFile {
+  filename: string;
+  previous_filename?: string;
+  status: 'added' | 'removed' | 'modified' | 'renamed' | string;
+  additions: number;
+  deletions: number;
+  patch?: string;
+  // Blob SHA of the file after the change, when the provider reports it
+  sha?: string;
+}
+
+/**
+ * A commit with the tree, stats and per-file patch data that the detectors need
+ */
+export interface CommitDetails extends GitHubCommit {
+  treeSha?: string;
+  stats?: {
+    additions: number;
+    deletions: number;
+    total: number;
+  };
+  files?: CommitFile[];
+}
+
+/**
+ * Result of comparing two refs, with `head` measured against `base`.
+ * `ahead` or `identical` means `base` is an ancestor of `head`.
+ */
+export interface CompareResult {
+  status: 'ahead' | 'behind' | 'identical' | 'diverged';
+  aheadBy: number;
+  behindBy: number;
+  mergeBaseSha?: string;
+  commits: GitHubCommit[];
+  files?: CommitFile[];
+}
+
+export interface ListCommitsOptions {
+  // Branch, tag or SHA to list history from
+  ref: string;
+  // Only commits committed after this ISO 8601 date
+  since?: string;
+  // Only commits committed before this ISO 8601 date
+  until?: string;
+  // Stop after this many commits
+  limit?: number;
+}
+
+export interface ListDeploymentsOptions {
+  // Deployment environment, or releases when omitted from `listReleases`
+  environment?: string;
+  // Only deployments or releases created after this ISO 8601 date
+  since?: string;
+  // Stop after this many records: the newest ones, or with `since` the ones closest to it
+  limit?: number;
+}
+
+export interface ListMergedPullRequestsOptions {
+  // Branch the PRs were merged into
+  baseBranch: string;
+  // ISO 8601 bounds on the merge time
+  since: string;
+  until: string;
+  // Stop after this many PRs
+  limit?: number;
+}
+
+export interface MergedPullRequestSummary {
+  number: number;
+  title?: string;
+  headRef?: string;
+  mergedAt: string;
+  mergeCommitSha?: string;
+}
+
+/**
+ * A deployment to an environment or a published release, normalized across providers
+ */
+export interface DeploymentRecord {
+  id: string;
+  kind: 'deployment' | 'release';
+  // Environment name for deployments, "release" for releases
+  environment: string;
+  // Commit that was deployed, when the provider reports it; otherwise resolve `ref`
+  sha?: string;
+  ref?: string;
+  name?: string;
+  url?: string;
+  createdAt: string;
+  // When the deployment reported success or the release was published; unset while not successful
+  succeededAt?: string;
+}
+
+/**
+ * Source Control Provider
+ *
+ * Every backend (GitHub, GitLab, ...) produces the same normalized pull request
+ * and commit data, so the lineage builder and the detectors never talk to a
+ * vendor SDK directly. GitLab merge requests are mapped onto the pull request shape.
+ */
+export interface SourceControlProvider {
+  readonly name: SourceControlProviderName;
+
+  getPullRequestData(
+    repoOwner: string,
+    repoName: string,
+    pullRequestNumber: number
+  ): Promise<PullRequestData>;
+
+  getCommitDetails(
+    repoOwner: string,
+    repoName: string,
+    ref: string
+  ): Promise<CommitDetails>;
+
+  /**
+   * Compares `base...head` (from their merge base), returning the commits on `head`
+   * that are not on `base` and the net diff between them
+   */
+  compareCommits(
+    repoOwner: string,
+    repoName: string,
+    base: string,
+    head: string
+  ): Promise<CompareResult>;
+
+  /**
+   * Lists the commits reachable from a ref, newest first
+   */
+  listCommits(
+    repoOwner: string,
+    repoName: string,
+    options: ListCommitsOptions
+  ): Promise<GitHubCommit[]>;
+
+  /**
+   * Lists the PRs merged into a branch within a time range, most recently merged first
+   */
+  listMergedPullRequests(
+    repoOwner: string,
+    repoName: string,
+    options: ListMergedPullRequestsOptions
+  ): Promise<MergedPullRequestSummary[]>;
+
+  /**
+   * Lists the merged PRs associated with a commit: the PR it landed with, or PRs whose branch contained it
+   */
+  listPullRequestsForCommit(
+    repoOwner: string,
+    repoName: string,
+    sha: string
+  ): Promise<MergedPullRequestSummary[]>;
+
+  /**
+   * Lists deployments to an environment, newest first
+   */
+  listDeployments(
+    repoOwner: string,
+    repoName: string,
+    options: ListDeploymentsOptions
+  ): Promise<DeploymentRecord[]>;
+
+  /**
+   * Lists published releases (or tags, where there are no releases), newest first
+   */
+  listReleases(
+    repoOwner: string,
+    repoName: string,
+    options: ListDeploymentsOptions
+  ): Promise<DeploymentRecord[]>;
+}
+
+export type LocalProviderFactory = (repositoryPath: string, signal?: AbortSignal) => SourceControlProvider;
+
+// Set by registerNodeRuntime; the local git provider needs Node and must stay out of edge bundles.
+// Instrumentation is bundled apart from the actions and routes, each with its own copy of this
+// module, so the factory is kept on globalThis where every copy finds it.
+const LOCAL_PROVIDER_FACTORY: unique symbol = Symbol.for('commitdetective.localProviderFactory');
+
+type LocalProviderFactoryGlobal = typeof globalThis & { [LOCAL_PROVIDER_FACTORY]?: LocalProviderFactory };
+
+export function setLocalProviderFactory(factory: LocalProviderFactory) {
+  (globalThis as LocalProviderFactoryGlobal)[LOCAL_PROVIDER_FACTORY] = factory;
+}
+
+/**
+ * Creates the provider for the requested backend, authenticated with the given token.
+ * GitHub requests without a token run as the GitHub App, for the owners it may serve.
+ */
+export async function createSourceControlProvider(
+  name: SourceControlProviderName,
+  token: string,
+  options: SourceControlProviderOptions = {}
+): Promise<SourceControlProvider> {
+  switch (name) {
+    case 'gitlab':
+      return new GitLabProvider(token, undefined, options.signal, options.onEvent);
+    case 'local': {
+      if (!options.repositoryPath) {
+        throw new Error('A repository path is required for local analysis.');
+      }
+      const localProviderFactory = (globalThis as LocalProviderFactoryGlobal)[LOCAL_PROVIDER_FACTORY];
+      if (!localProviderFactory) {
+        throw new Error('Local repository analysis is only available on Node.js servers.');
+      }
+      return localProviderFactory(options.repositoryPath, options.signal);
+    }
+    case 'github':
+    default: {
+      const baseUrl = resolveGitHubBaseUrl(options.baseUrl);
+      const auth = token || getGitHubAppAuth(baseUrl);
+      if (!auth) {
+        throw new Error('A GitHub access token is required.');
+      }
+      return new GitHubProvider(createGitHubClient(auth, {
+        baseUrl,
+        signal: options.signal,
+        onEvent: options.onEvent,
+        cacheStats: options.cacheStats,
+      }), undefined, baseUrl !== undefined);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+const { describe, it, expect } = require('@jest/globals');
+const { computePatchId } = require('../patch-id');
+
+describe('Patch ID Computation', () => {
+  const fileA = {
+    filename: 'src/a.ts',
+    status: 'modified',
+    additions: 1,
+    deletions: 1,
+    patch: '@@ -1,3 +1,3 @@\n context\n-const a = 1;\n+const a = 2;\n context'
+  };
+  const fileB = {
+    filename: 'src/b.ts',
+    status: 'added',
+    additions: 1,
+    deletions: 0,
+    patch: '@@ -0,0 +1 @@\n+export const b = true;'
+  };
+
+  it('should ignore hunk headers and context lines', async () => {
+    const rebased = {
+      ...fileA,
+      patch: '@@ -10,3 +10,3 @@\n other context\n-const a = 1;\n+const a = 2;\n more context'
+    };
+    expect(await computePatchId([fileA])).toBe(await computePatchId([rebased]));
+  });
+
+  it('should ignore whitespace changes', async () => {
+    const reformatted = { ...fileA, patch: '@@ -1,3 +1,3 @@\n-const  a = 1;\n+const a  =  2;' };
+    expect(await computePatchId([fileA])).toBe(await computePatchId([reformatted]));
+  });
+
+  it('should be independent of file order', async () => {
+    expect(await computePatchId([fileA, fileB])).toBe(await computePatchId([fileB, fileA]));
+  });
+
+  it('should differ when the change content differs', async () => {
+    const changed = { ...fileA, patch: '@@ -1,3 +1,3 @@\n-const a = 1;\n+const a = 3;' };
+    expect(await computePatchId([fileA])).not.toBe(await computePatchId([changed]));
+  });
+
+  it('should return null when a changed file has no patch data', async () => {
+    const binary = { filename: 'logo.png', status: 'modified', additions: 3, deletions: 1 };
+    expect(await computePatchId([fileA, binary])).toBeNull();
+  });
+
+  it('should use the blob SHA when the patch is missing', async () => {
+    const binary = { filename: 'logo.png', status: 'modified', additions: 3, deletions: 1, sha: 'blob1' };
+    expect(await computePatchId([binary])).not.toBeNull();
+  });
+
+  it('should return null for empty diffs', async () => {
+    expect(await computePatchId([])).toBeNull();
+  });
+});
@@ -1,6 +1,18 @@
 import type { GitHubCommit, TimelineEvent, PullRequestData } from '@/ai/tools/github-tools';
-import type { SquashDetectionResult, SquashAnalysisConfig, GitHubMergeEvent } from '@/lib/types';
-import { Octokit } from '@octokit/rest';
+import type { AnalysisEventListener, SquashDetectionResult, SquashAnalysisConfig, GitHubMergeEvent } from '@/lib/types';
+import type { SourceControlProvider } from '@/ai/providers/source-control-provider';
+import { redactSecrets } from '@/lib/credentials';
+import { computeFilePatchIds, computePatchId } from './patch-id';
+
+// Upper bound on commits whose patches are fetched, to protect the API budget
+const MAX_PATCH_ID_COMMITS = 20;
+
+type TreeEqualityClassification = 'exact-squash' | 'squash-with-conflict-resolution' | 'unrelated';
+
+interface TreeFileEvidence {
+  filename: string;
+  status: 'match' | 'content-mismatch' | 'missing-from-merge' | 'extra-in-merge' | 'unknown';
+}
 
 /**
  * Advanced Squash Detection System
@@ -10,11 +22,13 @@ import { Octokit } from '@octokit/rest';
  */
 export class AdvancedSquashDetector {
   private config: SquashAnalysisConfig;
-  private octokit: Octokit;
+  private provider: SourceControlProvider;
+  private onEvent?: AnalysisEventListener;
 
-  constructor(octokit: Octokit, config: SquashAnalysisConfig) {
-    this.octokit = octokit;
+  constructor(provider: SourceControlProvider, config: SquashAnalysisConfig, onEvent?: AnalysisEventListener) {
+    this.provider = provider;
     this.config = config;
+    this.onEvent = onEvent;
   }
 
   /**
@@ -33,41 +47,50 @@ export class AdvancedSquashDetector {
     reasoning: string;
   }> {
     const detectionResults: SquashDetectionResult[] = [];
+    const run = async (method: string, detect: () => SquashDetectionResult | Promise<SquashDetectionResult>) => {
+      if (this.config.enabledMethods.includes(method)) {
+        detectionResults.push(await this.runDetector(method, mergeCommit.sha, detect));
+      }
+    };
 
     // Run all enabled detection methods
-    if (this.config.enabledMethods.includes('github-api-strategy')) {
-      detectionResults.push(await this.detectViaGitHubAPIStrategy(prData, repoOwner, repoName));
-    }
-
-    if (this.config.enabledMethods.includes('timestamp-pattern')) {
-      detectionResults.push(this.detectViaTimestampPattern(mergeCommit, prCommits));
-    }
-
-    if (this.config.enabledMethods.includes('author-committer-discrepancy')) {
-      detectionResults.push(this.detectViaAuthorCommitterDiscrepancy(mergeCommit, prCommits));
-    }
-
-    if (this.config.enabledMethods.includes('commit-tree-structure')) {
-      detectionResults.push(await this.detectViaCommitTreeStructure(mergeCommit, prCommits, repoOwner, repoName));
-    }
-
-    if (this.config.enabledMethods.includes('github-events-api')) {
-      detectionResults.push(await this.detectViaGitHubEventsAPI(prData, repoOwner, repoName));
-    }
-
-    if (this.config.enabledMethods.includes('diff-analysis')) {
-      detectionResults.push(await this.detectViaDiffAnalysis(mergeCommit, prCommits, repoOwner, repoName));
-    }
+    await run('github-api-strategy', () => this.detectViaGitHubAPIStrategy(prData, repoOwner, repoName));
+    await run('timestamp-pattern', () => this.detectViaTimestampPattern(mergeCommit, prCommits));
+    await run('author-committer-discrepancy', () => this.detectViaAuthorCommitterDiscrepancy(mergeCommit, prCommits));
+    await run('commit-tree-structure', () => this.detectViaCommitTreeStructure(mergeCommit, prCommits, prData, repoOwner, repoName));
+    await run('github-events-api', () => this.detectViaGitHubEventsAPI(prData, repoOwner, repoName));
+    await run('diff-analysis', () => this.detectViaDiffAnalysis(mergeCommit, prCommits, repoOwner, repoName));
+    await run('patch-id', () => this.detectViaPatchId(mergeCommit, prCommits, prData, repoOwner, repoName));
 
     // Legacy method for backward compatibility
-    if (this.config.enabledMethods.includes('legacy-heuristics')) {
-      detectionResults.push(this.detectViaLegacyHeuristics(mergeCommit, prCommits));
-    }
+    await run('legacy-heuristics', () => this.detectViaLegacyHeuristics(mergeCommit, prCommits));
 
     // Cross-validate results
     return this.crossValidateResults(detectionResults);
   }
 
+  /**
+   * Runs one detection method, reporting when it starts and what it found
+   */
+  private async runDetector(
+    method: string,
+    commitSha: string,
+    detect: () => SquashDetectionResult | Promise<SquashDetectionResult>
+  ): Promise<SquashDetectionResult> {
+    this.onEvent?.({ type: 'detector-started', detector: method, commitSha });
+    const startedAt = Date.now();
+    const result = await detect();
+    this.onEvent?.({
+      type: 'detector-finished',
+      detector: method,
+      commitSha,
+      durationMs: Date.now() - startedAt,
+      isSquash: result.isSquash,
+      confidence: result.confidence,
+    });
+    return result;
+  }
+
   /**
    * Method 1: GitHub API Merge Strategy Analysis
    * 
@@ -134,8 +157,8 @@ export class AdvancedSquashDetector {
         method: 'github-api-strategy',
         confidence: 0.0,
         isSquash: false,
-        reasoning: `GitHub API strategy detection failed: ${error.message}`,
-        evidence: { error: error.message },
+        reasoning: `GitHub API strategy detection failed: ${redactSecrets(error.message)}`,
+        evidence: { error: redactSecrets(error.message) },
         weight: 0.4
       };
     }
@@ -275,7 +298,7 @@ export class AdvancedSquashDetector {
   }
 
   /**
-   * Helper method to check which commits exist in the main branch
+   * Helper method to check which commits are reachable from the base branch
    */
   private async checkCommitsInMainBranch(
     commits: GitHubCommit[],
@@ -287,14 +310,13 @@ export class AdvancedSquashDetector {
 
     for (const commit of commits.slice(0, 5)) { // Limit to first 5 commits for performance
       try {
-        await this.octokit.repos.getCommit({
-          owner: repoOwner,
-          repo: repoName,
-          ref: commit.sha
-        });
-        existingCommits.push(commit.sha);
+        // The commit is on the base branch only if the branch is ahead of (or at) it
+        const comparison = await this.provider.compareCommits(repoOwner, repoName, commit.sha, baseBranch);
+        if (comparison.status === 'ahead' || comparison.status === 'identical') {
+          existingCommits.push(commit.sha);
+        }
       } catch (error: any) {
-        // Commit doesn't exist in main branch (likely squashed)
+        // Commit can't be compared with the base branch (likely squashed and garbage collected)
       }
     }
 
@@ -302,75 +324,146 @@ export class AdvancedSquashDetector {
   }
 
   /**
-   * Method 4: Commit Tree Structure Analysis
+   * Method 4: Tree Equality Analysis
    *
-   * Analyzes the git tree structure to identify squash patterns.
-   * Squashed commits often have different tree structures than their constituent commits.
+   * A squash merge applies the PR's net diff onto the merge commit's parent, so the merge
+   * commit's tree must equal that result. Rather than rebuilding the tree, each file's change
+   * in the merge commit (parent -> merge) is compared with its change in the PR's net diff
+   * (merge base -> PR head): identical changes for every file mean identical trees.
    */
   private async detectViaCommitTreeStructure(
     mergeCommit: GitHubCommit,
     prCommits: GitHubCommit[],
+    prData: PullRequestData,
     repoOwner: string,
     repoName: string
   ): Promise<SquashDetectionResult> {
     try {
-      if (prCommits.length <= 1) {
+      if (prCommits.length === 0) {
         return {
           method: 'commit-tree-structure',
           confidence: 0.1,
           isSquash: false,
-          reasoning: 'Insufficient commits for tree structure analysis',
-          evidence: { commitCount: prCommits.length },
-          weight: 0.1
+          reasoning: 'No PR commits for tree equality analysis',
+          evidence: { commitCount: 0 },
+          weight: 0.3
         };
       }
 
-      // Get detailed commit information including tree data
-      const mergeCommitDetails = await this.octokit.repos.getCommit({
-        owner: repoOwner,
-        repo: repoName,
-        ref: mergeCommit.sha
-      });
-
-      // Check if merge commit has only one parent (squash indicator)
-      const hasOneParent = mergeCommit.parents.length === 1;
-
-      // Check if merge commit tree differs significantly from last PR commit
+      const baseSha = prData.baseCommit?.sha || prData.prDetails.base.sha;
       const lastPrCommit = prCommits[prCommits.length - 1];
-      let treeDifference = false;
+      const headSha = prData.prDetails.head.sha || lastPrCommit.sha;
+      if (!baseSha) {
+        return {
+          method: 'commit-tree-structure',
+          confidence: 0.1,
+          isSquash: false,
+          reasoning: 'PR base commit is unknown, so the PR net diff cannot be computed',
+          evidence: { baseAvailable: false },
+          weight: 0.3
+        };
+      }
 
-      try {
-        const lastPrCommitDetails = await this.octokit.repos.getCommit({
-          owner: repoOwner,
-          repo: repoName,
-          ref: lastPrCommit.sha
-        });
+      const mergeCommitDetails = await this.provider.getCommitDetails(repoOwner, repoName, mergeCommit.sha);
+      const prHeadDetails = await this.provider.getCommitDetails(repoOwner, repoName, headSha);
+      const netDiff = await this.provider.compareCommits(repoOwner, repoName, baseSha, headSha);
+
+      const mergeTreeSha = mergeCommitDetails.treeSha;
+      const headTreeSha = prHeadDetails.treeSha;
+      // A clean squash of a branch that was up to date yields exactly the PR head's tree
+      const headTreeMatches = !!mergeTreeSha && mergeTreeSha === headTreeSha;
+      // With the branch up to date the merge-result tree is the PR head's tree, so differing trees rule out an exact squash
+      const parentIsBase = mergeCommit.parents[0]?.sha === baseSha;
+      const treesDiffer = parentIsBase && !!mergeTreeSha && !!headTreeSha && !headTreeMatches;
+
+      // Otherwise the merge tree is compared with the merge-result tree, the merge commit's
+      // parent with the PR's net diff applied: every file the PR changed must hold the PR
+      // head's blob, and the merge commit must change nothing else
+      const mergeFiles = new Map((mergeCommitDetails.files || []).map(file => [file.filename, file]));
+      const prFiles = new Map((netDiff.files || []).map(file => [file.filename, file]));
+      const mergeFileIds = await computeFilePatchIds(mergeCommitDetails.files || []);
+      const prFileIds = await computeFilePatchIds(netDiff.files || []);
+
+      const files: TreeFileEvidence[] = [];
+      for (const [filename, prFile] of prFiles) {
+        const mergeFile = mergeFiles.get(filename);
+        if (!mergeFile) {
+          files.push({ filename, status: headTreeMatches ? 'match' : 'missing-from-merge' });
+        } else if (headTreeMatches || (prFile.status === 'removed' && mergeFile.status === 'removed')) {
+          files.push({ filename, status: 'match' });
+        } else if (prFile.sha && mergeFile.sha) {
+          files.push({ filename, status: prFile.sha === mergeFile.sha ? 'match' : 'content-mismatch' });
+        } else {
+          // Providers without blob SHAs fall back to comparing the changes themselves
+          const prFileId = prFileIds.get(filename);
+          const mergeFileId = mergeFileIds.get(filename);
+          files.push({
+            filename,
+            status: !prFileId || !mergeFileId ? 'unknown' : prFileId === mergeFileId ? 'match' : 'content-mismatch',
+          });
+        }
+      }
+      for (const filename of mergeFiles.keys()) {
+        if (!prFiles.has(filename)) {
+          files.push({ filename, status: headTreeMatches ? 'match' : 'extra-in-merge' });
+        }
+      }
 
-        treeDifference = mergeCommitDetails.data.commit.tree.sha !== lastPrCommitDetails.data.commit.tree.sha;
-      } catch (error: any) {
-        // If we can't get the commit details, assume there's a difference
-        treeDifference = true;
+      const count = (status: TreeFileEvidence['status']) => files.filter(f => f.status === status).length;
+      const matched = count('match');
+      const overlapping = matched + count('content-mismatch') + count('unknown');
+      const mismatches = files.filter(f => f.status !== 'match');
+
+      let classification: TreeEqualityClassification;
+      if (headTreeMatches || (!treesDiffer && files.length > 0 && mismatches.length === 0)) {
+        classification = 'exact-squash';
+      } else if (prFiles.size > 0 && overlapping / prFiles.size >= 0.5) {
+        classification = 'squash-with-conflict-resolution';
+      } else {
+        classification = 'unrelated';
       }
 
+      const hasOneParent = mergeCommit.parents.length === 1;
       const evidence = {
+        classification,
         hasOneParent,
-        treeDifference,
-        mergeCommitTreeSha: mergeCommitDetails.data.commit.tree.sha,
-        parentCount: mergeCommit.parents.length
+        parentCount: mergeCommit.parents.length,
+        mergeCommitTreeSha: mergeTreeSha,
+        prHeadTreeSha: headTreeSha,
+        headTreeMatches,
+        parentIsBase,
+        prFileCount: prFiles.size,
+        mergeFileCount: mergeFiles.size,
+        matchedFiles: matched,
+        mismatchedFiles: mismatches.slice(0, 100)
       };
 
-      const isSquash = hasOneParent && treeDifference && prCommits.length > 1;
-      const confidence = isSquash ? 0.8 : 0.3;
+      // A single-commit PR squashed is indistinguishable from a rebase of that commit
+      const isSquash = hasOneParent && prCommits.length > 1 && classification !== 'unrelated';
+      const confidence = classification === 'exact-squash'
+        ? (hasOneParent ? (headTreeMatches ? 0.95 : 0.9) : 0.8)
+        : classification === 'squash-with-conflict-resolution' ? 0.65 : 0.7;
+
+      let reasoning: string;
+      if (!hasOneParent) {
+        reasoning = `Merge commit has ${mergeCommit.parents.length} parents, so the PR was merged rather than squashed (${classification})`;
+      } else if (headTreeMatches) {
+        reasoning = `Tree equality proves squash: the merge commit's tree ${mergeTreeSha!.substring(0, 7)} is the PR head's tree`;
+      } else if (classification === 'exact-squash') {
+        reasoning = `Tree equality proves squash: applying the PR's net diff to the merge commit's parent yields the merge commit's tree (${matched} files match)`;
+      } else if (classification === 'squash-with-conflict-resolution') {
+        reasoning = `Tree mostly matches the PR's net diff, indicating a squash with conflict resolution (${mismatches.length} of ${files.length} files differ)`;
+      } else {
+        reasoning = `Merge commit tree is unrelated to the PR's net diff (${matched} of ${prFiles.size} PR files match)`;
+      }
 
       return {
         method: 'commit-tree-structure',
         confidence,
         isSquash,
-        reasoning: isSquash
-          ? 'Tree structure indicates squash: single parent with different tree structure'
-          : 'Tree structure does not indicate squash merge',
+        reasoning,
         evidence,
-        weight: 0.1
+        weight: 0.3
       };
 
     } catch (error: any) {
@@ -378,9 +471,9 @@ export class AdvancedSquashDetector {
         method: 'commit-tree-structure',
         confidence: 0.0,
         isSquash: false,
-        reasoning: `Tree structure analysis failed: ${error.message}`,
-        evidence: { error: error.message },
-        weight: 0.1
+        reasoning: `Tree equality analysis failed: ${redactSecrets(error.message)}`,
+        evidence: { error: redactSecrets(error.message) },
+        weight: 0.3
       };
     }
   }
@@ -443,8 +536,8 @@ export class AdvancedSquashDetector {
         method: 'github-events-api',
         confidence: 0.0,
         isSquash: false,
-        reasoning: `GitHub Events API detection failed: ${error.message}`,
-        evidence: { error: error.message },
+        reasoning: `GitHub Events API detection failed: ${redactSecrets(error.message)}`,
+        evidence: { error: redactSecrets(error.message) },
         weight: 0.3
       };
     }
@@ -475,13 +568,9 @@ export class AdvancedSquashDetector {
       }
 
       // Get the diff stats for the merge commit
-      const mergeCommitDiff = await this.octokit.repos.getCommit({
-        owner: repoOwner,
-        repo: repoName,
-        ref: mergeCommit.sha
-      });
+      const mergeCommitDiff = await this.provider.getCommitDetails(repoOwner, repoName, mergeCommit.sha);
 
-      const mergeStats = mergeCommitDiff.data.stats;
+      const mergeStats = mergeCommitDiff.stats;
 
       // Calculate combined stats from PR commits (simplified approach)
       let totalAdditions = 0;
@@ -491,16 +580,12 @@ export class AdvancedSquashDetector {
       // For performance, only analyze first few commits
       for (const commit of prCommits.slice(0, 3)) {
         try {
-          const commitDiff = await this.octokit.repos.getCommit({
-            owner: repoOwner,
-            repo: repoName,
-            ref: commit.sha
-          });
+          const commitDiff = await this.provider.getCommitDetails(repoOwner, repoName, commit.sha);
 
-          if (commitDiff.data.stats) {
-            totalAdditions += commitDiff.data.stats.additions || 0;
-            totalDeletions += commitDiff.data.stats.deletions || 0;
-            totalChanges += commitDiff.data.stats.total || 0;
+          if (commitDiff.stats) {
+            totalAdditions += commitDiff.stats.additions || 0;
+            totalDeletions += commitDiff.stats.deletions || 0;
+            totalChanges += commitDiff.stats.total || 0;
           }
         } catch (error: any) {
           // Skip commits we can't analyze
@@ -545,15 +630,140 @@ export class AdvancedSquashDetector {
         method: 'diff-analysis',
         confidence: 0.0,
         isSquash: false,
-        reasoning: `Diff analysis failed: ${error.message}`,
-        evidence: { error: error.message },
+        reasoning: `Diff analysis failed: ${redactSecrets(error.message)}`,
+        evidence: { error: redactSecrets(error.message) },
         weight: 0.05
       };
     }
   }
 
   /**
-   * Method 7: Legacy Heuristics (for backward compatibility)
+   * Method 7: Patch-ID Matching
+   *
+   * Computes content-based patch IDs (like `git patch-id`) to prove what happened to each
+   * PR commit: still on the base branch unchanged, rebased with identical content, or only
+   * present as part of one combined squash diff.
+   */
+  private async detectViaPatchId(
+    mergeCommit: GitHubCommit,
+    prCommits: GitHubCommit[],
+    prData: PullRequestData,
+    repoOwner: string,
+    repoName: string
+  ): Promise<SquashDetectionResult> {
+    try {
+      if (prCommits.length === 0) {
+        return {
+          method: 'patch-id',
+          confidence: 0.1,
+          isSquash: false,
+          reasoning: 'No PR commits to match by patch ID',
+          evidence: { commitCount: 0 },
+          weight: 0.35
+        };
+      }
+
+      const analyzedCommits = prCommits.slice(0, MAX_PATCH_ID_COMMITS);
+      const prShas = new Set(prCommits.map(c => c.sha));
+      const baseSha = prData.baseCommit?.sha || prData.prDetails.base.sha;
+      const headSha = prData.prDetails.head.sha || prCommits[prCommits.length - 1].sha;
+
+      // Commits that landed on the base branch since the PR branched off
+      const landedCommits = baseSha
+        ? (await this.provider.compareCommits(repoOwner, repoName, baseSha, mergeCommit.sha)).commits
+          .filter(c => !prShas.has(c.sha))
+        : [mergeCommit];
+
+      const landedByPatchId = new Map<string, string>();
+      for (const landed of landedCommits.slice(-MAX_PATCH_ID_COMMITS)) {
+        const details = await this.provider.getCommitDetails(repoOwner, repoName, landed.sha);
+        const patchId = await computePatchId(details.files);
+        if (patchId && !landedByPatchId.has(patchId)) {
+          landedByPatchId.set(patchId, landed.sha);
+        }
+      }
+
+      const unchanged: string[] = [];
+      const rebased: { original: string; landed: string; patchId: string }[] = [];
+      const unmatched: string[] = [];
+
+      for (const commit of analyzedCommits) {
+        const comparison = await this.provider.compareCommits(repoOwner, repoName, commit.sha, mergeCommit.sha);
+        if (comparison.status === 'ahead' || comparison.status === 'identical') {
+          unchanged.push(commit.sha);
+          continue;
+        }
+
+        const details = await this.provider.getCommitDetails(repoOwner, repoName, commit.sha);
+        const patchId = await computePatchId(details.files);
+        const landedSha = patchId ? landedByPatchId.get(patchId) : undefined;
+        if (patchId && landedSha) {
+          rebased.push({ original: commit.sha, landed: landedSha, patchId });
+        } else {
+          unmatched.push(commit.sha);
+        }
+      }
+
+      // The PR's net diff should equal the merge commit's diff when it was squashed
+      const mergeDetails = await this.provider.getCommitDetails(repoOwner, repoName, mergeCommit.sha);
+      const mergePatchId = await computePatchId(mergeDetails.files);
+      const combinedPatchId = baseSha
+        ? await computePatchId((await this.provider.compareCommits(repoOwner, repoName, baseSha, headSha)).files)
+        : null;
+      const combinedDiffMatches = !!mergePatchId && mergePatchId === combinedPatchId;
+
+      const squashed = combinedDiffMatches ? unmatched : [];
+      const evidence = {
+        analyzedCommits: analyzedCommits.length,
+        totalPrCommits: prCommits.length,
+        unchanged,
+        rebased,
+        squashed,
+        unmatched: combinedDiffMatches ? [] : unmatched,
+        mergePatchId,
+        combinedPatchId,
+        combinedDiffMatches
+      };
+
+      const isSquash = mergeCommit.parents.length === 1 && combinedDiffMatches &&
+        unchanged.length === 0 && rebased.length === 0 && squashed.length > 0;
+
+      let confidence: number;
+      let reasoning: string;
+      if (isSquash) {
+        confidence = 0.95;
+        reasoning = `Patch IDs prove squash: none of ${analyzedCommits.length} PR commits landed individually and the merge commit diff matches the PR's combined diff`;
+      } else if (unchanged.length + rebased.length === analyzedCommits.length) {
+        confidence = 0.9;
+        reasoning = `Patch IDs show every PR commit landed individually: ${unchanged.length} unchanged, ${rebased.length} rebased with identical content`;
+      } else {
+        confidence = 0.4;
+        reasoning = `Patch IDs are inconclusive: ${unchanged.length} unchanged, ${rebased.length} rebased, ${unmatched.length} without a content match`;
+      }
+
+      return {
+        method: 'patch-id',
+        confidence,
+        isSquash,
+        reasoning,
+        evidence,
+        weight: 0.35
+      };
+
+    } catch (error: any) {
+      return {
+        method: 'patch-id',
+        confidence: 0.0,
+        isSquash: false,
+        reasoning: `Patch-ID matching failed: ${redactSecrets(error.message)}`,
+        evidence: { error: redactSecrets(error.message) },
+        weight: 0.35
+      };
+    }
+  }
+
+  /**
+   * Method 8: Legacy Heuristics (for backward compatibility)
    *
    * The original simple detection method for comparison and fallback.
    */
@@ -1,7 +1,9 @@
-import type { SquashAnalysisConfig, CommitNode } from '@/lib/types';
+import type { AnalysisEventListener, SquashAnalysisConfig, CommitNode } from '@/lib/types';
 import type { GitHubCommit, PullRequestData } from '@/ai/tools/github-tools';
+import type { SourceControlProvider } from '@/ai/providers/source-control-provider';
+import { toAnalysisIssue } from '@/ai/lineage/analysis-issues';
+import { describeError, redactSecrets } from '@/lib/credentials';
 import { AdvancedSquashDetector } from './advanced-squash-detector';
-import { Octokit } from '@octokit/rest';
 
 /**
  * Analysis Depth Manager
@@ -13,12 +15,14 @@ import { Octokit } from '@octokit/rest';
 export class AnalysisDepthManager {
   private detector: AdvancedSquashDetector;
   private config: SquashAnalysisConfig;
-  private octokit: Octokit;
+  private provider: SourceControlProvider;
+  private onEvent?: AnalysisEventListener;
 
-  constructor(octokit: Octokit, config: SquashAnalysisConfig) {
-    this.octokit = octokit;
+  constructor(provider: SourceControlProvider, config: SquashAnalysisConfig, onEvent?: AnalysisEventListener) {
+    this.provider = provider;
     this.config = config;
-    this.detector = new AdvancedSquashDetector(octokit, config);
+    this.onEvent = onEvent;
+    this.detector = new AdvancedSquashDetector(provider, config, onEvent);
   }
 
   /**
@@ -181,6 +185,14 @@ export class AnalysisDepthManager {
         try {
           // Fetch the nested PR data
           const nestedPrData = await this.fetchPullRequestData(repoOwner, repoName, nestedPrNumber);
+          if (nestedPrData) {
+            this.onEvent?.({
+              type: 'pr-fetched',
+              pullRequestNumber: nestedPrNumber,
+              title: nestedPrData.prDetails.title,
+              commits: nestedPrData.prCommits.length,
+            });
+          }
 
           if (nestedPrData && nestedPrData.mergeCommit) {
             // Recursively analyze the nested PR
@@ -224,10 +236,15 @@ export class AnalysisDepthManager {
           }
         } catch (error: any) {
           // Add the commit as-is if nested analysis fails
+          this.onEvent?.({
+            type: 'issue',
+            severity: 'error',
+            issue: toAnalysisIssue(error, 'nested-pull-request', { pullRequestNumber: nestedPrNumber, commitSha: commit.sha }),
+          });
           expandedCommits.push(this.createCommitNode(commit, prData, {
             nestedPrNumber,
             analysisDepth: 'deep',
-            error: error.message
+            error: redactSecrets(error.message)
           }));
         }
       } else {
@@ -295,11 +312,14 @@ export class AnalysisDepthManager {
     pullRequestNumber: number
   ): Promise<PullRequestData | null> {
     try {
-      // Import the getPullRequestData function
-      const { getPullRequestData } = await import('@/ai/tools/github-tools');
-      return await getPullRequestData(this.octokit, repoOwner, repoName, pullRequestNumber);
+      return await this.provider.getPullRequestData(repoOwner, repoName, pullRequestNumber);
     } catch (error) {
-      console.warn(`Failed to fetch PR #${pullRequestNumber}:`, error);
+      console.warn(`Failed to fetch PR #${pullRequestNumber}:`, describeError(error));
+      this.onEvent?.({
+        type: 'issue',
+        severity: 'error',
+        issue: toAnalysisIssue(error, 'nested-pull-request', { pullRequestNumber }),
+      });
       return null;
     }
   }
@@ -351,6 +371,7 @@ export class AnalysisDepthManager {
         'commit-tree-structure',
         'github-events-api',
         'diff-analysis',
+        'patch-id',
         'legacy-heuristics'
       ],
       confidenceThreshold: 0.7,
@@ -0,0 +1,67 @@
+import type { CommitFile } from '@/ai/providers/source-control-provider';
+
+/**
+ * Patch IDs in the style of `git patch-id --stable`
+ *
+ * A patch ID identifies the content of a change rather than the commit that carries it:
+ * hunk headers, context lines, line numbers and whitespace are ignored, so the same
+ * change rebased onto a different base (or cherry-picked) keeps the same ID.
+ * Per-file IDs are combined order-independently, like git's `--stable` mode.
+ */
+
+async function sha1Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Normalizes one file's diff to the content git patch-id hashes.
+ * Returns null when the file has changes but no patch data to hash.
+ */
+function normalizeFilePatch(file: CommitFile): string | null {
+  const header = `diff --git a/${file.previous_filename || file.filename} b/${file.filename}`;
+
+  if (!file.patch) {
+    // Binary files and oversized diffs have no patch; fall back to the resulting blob
+    if (file.sha) return `${header}\n${file.status}\nblob ${file.sha}`;
+    if (file.additions === 0 && file.deletions === 0) return `${header}\n${file.status}`;
+    return null;
+  }
+
+  const changedLines = file.patch
+    .split('\n')
+    .filter(line => (line.startsWith('+') || line.startsWith('-')) && !line.startsWith('+++') && !line.startsWith('---'))
+    .map(line => line.replace(/\s+/g, ''));
+
+  return [header, ...changedLines].join('\n');
+}
+
+/**
+ * Computes a patch ID for every file in a diff, keyed by filename
+ */
+export async function computeFilePatchIds(files: CommitFile[]): Promise<Map<string, string | null>> {
+  const ids = new Map<string, string | null>();
+
+  for (const file of files) {
+    const normalized = normalizeFilePatch(file);
+    ids.set(file.filename, normalized === null ? null : await sha1Hex(normalized));
+  }
+
+  return ids;
+}
+
+/**
+ * Computes the patch ID of a whole diff.
+ * Returns null when the diff is empty or any file lacks the data needed to hash it.
+ */
+export async function computePatchId(files: CommitFile[] | undefined): Promise<string | null> {
+  if (!files || files.length === 0) return null;
+
+  const fileIds = await computeFilePatchIds(files);
+  const ids = Array.from(fileIds.values());
+  if (ids.some(id => id === null)) return null;
+
+  return sha1Hex((ids as string[]).sort().join('\n'));
+}
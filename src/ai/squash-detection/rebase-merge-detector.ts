@@ -0,0 +1,137 @@
+import type { GitHubCommit } from '@/ai/tools/github-tools';
+import type { CommitDetails, SourceControlProvider } from '@/ai/providers/source-control-provider';
+import { computePatchId } from './patch-id';
+
+// "Rebase and merge" rewrites every PR commit, so walking further than this is not useful
+const MAX_REWRITTEN_COMMITS = 50;
+
+// Minimum pairing score for a landed commit to count as a rewrite of a PR commit
+const PAIRING_THRESHOLD = 0.5;
+
+export interface RewrittenCommitPair {
+  originalSha: string;
+  landedCommit: CommitDetails;
+  matchedBy: ('author' | 'message' | 'patch')[];
+  confidence: number;
+}
+
+export interface RebaseMergeResult {
+  isRebaseMerge: boolean;
+  confidence: number;
+  pairs: RewrittenCommitPair[];
+  unmatchedPrCommits: string[];
+  reasoning: string;
+}
+
+/**
+ * Rebase-Merge Detector
+ *
+ * GitHub's "Rebase and merge" replays every PR commit onto the base branch and reports
+ * only the last replayed commit as `merge_commit_sha`. This detector walks the base branch
+ * back from that commit (first parent only) and pairs each rewritten commit with its
+ * original PR commit by author, message and patch ID.
+ */
+export class RebaseMergeDetector {
+  private provider: SourceControlProvider;
+
+  constructor(provider: SourceControlProvider) {
+    this.provider = provider;
+  }
+
+  async detect(
+    mergeCommit: GitHubCommit,
+    prCommits: GitHubCommit[],
+    repoOwner: string,
+    repoName: string
+  ): Promise<RebaseMergeResult> {
+    const prShas = new Set(prCommits.map(c => c.sha));
+
+    if (mergeCommit.parents.length !== 1 || prCommits.length === 0) {
+      return this.noRebase('Rebase merges produce a single-parent commit for a PR with commits');
+    }
+    if (prShas.has(mergeCommit.sha)) {
+      return this.noRebase('Merge commit is one of the PR commits, so history was fast-forwarded rather than rewritten');
+    }
+
+    // Walk the base branch back from the merge commit, one landed commit per PR commit
+    const landedCommits: CommitDetails[] = [];
+    let sha: string | undefined = mergeCommit.sha;
+    while (sha && landedCommits.length < Math.min(prCommits.length, MAX_REWRITTEN_COMMITS)) {
+      const details = await this.provider.getCommitDetails(repoOwner, repoName, sha);
+      if (details.parents.length !== 1 || prShas.has(details.sha)) break;
+      landedCommits.push(details);
+      sha = details.parents[0]?.sha;
+    }
+    landedCommits.reverse();
+
+    const prPatchIds = new Map<string, string | null>();
+    for (const commit of prCommits.slice(-MAX_REWRITTEN_COMMITS)) {
+      const details = await this.provider.getCommitDetails(repoOwner, repoName, commit.sha);
+      prPatchIds.set(commit.sha, await computePatchId(details.files));
+    }
+
+    const pairs: RewrittenCommitPair[] = [];
+    const pairedOriginals = new Set<string>();
+
+    for (const landed of landedCommits) {
+      const landedPatchId = await computePatchId(landed.files);
+      let best: RewrittenCommitPair | null = null;
+
+      for (const original of prCommits) {
+        if (pairedOriginals.has(original.sha)) continue;
+
+        const matchedBy: RewrittenCommitPair['matchedBy'] = [];
+        let score = 0;
+        if (original.commit.author?.email && original.commit.author.email === landed.commit.author?.email) {
+          matchedBy.push('author');
+          score += 0.2;
+        }
+        if (original.commit.message.trim() === landed.commit.message.trim()) {
+          matchedBy.push('message');
+          score += 0.3;
+        }
+        const originalPatchId = prPatchIds.get(original.sha);
+        if (originalPatchId && originalPatchId === landedPatchId) {
+          matchedBy.push('patch');
+          score += 0.5;
+        }
+
+        if (score >= PAIRING_THRESHOLD && (!best || score > best.confidence)) {
+          best = { originalSha: original.sha, landedCommit: landed, matchedBy, confidence: score };
+        }
+      }
+
+      if (best) {
+        pairs.push(best);
+        pairedOriginals.add(best.originalSha);
+      }
+    }
+
+    const unmatchedPrCommits = prCommits.filter(c => !pairedOriginals.has(c.sha)).map(c => c.sha);
+    const lastLandedPaired = pairs.some(p => p.landedCommit.sha === mergeCommit.sha);
+    const isRebaseMerge = lastLandedPaired && unmatchedPrCommits.length === 0;
+    const confidence = pairs.length > 0
+      ? pairs.reduce((sum, pair) => sum + pair.confidence, 0) / pairs.length
+      : 0;
+
+    return {
+      isRebaseMerge,
+      confidence: isRebaseMerge ? confidence : confidence * 0.5,
+      pairs,
+      unmatchedPrCommits,
+      reasoning: isRebaseMerge
+        ? `All ${prCommits.length} PR commits were rewritten onto the base branch and paired by author, message and patch`
+        : `Paired ${pairs.length} of ${prCommits.length} PR commits with rewritten base branch commits`,
+    };
+  }
+
+  private noRebase(reasoning: string): RebaseMergeResult {
+    return {
+      isRebaseMerge: false,
+      confidence: 0,
+      pairs: [],
+      unmatchedPrCommits: [],
+      reasoning,
+    };
+  }
+}
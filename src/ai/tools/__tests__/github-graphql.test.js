@@ -0,0 +1,117 @@
+const { describe, it, expect } = require('@jest/globals');
+const { getPullRequestDataGraphQL } = require('../github-graphql');
+
+const page = { hasNextPage: false, endCursor: null };
+
+// Fetches a PR whose single page of commits and timeline items is given
+async function fetchPullRequest({ commits = [], timelineItems = [] }) {
+  const octokit = {
+    graphql: async () => ({
+      repository: {
+        pullRequest: {
+          title: 'PR',
+          merged: false,
+          headRefName: 'feature',
+          baseRefName: 'main',
+          commits: { totalCount: commits.length, pageInfo: page, nodes: commits.map(commit => ({ commit })) },
+          timelineItems: { pageInfo: page, nodes: timelineItems },
+        },
+      },
+    }),
+  };
+  return getPullRequestDataGraphQL(octokit, 'acme', 'app', 1);
+}
+
+async function fetchCommit(commit) {
+  return (await fetchPullRequest({ commits: [commit] })).prCommits[0];
+}
+
+async function fetchTimelineEvent(item) {
+  return (await fetchPullRequest({ timelineItems: [item] })).timelineEvents[0] || null;
+}
+
+describe('GitHub GraphQL Fetcher', () => {
+  describe('Commits', () => {
+    it('should map a commit onto the REST commit shape', async () => {
+      const commit = await fetchCommit({
+        oid: 'abc',
+        message: 'Fix bug',
+        author: { name: 'Alice', email: 'alice@example.com', date: '2024-01-01T00:00:00Z', user: { login: 'alice' } },
+        committer: { name: 'GitHub', email: 'noreply@github.com', date: '2024-01-02T00:00:00Z' },
+        parents: { nodes: [{ oid: 'p1' }, { oid: 'p2' }] },
+        tree: { oid: 't1' },
+      });
+
+      expect(commit).toEqual({
+        sha: 'abc',
+        author: { login: 'alice' },
+        commit: {
+          author: { name: 'Alice', email: 'alice@example.com', date: '2024-01-01T00:00:00Z' },
+          committer: { name: 'GitHub', email: 'noreply@github.com', date: '2024-01-02T00:00:00Z' },
+          message: 'Fix bug',
+          tree: { sha: 't1' },
+        },
+        parents: [{ sha: 'p1' }, { sha: 'p2' }],
+      });
+    });
+
+    it('should leave out the account of an author without one', async () => {
+      const commit = await fetchCommit({
+        oid: 'abc',
+        message: 'm',
+        author: { name: 'Bot', email: 'bot@example.com', date: '2024-01-01T00:00:00Z', user: null },
+        committer: null,
+        parents: { nodes: [] },
+        tree: { oid: 't1' },
+      });
+
+      expect(commit.author).toBeNull();
+      expect(commit.commit.committer).toBeNull();
+    });
+  });
+
+  describe('Timeline Events', () => {
+    it('should map submitted reviews onto reviewed events', async () => {
+      const event = await fetchTimelineEvent({
+        __typename: 'PullRequestReview',
+        submittedAt: '2024-01-02T10:00:00Z',
+        state: 'CHANGES_REQUESTED',
+        author: { login: 'bob' },
+      });
+
+      expect(event).toEqual({
+        event: 'reviewed',
+        created_at: '2024-01-02T10:00:00Z',
+        actor: { login: 'bob' },
+        state: 'changes_requested',
+      });
+    });
+
+    it('should skip pending reviews', async () => {
+      expect(await fetchTimelineEvent({ __typename: 'PullRequestReview', submittedAt: null, state: 'PENDING' })).toBeNull();
+    });
+
+    it('should map force pushes with the commit pushed', async () => {
+      const event = await fetchTimelineEvent({
+        __typename: 'HeadRefForcePushedEvent',
+        createdAt: '2024-01-02T09:00:00Z',
+        actor: { login: 'alice' },
+        afterCommit: { oid: 'def' },
+      });
+
+      expect(event).toEqual({ event: 'head_ref_force_pushed', created_at: '2024-01-02T09:00:00Z', actor: { login: 'alice' }, commit_id: 'def' });
+    });
+
+    it('should keep user reviewers and leave out team reviewers', async () => {
+      const user = await fetchTimelineEvent({ __typename: 'ReviewRequestedEvent', createdAt: 't', actor: null, requestedReviewer: { login: 'carol' } });
+      const team = await fetchTimelineEvent({ __typename: 'ReviewRequestedEvent', createdAt: 't', actor: null, requestedReviewer: {} });
+
+      expect(user.requested_reviewer).toEqual({ login: 'carol' });
+      expect(team.requested_reviewer).toBeUndefined();
+    });
+
+    it('should ignore other item types', async () => {
+      expect(await fetchTimelineEvent({ __typename: 'LabeledEvent', createdAt: 't' })).toBeNull();
+    });
+  });
+});
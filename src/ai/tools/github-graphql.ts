@@ -0,0 +1,319 @@
+import type { Octokit } from '@octokit/rest';
+import type { DataTruncation } from '@/lib/types';
+import { describeError } from '@/lib/credentials';
+import { getCommitsViaCompare, GitHubCommit, PullRequestData, PullRequestDetails, TimelineEvent } from './github-tools';
+
+// GitHub's pull request commits connection stops returning results after this many commits
+const PR_COMMITS_API_LIMIT = 250;
+
+// Merges of more than this many parents are vanishingly rare
+const MAX_PARENTS = 10;
+
+const COMMIT_FIELDS = `
+  fragment CommitFields on Commit {
+    oid
+    message
+    author { name email date user { login } }
+    committer { name email date }
+    parents(first: ${MAX_PARENTS}) { nodes { oid } }
+    tree { oid }
+  }
+`;
+
+// The same timeline events the REST fetcher keeps, reviews included, by item type
+const TIMELINE_ITEMS: Record<string, string> = {
+  HEAD_REF_FORCE_PUSHED_EVENT: '... on HeadRefForcePushedEvent { createdAt actor { login } afterCommit { oid } }',
+  BASE_REF_CHANGED_EVENT: '... on BaseRefChangedEvent { createdAt actor { login } }',
+  REVIEW_REQUESTED_EVENT: '... on ReviewRequestedEvent { createdAt actor { login } requestedReviewer { ... on User { login } } }',
+  PULL_REQUEST_REVIEW: '... on PullRequestReview { submittedAt state author { login } }',
+  READY_FOR_REVIEW_EVENT: '... on ReadyForReviewEvent { createdAt actor { login } }',
+};
+
+// Names the repository owner, like every other request, so a GitHub App authenticates
+// as the installation of that owner
+const TIMELINE_ITEM_TYPES_QUERY = `
+  query TimelineItemTypes($owner: String!) {
+    repositoryOwner(login: $owner) { login }
+    __type(name: "PullRequestTimelineItemsItemType") { enumValues { name } }
+  }
+`;
+
+/**
+ * Builds the pull request query for the timeline item types the server supports
+ */
+function pullRequestQuery(itemTypes: string[]): string {
+  const timelineItems = itemTypes.length > 0 ? `
+        timelineItems(first: 100, after: $timelineCursor, itemTypes: [${itemTypes.join(', ')}]) @include(if: $withTimeline) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            __typename
+            ${itemTypes.map(type => TIMELINE_ITEMS[type]).join('\n            ')}
+          }
+        }` : '';
+
+  return `
+  query PullRequestData(
+    $owner: String!
+    $name: String!
+    $number: Int!
+    $commitsCursor: String
+    $timelineCursor: String
+    $withCommits: Boolean!
+    $withTimeline: Boolean!
+  ) {
+    repository(owner: $owner, name: $name) {
+      pullRequest(number: $number) {
+        title
+        body
+        author { login }
+        merged
+        mergedBy { login }
+        createdAt
+        updatedAt
+        mergedAt
+        closedAt
+        headRefName
+        headRefOid
+        baseRefName
+        baseRefOid
+        mergeCommit { ...CommitFields }
+        commits(first: 100, after: $commitsCursor) @include(if: $withCommits) {
+          totalCount
+          pageInfo { hasNextPage endCursor }
+          nodes { commit { ...CommitFields } }
+        }${timelineItems}
+      }
+    }
+  }
+  ${COMMIT_FIELDS}
+`;
+}
+
+interface GraphQLCommit {
+  oid: string;
+  message: string;
+  author: { name: string; email: string; date: string; user: { login: string } | null } | null;
+  committer: { name: string; email: string; date: string } | null;
+  parents: { nodes: { oid: string }[] };
+  tree: { oid: string };
+}
+
+interface GraphQLConnection<T> {
+  totalCount?: number;
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: T[];
+}
+
+interface GraphQLTimelineItem {
+  __typename: string;
+  createdAt?: string;
+  submittedAt?: string | null;
+  actor?: { login: string } | null;
+  author?: { login: string } | null;
+  afterCommit?: { oid: string } | null;
+  requestedReviewer?: { login?: string } | null;
+  state?: string;
+}
+
+interface GraphQLPullRequest {
+  title: string;
+  body: string | null;
+  author: { login: string } | null;
+  merged: boolean;
+  mergedBy: { login: string } | null;
+  createdAt: string;
+  updatedAt: string;
+  mergedAt: string | null;
+  closedAt: string | null;
+  headRefName: string;
+  headRefOid: string;
+  baseRefName: string;
+  baseRefOid: string;
+  mergeCommit: GraphQLCommit | null;
+  commits?: GraphQLConnection<{ commit: GraphQLCommit }>;
+  timelineItems?: GraphQLConnection<GraphQLTimelineItem>;
+}
+
+/**
+ * Fetches a pull request through the GraphQL API: its details, commits with parents and
+ * trees, merge commit, timeline events and reviews come in one query, with more pages only
+ * for PRs over 100 commits or timeline events. Returns the same shape as the REST fetcher,
+ * except that `baseCommit` is left out; callers fall back to `prDetails.base.sha`.
+ *
+ * `timelineItemTypes` narrows the timeline to the item types a server supports, as found
+ * by getSupportedTimelineItemTypes; timeline events of other types are left out.
+ */
+export async function getPullRequestDataGraphQL(
+  octokit: Octokit,
+  repoOwner: string,
+  repoName: string,
+  pullRequestNumber: number,
+  timelineItemTypes: string[] = Object.keys(TIMELINE_ITEMS)
+): Promise<PullRequestData> {
+  const query = pullRequestQuery(timelineItemTypes);
+  let pullRequest: GraphQLPullRequest | null = null;
+  const commits: GraphQLCommit[] = [];
+  const timelineItems: GraphQLTimelineItem[] = [];
+  let commitsCursor: string | null = null;
+  let timelineCursor: string | null = null;
+  let withCommits = true;
+  let withTimeline = timelineItemTypes.length > 0;
+
+  while (withCommits || withTimeline) {
+    let response: { repository: { pullRequest: GraphQLPullRequest | null } | null };
+    try {
+      response = await octokit.graphql(query, {
+        owner: repoOwner,
+        name: repoName,
+        number: pullRequestNumber,
+        commitsCursor,
+        timelineCursor,
+        withCommits,
+        withTimeline,
+      });
+    } catch (error: any) {
+      // Missing repositories and PRs come back as errors in a 200 response
+      if (error.errors?.some((e: { type?: string }) => e.type === 'NOT_FOUND')) {
+        throw notFound(repoOwner, repoName, pullRequestNumber);
+      }
+      throw error;
+    }
+
+    const page = response.repository?.pullRequest;
+    if (!page) throw notFound(repoOwner, repoName, pullRequestNumber);
+    pullRequest = pullRequest || page;
+
+    if (page.commits) {
+      commits.push(...page.commits.nodes.map(node => node.commit));
+      // The connection stops at PR_COMMITS_API_LIMIT even when it says there are more
+      withCommits = page.commits.pageInfo.hasNextPage && commits.length < PR_COMMITS_API_LIMIT;
+      commitsCursor = page.commits.pageInfo.endCursor;
+    }
+    if (page.timelineItems) {
+      timelineItems.push(...page.timelineItems.nodes);
+      withTimeline = page.timelineItems.pageInfo.hasNextPage;
+      timelineCursor = page.timelineItems.pageInfo.endCursor;
+    }
+  }
+
+  const { commits: firstCommitsPage } = pullRequest!;
+  const prDetails = toPullRequestDetails(pullRequest!, firstCommitsPage?.totalCount ?? commits.length);
+  let prCommits = commits.map(toGitHubCommit);
+
+  // Larger PRs need the compare API, as with the REST fetcher
+  const truncations: DataTruncation[] = [];
+  const expectedCommitCount = prDetails.commits ?? prCommits.length;
+  if (prCommits.length >= PR_COMMITS_API_LIMIT && expectedCommitCount > prCommits.length) {
+    try {
+      prCommits = await getCommitsViaCompare(octokit, repoOwner, repoName, prDetails.base.sha!, prDetails.head.sha!);
+    } catch (e) {
+      console.warn(`Could not fetch commits beyond ${PR_COMMITS_API_LIMIT} for PR #${pullRequestNumber} via compare API`, describeError(e));
+    }
+  }
+
+  if (prCommits.length < expectedCommitCount) {
+    truncations.push({
+      pullRequestNumber,
+      resource: 'commits',
+      expected: expectedCommitCount,
+      fetched: prCommits.length,
+      reason: `GitHub returned ${prCommits.length} of ${expectedCommitCount} commits`,
+    });
+  }
+
+  return {
+    prDetails,
+    prCommits,
+    mergeCommit: pullRequest!.merged && pullRequest!.mergeCommit ? toGitHubCommit(pullRequest!.mergeCommit) : null,
+    timelineEvents: timelineItems.flatMap(item => {
+      const event = toTimelineEvent(item);
+      return event ? [event] : [];
+    }),
+    truncations,
+  };
+}
+
+/**
+ * Finds which of the timeline item types the fetcher uses a server supports. GitHub
+ * Enterprise Server releases lag behind github.com, and a query naming an item type the
+ * server does not know fails as a whole. Throws when the server has no timeline items.
+ */
+export async function getSupportedTimelineItemTypes(octokit: Octokit, repoOwner: string): Promise<string[]> {
+  const response: { __type: { enumValues: { name: string }[] | null } | null } =
+    await octokit.graphql(TIMELINE_ITEM_TYPES_QUERY, { owner: repoOwner });
+  const supported = new Set((response.__type?.enumValues || []).map(value => value.name));
+  if (supported.size === 0) {
+    throw new Error('The GraphQL API does not support pull request timeline items');
+  }
+  return Object.keys(TIMELINE_ITEMS).filter(type => supported.has(type));
+}
+
+// Carries a 404 status like the REST fetcher's errors
+function notFound(repoOwner: string, repoName: string, pullRequestNumber: number): Error {
+  return Object.assign(new Error(`Pull request #${pullRequestNumber} not found in ${repoOwner}/${repoName}`), { status: 404 });
+}
+
+function toPullRequestDetails(pullRequest: GraphQLPullRequest, commitCount: number): PullRequestDetails {
+  return {
+    title: pullRequest.title,
+    body: pullRequest.body,
+    user: pullRequest.author ? { login: pullRequest.author.login } : null,
+    merged: pullRequest.merged,
+    merge_commit_sha: pullRequest.mergeCommit?.oid ?? null,
+    head: { ref: pullRequest.headRefName, sha: pullRequest.headRefOid },
+    base: { ref: pullRequest.baseRefName, sha: pullRequest.baseRefOid },
+    commits: commitCount,
+    merged_by: pullRequest.mergedBy ? { login: pullRequest.mergedBy.login } : null,
+    created_at: pullRequest.createdAt,
+    updated_at: pullRequest.updatedAt,
+    merged_at: pullRequest.mergedAt,
+    closed_at: pullRequest.closedAt,
+  };
+}
+
+function toGitHubCommit(commit: GraphQLCommit): GitHubCommit {
+  return {
+    sha: commit.oid,
+    author: commit.author?.user ? { login: commit.author.user.login } : null,
+    commit: {
+      author: commit.author ? { name: commit.author.name, email: commit.author.email, date: commit.author.date } : null,
+      committer: commit.committer ? { name: commit.committer.name, email: commit.committer.email, date: commit.committer.date } : null,
+      message: commit.message,
+      tree: { sha: commit.tree.oid },
+    },
+    parents: commit.parents.nodes.map(parent => ({ sha: parent.oid })),
+  };
+}
+
+/**
+ * Maps a timeline item onto the REST timeline event it corresponds to
+ */
+function toTimelineEvent(item: GraphQLTimelineItem): TimelineEvent | null {
+  const actor = item.actor ? { login: item.actor.login } : undefined;
+  switch (item.__typename) {
+    case 'HeadRefForcePushedEvent':
+      return { event: 'head_ref_force_pushed', created_at: item.createdAt!, actor, commit_id: item.afterCommit?.oid };
+    case 'BaseRefChangedEvent':
+      return { event: 'base_ref_changed', created_at: item.createdAt!, actor };
+    case 'ReviewRequestedEvent':
+      return {
+        event: 'review_requested',
+        created_at: item.createdAt!,
+        actor,
+        requested_reviewer: item.requestedReviewer?.login ? { login: item.requestedReviewer.login } : undefined,
+      };
+    case 'PullRequestReview':
+      // Pending reviews have not been submitted yet
+      if (!item.submittedAt || item.state === 'PENDING') return null;
+      return {
+        event: 'reviewed',
+        created_at: item.submittedAt,
+        actor: item.author ? { login: item.author.login } : undefined,
+        state: item.state?.toLowerCase() as TimelineEvent['state'],
+      };
+    case 'ReadyForReviewEvent':
+      return { event: 'ready_for_review', created_at: item.createdAt!, actor };
+    default:
+      return null;
+  }
+}
@@ -1,8 +1,24 @@
 'use server';
 
 import type { Octokit } from '@octokit/rest';
+import type { DataTruncation } from '@/lib/types';
+import { describeError } from '@/lib/credentials';
 
-// Using interfaces derived from Octokit's response types for better accuracy
+// GitHub's list-commits endpoint for pull requests stops returning results after this many commits
+const PR_COMMITS_API_LIMIT = 250;
+
+// Timeline events kept for rebase detection and the review stages of the cycle time
+const KEPT_TIMELINE_EVENTS = [
+  'head_ref_force_pushed',
+  'base_ref_changed',
+  'committed',
+  'review_requested',
+  'reviewed',
+  'ready_for_review',
+];
+
+// Using interfaces derived from Octokit's response types for better accuracy.
+// Every source control provider normalizes its data into these shapes.
 export interface GitHubCommit {
   sha: string;
   author: {
@@ -20,6 +36,9 @@ export interface GitHubCommit {
       date: string;
     } | null;
     message: string;
+    tree?: {
+      sha: string;
+    };
   };
   parents: {
     sha: string;
@@ -27,10 +46,19 @@ export interface GitHubCommit {
 }
 
 export interface PullRequestDetails {
+  title?: string;
+  body?: string | null;
+  user?: { login: string } | null;
   merged: boolean;
   merge_commit_sha: string | null;
-  head: { ref: string };
-  base: { ref: string };
+  head: { ref: string; sha?: string };
+  base: { ref: string; sha?: string };
+  commits?: number;
+  merged_by?: { login: string } | null;
+  created_at?: string;
+  updated_at?: string;
+  merged_at?: string | null;
+  closed_at?: string | null;
 }
 
 export interface PullRequestData {
@@ -39,6 +67,7 @@ export interface PullRequestData {
   mergeCommit: GitHubCommit | null;
   timelineEvents?: TimelineEvent[];
   baseCommit?: GitHubCommit;
+  truncations?: DataTruncation[];
 }
 
 export interface TimelineEvent {
@@ -49,6 +78,13 @@ export interface TimelineEvent {
   };
   commit_id?: string;
   commit_url?: string;
+  merge_strategy?: 'merge' | 'squash' | 'rebase';
+  // Set on `reviewed` events
+  state?: 'approved' | 'changes_requested' | 'commented' | 'dismissed';
+  // Set on `review_requested` events
+  requested_reviewer?: {
+    login: string;
+  };
 }
 
 export async function getPullRequestData(
@@ -64,13 +100,40 @@ export async function getPullRequestData(
     pull_number: pullRequestNumber,
   });
 
-  // Fetch commits from the PR branch
-  const prCommitsResponse = await octokit.pulls.listCommits({
+  // Fetch every page of commits from the PR branch
+  const truncations: DataTruncation[] = [];
+  let prCommits: GitHubCommit[] = await octokit.paginate(octokit.pulls.listCommits, {
     owner: repoOwner,
     repo: repoName,
     pull_number: pullRequestNumber,
     per_page: 100, // Max per page
-  });
+  }) as any;
+
+  // The PR commits endpoint is capped, so larger PRs need the compare API
+  const expectedCommitCount = prDetailsResponse.data.commits;
+  if (prCommits.length >= PR_COMMITS_API_LIMIT && expectedCommitCount > prCommits.length) {
+    try {
+      prCommits = await getCommitsViaCompare(
+        octokit,
+        repoOwner,
+        repoName,
+        prDetailsResponse.data.base.sha,
+        prDetailsResponse.data.head.sha
+      );
+    } catch (e) {
+      console.warn(`Could not fetch commits beyond ${PR_COMMITS_API_LIMIT} for PR #${pullRequestNumber} via compare API`, describeError(e));
+    }
+  }
+
+  if (prCommits.length < expectedCommitCount) {
+    truncations.push({
+      pullRequestNumber,
+      resource: 'commits',
+      expected: expectedCommitCount,
+      fetched: prCommits.length,
+      reason: `GitHub returned ${prCommits.length} of ${expectedCommitCount} commits`,
+    });
+  }
 
   // Fetch merge commit details if PR was merged
   let mergeCommit: GitHubCommit | null = null;
@@ -83,24 +146,30 @@ export async function getPullRequestData(
       });
       mergeCommit = commitData.data as any; // Using 'any' as octokit types can be complex
     } catch (e) {
-      console.warn(`Could not fetch merge commit ${prDetailsResponse.data.merge_commit_sha}`, e);
+      console.warn(`Could not fetch merge commit ${prDetailsResponse.data.merge_commit_sha}`, describeError(e));
     }
   }
 
-  // Fetch timeline events for rebase detection
+  // Fetch every page of timeline events for rebase detection and review stages
   let timelineEvents: TimelineEvent[] = [];
   try {
-    const timelineResponse = await octokit.issues.listEventsForTimeline({
+    const allTimelineEvents = await octokit.paginate(octokit.issues.listEventsForTimeline, {
       owner: repoOwner,
       repo: repoName,
       issue_number: pullRequestNumber,
       per_page: 100,
     });
-    timelineEvents = timelineResponse.data.filter((event: any) =>
-      ['head_ref_force_pushed', 'base_ref_changed', 'committed'].includes(event.event)
-    ) as TimelineEvent[];
+    timelineEvents = allTimelineEvents
+      .filter((event: any) => KEPT_TIMELINE_EVENTS.includes(event.event))
+      .map(toTimelineEvent);
   } catch (e) {
-    console.warn(`Could not fetch timeline events for PR #${pullRequestNumber}`, e);
+    console.warn(`Could not fetch timeline events for PR #${pullRequestNumber}`, describeError(e));
+    truncations.push({
+      pullRequestNumber,
+      resource: 'timeline',
+      fetched: 0,
+      reason: 'Timeline events could not be fetched',
+    });
   }
 
   // Fetch base commit for comparison
@@ -113,14 +182,61 @@ export async function getPullRequestData(
     });
     baseCommit = baseCommitData.data as any;
   } catch (e) {
-    console.warn(`Could not fetch base commit ${prDetailsResponse.data.base.sha}`, e);
+    console.warn(`Could not fetch base commit ${prDetailsResponse.data.base.sha}`, describeError(e));
   }
 
   return {
     prDetails: prDetailsResponse.data as any,
-    prCommits: prCommitsResponse.data as any,
+    prCommits,
     mergeCommit: mergeCommit,
     timelineEvents: timelineEvents,
     baseCommit: baseCommit || undefined,
+    truncations,
+  };
+}
+
+/**
+ * Reviews appear in the timeline with `submitted_at` and `user` rather than `created_at` and `actor`
+ */
+function toTimelineEvent(event: any): TimelineEvent {
+  if (event.event !== 'reviewed') return event as TimelineEvent;
+  return {
+    ...event,
+    created_at: event.submitted_at,
+    actor: event.user ? { login: event.user.login } : undefined,
+    state: event.state?.toLowerCase(),
   };
 }
+
+/**
+ * Fetches the commits between two SHAs by paging through the compare API.
+ * Used as a fallback when a PR has more commits than the PR commits endpoint or connection returns.
+ */
+export async function getCommitsViaCompare(
+  octokit: Octokit,
+  repoOwner: string,
+  repoName: string,
+  baseSha: string,
+  headSha: string
+): Promise<GitHubCommit[]> {
+  const commits: GitHubCommit[] = [];
+  const perPage = 100;
+
+  for (let page = 1; ; page++) {
+    const compareResponse = await octokit.repos.compareCommitsWithBasehead({
+      owner: repoOwner,
+      repo: repoName,
+      basehead: `${baseSha}...${headSha}`,
+      per_page: perPage,
+      page,
+    });
+
+    commits.push(...(compareResponse.data.commits as any));
+
+    if (compareResponse.data.commits.length < perPage || commits.length >= compareResponse.data.total_commits) {
+      break;
+    }
+  }
+
+  return commits;
+}
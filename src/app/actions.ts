@@ -1,17 +1,45 @@
 'use server';
 
 import { z } from 'zod';
-import { analyzeCommitLineage } from '@/ai/flows/analyze-commit-lineage';
+import { analyzeCommit, analyzeCommitLineage } from '@/ai/flows/analyze-commit-lineage';
+import { generateDoraReport } from '@/ai/flows/generate-dora-report';
+import { analyzeReleaseRange } from '@/ai/flows/analyze-release-range';
+import { parseRefRange } from '@/ai/lineage/release-range';
+import { canUseGitHubApp, GitHubAppInstallationError, GitHubAppOwnerNotAllowedError } from '@/ai/providers/github-app-auth';
+import { RateLimitExceededError } from '@/ai/providers/github-client';
+import { isAllowedGitHubBaseUrl } from '@/ai/providers/github-hosts';
 import { AnalysisDepthManager } from '@/ai/squash-detection/analysis-depth-manager';
-import type { AnalysisResult } from '@/lib/types';
+import { calculateLeadTimeForChanges } from '@/ai/metrics/lead-time';
+import { describeError, redactSecrets } from '@/lib/credentials';
+import { isSafeRef } from '@/lib/git-refs';
+import type { AnalysisResult, DoraReport, ReleaseAnalysis } from '@/lib/types';
 
 const formSchema = z.object({
-  githubToken: z.string().min(1, 'GitHub token is required.'),
+  provider: z.enum(['github', 'gitlab', 'local']).default('github'),
+  // GitHub Enterprise Server host; github.com when left out
+  baseUrl: z.string().optional().refine(isAllowedGitHubBaseUrl, 'GitHub host is not allowed. Add it to GITHUB_ENTERPRISE_HOSTS.'),
+  githubToken: z.string().default(''),
+  repositoryPath: z.string().optional(),
   repoOwner: z.string().min(1, 'Repository owner is required.'),
   repoName: z.string().min(1, 'Repository name is required.'),
-  pullRequestNumber: z.coerce.number().int().positive('PR number must be a positive integer.'),
+  // Start from a PR, or trace a commit back to its PR
+  lookup: z.enum(['pull-request', 'commit']).default('pull-request'),
+  pullRequestNumber: z.coerce.number().int().positive('PR number must be a positive integer.').optional(),
+  commitSha: z.string().regex(/^[0-9a-f]{7,40}$/i, 'Commit SHA must be 7 to 40 hexadecimal characters.').optional(),
   squashAnalysisDepth: z.enum(['shallow', 'deep']).default('shallow'),
   enableAdvancedDetection: z.coerce.boolean().default(true),
+}).refine((data) => data.provider === 'local' || data.githubToken.length > 0 || (data.provider === 'github' && canUseGitHubApp(data.repoOwner)), {
+  message: 'Access token is required.',
+  path: ['githubToken'],
+}).refine((data) => data.provider !== 'local' || !!data.repositoryPath, {
+  message: 'Repository path is required for local analysis.',
+  path: ['repositoryPath'],
+}).refine((data) => data.lookup !== 'pull-request' || !!data.pullRequestNumber, {
+  message: 'PR number is required.',
+  path: ['pullRequestNumber'],
+}).refine((data) => data.lookup !== 'commit' || !!data.commitSha, {
+  message: 'Commit SHA is required.',
+  path: ['commitSha'],
 });
 
 export async function analyzePullRequest(
@@ -20,10 +48,15 @@ export async function analyzePullRequest(
 ): Promise<{ result?: AnalysisResult; error?: string }> {
   try {
     const validatedFields = formSchema.safeParse({
-      githubToken: formData.get('githubToken'),
+      provider: formData.get('provider') || 'github',
+      baseUrl: formData.get('baseUrl') || undefined,
+      githubToken: formData.get('githubToken') || '',
+      repositoryPath: formData.get('repositoryPath') || undefined,
       repoOwner: formData.get('repoOwner'),
       repoName: formData.get('repoName'),
-      pullRequestNumber: formData.get('pullRequestNumber'),
+      lookup: formData.get('lookup') || 'pull-request',
+      pullRequestNumber: formData.get('pullRequestNumber') || undefined,
+      commitSha: formData.get('commitSha') || undefined,
       squashAnalysisDepth: formData.get('squashAnalysisDepth') || 'shallow',
       enableAdvancedDetection: formData.get('enableAdvancedDetection'),
     });
@@ -35,10 +68,15 @@ export async function analyzePullRequest(
     }
 
     const {
+      provider,
+      baseUrl,
       githubToken,
+      repositoryPath,
       repoOwner,
       repoName,
+      lookup,
       pullRequestNumber,
+      commitSha,
       squashAnalysisDepth,
       enableAdvancedDetection
     } = validatedFields.data;
@@ -48,30 +86,181 @@ export async function analyzePullRequest(
       ? AnalysisDepthManager.getComprehensiveConfig(squashAnalysisDepth)
       : AnalysisDepthManager.getPerformanceConfig(squashAnalysisDepth);
 
+    if (lookup === 'commit') {
+      const { commitLineage, commitOrigin, pullRequestNumber: landedIn } = await analyzeCommit({
+        repoOwner,
+        repoName,
+        sha: commitSha!,
+        githubToken,
+        provider,
+        baseUrl,
+        repositoryPath,
+        squashAnalysisConfig,
+      });
+      const leadTime = landedIn ? calculateLeadTimeForChanges(commitLineage, { pullRequestNumber: landedIn }) : null;
+
+      return { result: { commitLineage, leadTime, commitOrigin } };
+    }
+
     // This now calls the enhanced lineage builder with advanced squash detection.
     const commitLineage = await analyzeCommitLineage({
       repoOwner,
       repoName,
-      pullRequestNumber,
+      pullRequestNumber: pullRequestNumber!,
       githubToken,
+      provider,
+      baseUrl,
+      repositoryPath,
       squashAnalysisConfig,
     });
 
-    return { result: { commitLineage } };
+    const leadTime = calculateLeadTimeForChanges(commitLineage, { pullRequestNumber: pullRequestNumber! });
+
+    return { result: { commitLineage, leadTime } };
 
   } catch (error: any) {
-    console.error(error);
-    // Sanitize error message for user
-    let errorMessage = 'An unexpected error occurred.';
-    if (error.status === 404) {
-      errorMessage = "Repository or Pull Request not found. Please check your inputs.";
-    } else if (error.status === 401) {
-      errorMessage = "Invalid GitHub token. Please check your token and permissions.";
-    } else if (error.status === 403) {
-      errorMessage = "GitHub API rate limit exceeded. Please try again later or use a different token.";
-    } else if (error instanceof Error) {
-      errorMessage = error.message;
+    console.error(describeError(error));
+    return { error: toUserErrorMessage(error) };
+  }
+}
+
+const doraFormSchema = z.object({
+  provider: z.enum(['github', 'gitlab', 'local']).default('github'),
+  // GitHub Enterprise Server host; github.com when left out
+  baseUrl: z.string().optional().refine(isAllowedGitHubBaseUrl, 'GitHub host is not allowed. Add it to GITHUB_ENTERPRISE_HOSTS.'),
+  githubToken: z.string().default(''),
+  repositoryPath: z.string().optional(),
+  repoOwner: z.string().min(1, 'Repository owner is required.'),
+  repoName: z.string().min(1, 'Repository name is required.'),
+  branch: z.string().min(1, 'Branch is required.').refine(isSafeRef, 'Branch is not a valid ref.'),
+  since: z.string().date('Start date must be a valid date.'),
+  until: z.string().date('End date must be a valid date.'),
+}).refine((data) => data.provider === 'local' || data.githubToken.length > 0 || (data.provider === 'github' && canUseGitHubApp(data.repoOwner)), {
+  message: 'Access token is required.',
+  path: ['githubToken'],
+}).refine((data) => data.provider !== 'local' || !!data.repositoryPath, {
+  message: 'Repository path is required for local analysis.',
+  path: ['repositoryPath'],
+}).refine((data) => data.since <= data.until, {
+  message: 'Start date must not be after the end date.',
+  path: ['since'],
+});
+
+export async function generateBranchDoraReport(
+  prevState: any,
+  formData: FormData
+): Promise<{ report?: DoraReport; error?: string }> {
+  try {
+    const validatedFields = doraFormSchema.safeParse({
+      provider: formData.get('provider') || 'github',
+      baseUrl: formData.get('baseUrl') || undefined,
+      githubToken: formData.get('githubToken') || '',
+      repositoryPath: formData.get('repositoryPath') || undefined,
+      repoOwner: formData.get('repoOwner'),
+      repoName: formData.get('repoName'),
+      branch: formData.get('branch'),
+      since: formData.get('since'),
+      until: formData.get('until'),
+    });
+
+    if (!validatedFields.success) {
+      return {
+        error: validatedFields.error.errors.map((e) => e.message).join(', '),
+      };
     }
-    return { error: errorMessage };
+
+    const { since, until, ...fields } = validatedFields.data;
+
+    // Dates are whole UTC days, inclusive of the end date
+    const report = await generateDoraReport({
+      ...fields,
+      since: `${since}T00:00:00.000Z`,
+      until: `${until}T23:59:59.999Z`,
+      squashAnalysisConfig: AnalysisDepthManager.getPerformanceConfig('shallow'),
+    });
+
+    return { report };
+
+  } catch (error: any) {
+    console.error(describeError(error));
+    return { error: toUserErrorMessage(error) };
+  }
+}
+
+const releaseFormSchema = z.object({
+  provider: z.enum(['github', 'gitlab', 'local']).default('github'),
+  // GitHub Enterprise Server host; github.com when left out
+  baseUrl: z.string().optional().refine(isAllowedGitHubBaseUrl, 'GitHub host is not allowed. Add it to GITHUB_ENTERPRISE_HOSTS.'),
+  githubToken: z.string().default(''),
+  repositoryPath: z.string().optional(),
+  repoOwner: z.string().min(1, 'Repository owner is required.'),
+  repoName: z.string().min(1, 'Repository name is required.'),
+  range: z.string().refine((range) => parseRefRange(range) !== null, {
+    message: 'Range must be two refs separated by "..", such as v1.4.0..v1.5.0.',
+  }),
+}).refine((data) => data.provider === 'local' || data.githubToken.length > 0 || (data.provider === 'github' && canUseGitHubApp(data.repoOwner)), {
+  message: 'Access token is required.',
+  path: ['githubToken'],
+}).refine((data) => data.provider !== 'local' || !!data.repositoryPath, {
+  message: 'Repository path is required for local analysis.',
+  path: ['repositoryPath'],
+});
+
+export async function analyzeRelease(
+  prevState: any,
+  formData: FormData
+): Promise<{ release?: ReleaseAnalysis; error?: string }> {
+  try {
+    const validatedFields = releaseFormSchema.safeParse({
+      provider: formData.get('provider') || 'github',
+      baseUrl: formData.get('baseUrl') || undefined,
+      githubToken: formData.get('githubToken') || '',
+      repositoryPath: formData.get('repositoryPath') || undefined,
+      repoOwner: formData.get('repoOwner'),
+      repoName: formData.get('repoName'),
+      range: formData.get('range'),
+    });
+
+    if (!validatedFields.success) {
+      return {
+        error: validatedFields.error.errors.map((e) => e.message).join(', '),
+      };
+    }
+
+    const { range, ...fields } = validatedFields.data;
+
+    const release = await analyzeReleaseRange({
+      ...fields,
+      ...parseRefRange(range)!,
+      squashAnalysisConfig: AnalysisDepthManager.getPerformanceConfig('shallow'),
+    });
+
+    return { release };
+
+  } catch (error: any) {
+    console.error(describeError(error));
+    return { error: toUserErrorMessage(error) };
+  }
+}
+
+/**
+ * Sanitizes an error message for the user
+ */
+function toUserErrorMessage(error: any): string {
+  if (error instanceof RateLimitExceededError) {
+    return 'API rate limit exceeded' +
+      (error.resetAt ? ` until ${new Date(error.resetAt).toLocaleTimeString()}` : '') +
+      '. Please try again later or use a different token.';
+  } else if (error instanceof GitHubAppInstallationError || error instanceof GitHubAppOwnerNotAllowedError) {
+    return error.message;
+  } else if (error.status === 404) {
+    return "Repository or Pull Request not found. Please check your inputs.";
+  } else if (error.status === 401) {
+    return "Invalid access token. Please check your token and permissions.";
+  } else if (error.status === 403) {
+    return "API rate limit exceeded or access denied. Please try again later or use a different token.";
+  } else if (error instanceof Error) {
+    return redactSecrets(error.message);
   }
+  return 'An unexpected error occurred.';
 }
@@ -0,0 +1,228 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { analyzeBatch } from '@/ai/flows/analyze-batch';
+import { AnalysisDepthManager } from '@/ai/squash-detection/analysis-depth-manager';
+import { isAllowedGitHubBaseUrl } from '@/ai/providers/github-hosts';
+import { canUseGitHubApp } from '@/ai/providers/github-app-auth';
+import type { ApiCacheStats, BatchAnalysisResult } from '@/lib/types';
+import { getCorsHeaders } from '@/lib/cors';
+import { canUseNamedCredential, describeError, redactSecrets, resolveAccessToken } from '@/lib/credentials';
+
+export const runtime = 'edge';
+
+// Request validation schema
+const batchRequestSchema = z.object({
+  provider: z.enum(['github', 'gitlab']).default('github'),
+  baseUrl: z.string().optional().refine(isAllowedGitHubBaseUrl, 'GitHub host is not allowed. Add it to GITHUB_ENTERPRISE_HOSTS.'),
+  githubToken: z.string().default(''),
+  // ID of a token kept on the server in ANALYSIS_CREDENTIALS
+  credentialId: z.string().optional(),
+  items: z.array(z.object({
+    owner: z.string().min(1, 'Repository owner is required.'),
+    repo: z.string().min(1, 'Repository name is required.'),
+    pullRequestNumber: z.number().int().positive('PR number must be a positive integer.'),
+  })).min(1, 'At least one PR is required.').max(100, 'At most 100 PRs per batch.'),
+  squashAnalysisDepth: z.enum(['shallow', 'deep']).default('shallow'),
+  enableAdvancedDetection: z.boolean().default(true),
+  concurrency: z.number().int().min(1).max(8).default(4),
+  productionEnvironments: z.array(z.string().min(1)).optional(),
+  includeReleases: z.boolean().default(true),
+}).refine((data) => data.githubToken.length > 0 || (data.provider === 'github' && data.items.every((item) => canUseGitHubApp(item.owner))), {
+  message: 'Access token is required.',
+  path: ['githubToken'],
+}).refine((data) => data.credentialId === undefined || canUseNamedCredential(data.credentialId, data.items.map((item) => item.owner)), {
+  message: 'Unknown credential, or one that may not be used for this repository owner.',
+  path: ['credentialId'],
+});
+
+// Response types
+interface SuccessResponse {
+  success: true;
+  data: BatchAnalysisResult;
+  metadata?: {
+    processingTime: number;
+    timestamp: string;
+    version: string;
+    // API responses served from the response cache
+    cache: ApiCacheStats;
+    succeeded: number;
+    failed: number;
+  };
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  details?: any;
+  timestamp: string;
+}
+
+// Methods answered to cross-origin requests from CORS_ALLOWED_ORIGINS
+const CORS_METHODS = 'GET, POST, OPTIONS';
+
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(request, CORS_METHODS),
+  });
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<SuccessResponse | ErrorResponse>> {
+  const corsHeaders = getCorsHeaders(request, CORS_METHODS);
+  const startTime = Date.now();
+
+  // Kept for redacting the token from errors
+  let accessToken = '';
+
+  try {
+    const body = await request.json();
+    accessToken = resolveAccessToken(request, body);
+
+    const validatedFields = batchRequestSchema.safeParse({ ...body, githubToken: accessToken });
+
+    if (!validatedFields.success) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: 'Validation failed',
+        details: validatedFields.error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
+
+    const {
+      provider,
+      baseUrl,
+      githubToken,
+      items,
+      squashAnalysisDepth,
+      enableAdvancedDetection,
+      concurrency,
+      productionEnvironments,
+      includeReleases
+    } = validatedFields.data;
+
+    const squashAnalysisConfig = enableAdvancedDetection
+      ? AnalysisDepthManager.getComprehensiveConfig(squashAnalysisDepth)
+      : AnalysisDepthManager.getPerformanceConfig(squashAnalysisDepth);
+
+    console.log(`API: Starting ${provider} batch analysis of ${items.length} PR(s), ${concurrency} at a time`);
+
+    const cacheStats: ApiCacheStats = { hits: 0, revalidated: 0, misses: 0 };
+    const result = await analyzeBatch({
+      provider,
+      baseUrl,
+      githubToken,
+      pullRequests: items,
+      squashAnalysisConfig,
+      productionEnvironments,
+      includeReleases,
+      concurrency,
+      // Stops the remaining analyses when the client goes away
+      signal: request.signal,
+      cacheStats,
+    });
+
+    const processingTime = Date.now() - startTime;
+    const failed = result.items.filter(item => item.error).length;
+
+    const successResponse: SuccessResponse = {
+      success: true,
+      data: result,
+      metadata: {
+        processingTime,
+        timestamp: new Date().toISOString(),
+        version: '2.0.0',
+        cache: cacheStats,
+        succeeded: result.items.length - failed,
+        failed,
+      },
+    };
+
+    console.log(`API: Batch analysis completed in ${processingTime}ms, ${failed} failed, ` +
+      `${result.cache.hits} cache hit(s)`);
+
+    return NextResponse.json(successResponse, {
+      status: 200,
+      headers: corsHeaders,
+    });
+
+  } catch (error: any) {
+    const processingTime = Date.now() - startTime;
+
+    console.error('API: Batch analysis failed:', describeError(error, [accessToken]));
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: redactSecrets(error.message || 'Internal server error', [accessToken]),
+      details: process.env.NODE_ENV === 'development' ? {
+        stack: describeError(error, [accessToken]),
+        processingTime,
+      } : undefined,
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: corsHeaders,
+    });
+  }
+}
+
+// GET method for endpoint documentation
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const corsHeaders = getCorsHeaders(request, CORS_METHODS);
+  const documentation = {
+    endpoint: '/api/analyze/batch',
+    method: 'POST',
+    description: 'Analyze several pull requests, possibly across repositories, and merge their lineages into one graph',
+    version: '2.0.0',
+    features: [
+      'One API client and response cache shared by every analysis in the batch',
+      'Bounded concurrency',
+      'Per-PR results, with the error and HTTP status of any PR whose analysis failed',
+      'Merged graph with commits deduplicated by SHA and PR references qualified as owner/repo#number',
+    ],
+    requestSchema: {
+      provider: 'string (optional) - "github" or "gitlab", defaults to "github"',
+      baseUrl: 'string (optional) - GitHub Enterprise Server host or API URL, such as "github.example.com"; must be listed in GITHUB_ENTERPRISE_HOSTS',
+      githubToken: 'string (deprecated) - GitHub personal access token or GitLab access token; send it in an "Authorization: Bearer" header instead',
+      credentialId: 'string (optional) - ID of an access token kept on the server in ANALYSIS_CREDENTIALS',
+      items: 'array (required) - 1-100 of { owner, repo, pullRequestNumber }',
+      squashAnalysisDepth: 'string (optional) - "shallow" or "deep", defaults to "shallow"',
+      enableAdvancedDetection: 'boolean (optional) - Enable advanced detection algorithms, defaults to true',
+      concurrency: 'number (optional) - Analyses run at the same time, 1-8, defaults to 4',
+      productionEnvironments: 'string[] (optional) - Deployment environments treated as production, defaults to PRODUCTION_ENVIRONMENTS or ["production", "prod"]',
+      includeReleases: 'boolean (optional) - Count published releases as production deployments, defaults to true',
+    },
+    responseSchema: {
+      success: 'boolean - Indicates if the request was successful',
+      data: 'BatchAnalysisResult (on success) - items (per-PR result or error), graph (merged lineage) and cache (hits, misses)',
+      error: 'string (on error) - Error message',
+      details: 'any (on error, dev only) - Additional error details',
+      metadata: 'object (on success) - Processing metadata with succeeded and failed counts; cache counts API responses served from the response cache (hits, revalidated, misses)',
+    },
+    examples: {
+      request: {
+        githubToken: 'ghp_...',
+        items: [
+          { owner: 'vercel', repo: 'next.js', pullRequestNumber: 12345 },
+          { owner: 'vercel', repo: 'next.js', pullRequestNumber: 12346 },
+        ],
+        concurrency: 2,
+      },
+    },
+  };
+
+  return NextResponse.json(documentation, {
+    status: 200,
+    headers: corsHeaders,
+  });
+}
@@ -0,0 +1,232 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { analyzeCommit } from '@/ai/flows/analyze-commit-lineage';
+import { AnalysisDepthManager } from '@/ai/squash-detection/analysis-depth-manager';
+import { calculateLeadTimeForChanges } from '@/ai/metrics/lead-time';
+import { isAllowedGitHubBaseUrl } from '@/ai/providers/github-hosts';
+import { canUseGitHubApp } from '@/ai/providers/github-app-auth';
+import type { AnalysisResult, ApiCacheStats } from '@/lib/types';
+import { getCorsHeaders } from '@/lib/cors';
+import { canUseNamedCredential, describeError, redactSecrets, resolveAccessToken } from '@/lib/credentials';
+
+export const runtime = 'edge';
+
+// Request validation schema
+const commitRequestSchema = z.object({
+  provider: z.enum(['github', 'gitlab']).default('github'),
+  baseUrl: z.string().optional().refine(isAllowedGitHubBaseUrl, 'GitHub host is not allowed. Add it to GITHUB_ENTERPRISE_HOSTS.'),
+  githubToken: z.string().default(''),
+  // ID of a token kept on the server in ANALYSIS_CREDENTIALS
+  credentialId: z.string().optional(),
+  repoOwner: z.string().min(1, 'Repository owner is required.'),
+  repoName: z.string().min(1, 'Repository name is required.'),
+  sha: z.string().regex(/^[0-9a-f]{7,40}$/i, 'Commit SHA must be 7 to 40 hexadecimal characters.'),
+  squashAnalysisDepth: z.enum(['shallow', 'deep']).default('shallow'),
+  enableAdvancedDetection: z.boolean().default(true),
+  productionEnvironments: z.array(z.string().min(1)).optional(),
+  includeReleases: z.boolean().default(true),
+}).refine((data) => data.githubToken.length > 0 || (data.provider === 'github' && canUseGitHubApp(data.repoOwner)), {
+  message: 'Access token is required.',
+  path: ['githubToken'],
+}).refine((data) => data.credentialId === undefined || canUseNamedCredential(data.credentialId, [data.repoOwner]), {
+  message: 'Unknown credential, or one that may not be used for this repository owner.',
+  path: ['credentialId'],
+});
+
+// Response types
+interface SuccessResponse {
+  success: true;
+  data: AnalysisResult;
+  metadata?: {
+    processingTime: number;
+    timestamp: string;
+    version: string;
+    // API responses served from the response cache
+    cache: ApiCacheStats;
+  };
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  details?: any;
+  timestamp: string;
+}
+
+// Methods answered to cross-origin requests from CORS_ALLOWED_ORIGINS
+const CORS_METHODS = 'GET, POST, OPTIONS';
+
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(request, CORS_METHODS),
+  });
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<SuccessResponse | ErrorResponse>> {
+  const corsHeaders = getCorsHeaders(request, CORS_METHODS);
+  const startTime = Date.now();
+
+  // Kept for redacting the token from errors
+  let accessToken = '';
+
+  try {
+    const body = await request.json();
+    accessToken = resolveAccessToken(request, body);
+
+    const validatedFields = commitRequestSchema.safeParse({ ...body, githubToken: accessToken });
+
+    if (!validatedFields.success) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: 'Validation failed',
+        details: validatedFields.error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
+
+    const {
+      provider,
+      baseUrl,
+      githubToken,
+      repoOwner,
+      repoName,
+      sha,
+      squashAnalysisDepth,
+      enableAdvancedDetection,
+      productionEnvironments,
+      includeReleases
+    } = validatedFields.data;
+
+    const squashAnalysisConfig = enableAdvancedDetection
+      ? AnalysisDepthManager.getComprehensiveConfig(squashAnalysisDepth)
+      : AnalysisDepthManager.getPerformanceConfig(squashAnalysisDepth);
+
+    console.log(`API: Starting ${provider} commit lookup for ${repoOwner}/${repoName}@${sha}`);
+
+    const cacheStats: ApiCacheStats = { hits: 0, revalidated: 0, misses: 0 };
+    const { commitLineage, commitOrigin, pullRequestNumber } = await analyzeCommit({
+      provider,
+      baseUrl,
+      githubToken,
+      repoOwner,
+      repoName,
+      sha,
+      squashAnalysisConfig,
+      productionEnvironments,
+      includeReleases,
+      signal: request.signal,
+      cacheStats,
+    });
+    const leadTime = pullRequestNumber
+      ? calculateLeadTimeForChanges(commitLineage, { pullRequestNumber })
+      : null;
+
+    const processingTime = Date.now() - startTime;
+
+    const successResponse: SuccessResponse = {
+      success: true,
+      data: { commitLineage, leadTime, commitOrigin },
+      metadata: {
+        processingTime,
+        timestamp: new Date().toISOString(),
+        version: '2.0.0',
+        cache: cacheStats,
+      },
+    };
+
+    console.log(`API: Commit lookup completed in ${processingTime}ms (${commitOrigin.kind})`);
+
+    return NextResponse.json(successResponse, {
+      status: 200,
+      headers: corsHeaders,
+    });
+
+  } catch (error: any) {
+    const processingTime = Date.now() - startTime;
+
+    console.error('API: Commit lookup failed:', describeError(error, [accessToken]));
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: redactSecrets(error.message || 'Internal server error', [accessToken]),
+      details: process.env.NODE_ENV === 'development' ? {
+        stack: describeError(error, [accessToken]),
+        processingTime,
+      } : undefined,
+      timestamp: new Date().toISOString(),
+    };
+
+    let statusCode = 500;
+    if (error.message?.includes('Not Found') || error.message?.includes('404')) {
+      statusCode = 404;
+    } else if (error.message?.includes('Unauthorized') || error.message?.includes('401')) {
+      statusCode = 401;
+    } else if (error.message?.includes('rate limit') || error.message?.includes('403')) {
+      statusCode = 429;
+    }
+
+    return NextResponse.json(errorResponse, {
+      status: statusCode,
+      headers: corsHeaders,
+    });
+  }
+}
+
+// GET method for endpoint documentation
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const corsHeaders = getCorsHeaders(request, CORS_METHODS);
+  const documentation = {
+    endpoint: '/api/analyze/commit',
+    method: 'POST',
+    description: 'Trace a commit SHA back to the PR it came from and return the lineage centred on it',
+    version: '2.0.0',
+    features: [
+      'PRs associated with the commit, or with the commit it was cherry-picked from',
+      'Whether the commit is a squash, rebased copy, cherry-pick, merge commit or original PR commit',
+      'Lineage narrowed to the PRs and commits connected to the commit',
+      'Lead Time for Changes of the PR that landed the commit',
+    ],
+    requestSchema: {
+      provider: 'string (optional) - "github" or "gitlab", defaults to "github"',
+      baseUrl: 'string (optional) - GitHub Enterprise Server host or API URL, such as "github.example.com"; must be listed in GITHUB_ENTERPRISE_HOSTS',
+      githubToken: 'string (deprecated) - GitHub personal access token or GitLab access token; send it in an "Authorization: Bearer" header instead',
+      credentialId: 'string (optional) - ID of an access token kept on the server in ANALYSIS_CREDENTIALS',
+      repoOwner: 'string (required) - Repository owner/organization name (GitLab group path)',
+      repoName: 'string (required) - Repository name',
+      sha: 'string (required) - Full or abbreviated (7+ characters) commit SHA',
+      squashAnalysisDepth: 'string (optional) - "shallow" or "deep", defaults to "shallow"',
+      enableAdvancedDetection: 'boolean (optional) - Enable advanced detection algorithms, defaults to true',
+      productionEnvironments: 'string[] (optional) - Deployment environments treated as production, defaults to PRODUCTION_ENVIRONMENTS or ["production", "prod"]',
+      includeReleases: 'boolean (optional) - Count published releases as production deployments, defaults to true',
+    },
+    responseSchema: {
+      success: 'boolean - Indicates if the request was successful',
+      data: 'AnalysisResult (on success) - commitLineage centred on the commit, leadTime and commitOrigin',
+      error: 'string (on error) - Error message',
+      details: 'any (on error, dev only) - Additional error details',
+      metadata: 'object (on success) - Processing metadata; cache counts API responses served from the response cache (hits, revalidated, misses)',
+    },
+    examples: {
+      request: {
+        githubToken: 'ghp_...',
+        repoOwner: 'vercel',
+        repoName: 'next.js',
+        sha: 'a1b2c3d',
+      },
+    },
+  };
+
+  return NextResponse.json(documentation, {
+    status: 200,
+    headers: corsHeaders,
+  });
+}
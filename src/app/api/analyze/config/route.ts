@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { AnalysisDepthManager } from '@/ai/squash-detection/analysis-depth-manager';
+import { describeError, redactSecrets } from '@/lib/credentials';
 
 export const runtime = 'edge';
 
@@ -62,9 +63,9 @@ export async function GET(): Promise<NextResponse> {
           description: 'Analyzes differences between commit author and committer',
         },
         commitTreeStructure: {
-          name: 'Commit Tree Structure Analysis',
-          confidence: 0.8,
-          description: 'Analyzes git tree structure and parent relationships',
+          name: 'Tree Equality Analysis',
+          confidence: 0.9,
+          description: 'Checks that the merge commit tree equals its parent plus the PR net diff (exact squash, squash with conflict resolution, or unrelated)',
         },
         githubEventsApi: {
           name: 'GitHub Events API Integration',
@@ -76,6 +77,11 @@ export async function GET(): Promise<NextResponse> {
           confidence: 0.6,
           description: 'Compares merge commit changes with combined PR commit changes',
         },
+        patchId: {
+          name: 'Patch-ID Matching',
+          confidence: 0.95,
+          description: 'Matches commits by content (git patch-id) to prove unchanged, rebased or squashed commits',
+        },
         legacyHeuristics: {
           name: 'Legacy Heuristics',
           confidence: 0.5,
@@ -132,13 +138,22 @@ export async function GET(): Promise<NextResponse> {
       errorHandling: {
         circuitBreaker: true,
         retryAttempts: 3,
-        backoffStrategy: 'exponential',
+        backoffStrategy: 'exponential with full jitter (1s base, 30s cap)',
+        retriedErrors: ['5xx responses', 'network errors', 'secondary rate limits', 'responses with retry-after'],
+        rateLimitWaitSeconds: 60,
         gracefulDegradation: true,
       },
 
+      // GitHub response cache
+      responseCache: {
+        immutable: 'Commits, git objects and comparisons by SHA are served from the cache without a request',
+        conditional: 'Other GET responses are revalidated with If-None-Match; a 304 does not count against the rate limit',
+        storage: 'In memory by default, files under GITHUB_RESPONSE_CACHE_DIR, or the GITHUB_RESPONSE_CACHE_KV namespace',
+      },
+
       // API usage guidelines
       usage: {
-        rateLimit: 'No specific rate limit, but GitHub API limits apply',
+        rateLimit: 'No specific rate limit, but GitHub API limits apply; analyses slow down as the limit runs low and stop with a partial result when it runs out',
         authentication: 'GitHub personal access token required',
         permissions: 'Repository read access required',
         bestPractices: [
@@ -154,7 +169,7 @@ export async function GET(): Promise<NextResponse> {
         success: {
           success: true,
           data: 'AnalysisResult object',
-          metadata: 'Processing metadata including timing and version',
+          metadata: 'Processing metadata including timing, version and response cache hits',
         },
         error: {
           success: false,
@@ -171,14 +186,14 @@ export async function GET(): Promise<NextResponse> {
     });
 
   } catch (error: any) {
-    console.error('Config retrieval failed:', error);
+    console.error('Config retrieval failed:', describeError(error));
 
     const errorResponse = {
       success: false,
-      error: error.message || 'Failed to retrieve configuration',
+      error: redactSecrets(error.message || 'Failed to retrieve configuration'),
       timestamp: new Date().toISOString(),
       details: process.env.NODE_ENV === 'development' ? {
-        stack: error.stack,
+        stack: describeError(error),
       } : undefined,
     };
 
@@ -0,0 +1,225 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { z } from 'zod';
+import { cancelAnalysisJob, createAnalysisJob } from '@/ai/jobs/analysis-jobs';
+import { getAnalysisJobStore } from '@/ai/jobs/job-store';
+import { AnalysisDepthManager } from '@/ai/squash-detection/analysis-depth-manager';
+import { isAllowedGitHubBaseUrl } from '@/ai/providers/github-hosts';
+import { canUseGitHubApp } from '@/ai/providers/github-app-auth';
+import type { AnalysisJob } from '@/lib/types';
+import { getCorsHeaders } from '@/lib/cors';
+import { canUseNamedCredential, describeError, redactSecrets, resolveAccessToken } from '@/lib/credentials';
+
+// Creating, polling and cancelling jobs share this one route: every edge route runs in
+// its own sandbox, so a job kept in memory is only visible to the route that created it
+export const runtime = 'edge';
+
+type RouteContext = { params: Promise<{ id?: string[] }> };
+
+// Request validation schema, the same as /api/analyze
+const analyzeRequestSchema = z.object({
+  provider: z.enum(['github', 'gitlab']).default('github'),
+  baseUrl: z.string().optional().refine(isAllowedGitHubBaseUrl, 'GitHub host is not allowed. Add it to GITHUB_ENTERPRISE_HOSTS.'),
+  githubToken: z.string().default(''),
+  // ID of a token kept on the server in ANALYSIS_CREDENTIALS
+  credentialId: z.string().optional(),
+  repoOwner: z.string().min(1, 'Repository owner is required.'),
+  repoName: z.string().min(1, 'Repository name is required.'),
+  pullRequestNumber: z.number().int().positive('PR number must be a positive integer.'),
+  squashAnalysisDepth: z.enum(['shallow', 'deep']).default('shallow'),
+  enableAdvancedDetection: z.boolean().default(true),
+  deployedAt: z.string().datetime({ offset: true }).optional(),
+  productionEnvironments: z.array(z.string().min(1)).optional(),
+  includeReleases: z.boolean().default(true),
+}).refine((data) => data.githubToken.length > 0 || (data.provider === 'github' && canUseGitHubApp(data.repoOwner)), {
+  message: 'Access token is required.',
+  path: ['githubToken'],
+}).refine((data) => data.credentialId === undefined || canUseNamedCredential(data.credentialId, [data.repoOwner]), {
+  message: 'Unknown credential, or one that may not be used for this repository owner.',
+  path: ['credentialId'],
+});
+
+// Response types
+interface SuccessResponse {
+  success: true;
+  data: AnalysisJob;
+  metadata?: {
+    timestamp: string;
+    version: string;
+  };
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  details?: any;
+  timestamp: string;
+}
+
+// Methods answered to cross-origin requests from CORS_ALLOWED_ORIGINS
+const CORS_METHODS = 'GET, POST, DELETE, OPTIONS';
+
+// The job ID from /api/analyze/jobs/:id, undefined for /api/analyze/jobs itself
+async function getJobId({ params }: RouteContext): Promise<string | undefined> {
+  const { id } = await params;
+  return id && id.length > 0 ? id.join('/') : undefined;
+}
+
+function jobResponse(request: NextRequest, job: AnalysisJob): NextResponse<SuccessResponse> {
+  return NextResponse.json({
+    success: true as const,
+    data: job,
+    metadata: {
+      timestamp: new Date().toISOString(),
+      version: '2.0.0',
+    },
+  }, {
+    status: 200,
+    headers: getCorsHeaders(request, CORS_METHODS),
+  });
+}
+
+function errorResponse(request: NextRequest, error: string, status: number): NextResponse<ErrorResponse> {
+  return NextResponse.json({
+    success: false as const,
+    error,
+    timestamp: new Date().toISOString(),
+  }, {
+    status,
+    headers: getCorsHeaders(request, CORS_METHODS),
+  });
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(request, CORS_METHODS),
+  });
+}
+
+export async function POST(request: NextRequest, context: RouteContext): Promise<NextResponse<SuccessResponse | ErrorResponse>> {
+  if (await getJobId(context) !== undefined) {
+    return errorResponse(request, 'Jobs are created with POST /api/analyze/jobs', 405);
+  }
+
+  const corsHeaders = getCorsHeaders(request, CORS_METHODS);
+  // Kept for redacting the token from errors
+  let accessToken = '';
+
+  try {
+    const body = await request.json();
+    accessToken = resolveAccessToken(request, body);
+
+    const validatedFields = analyzeRequestSchema.safeParse({ ...body, githubToken: accessToken });
+
+    if (!validatedFields.success) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: 'Validation failed',
+        details: validatedFields.error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
+
+    const { squashAnalysisDepth, enableAdvancedDetection, ...input } = validatedFields.data;
+
+    const squashAnalysisConfig = enableAdvancedDetection
+      ? AnalysisDepthManager.getComprehensiveConfig(squashAnalysisDepth)
+      : AnalysisDepthManager.getPerformanceConfig(squashAnalysisDepth);
+
+    const { job, run } = await createAnalysisJob({ ...input, squashAnalysisConfig });
+
+    // The analysis continues after the response, so the client polls instead of holding the request open
+    after(run);
+
+    console.log(`API: Queued analysis job ${job.id} for ${input.repoOwner}/${input.repoName}#${input.pullRequestNumber}`);
+
+    const successResponse: SuccessResponse = {
+      success: true,
+      data: job,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        version: '2.0.0',
+      },
+    };
+
+    return NextResponse.json(successResponse, {
+      status: 202,
+      headers: { ...corsHeaders, Location: `/api/analyze/jobs/${job.id}` },
+    });
+
+  } catch (error: any) {
+    console.error('API: Could not create analysis job:', describeError(error, [accessToken]));
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: redactSecrets(error.message || 'Internal server error', [accessToken]),
+      details: process.env.NODE_ENV === 'development' ? { stack: describeError(error, [accessToken]) } : undefined,
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: corsHeaders,
+    });
+  }
+}
+
+// GET /api/analyze/jobs/:id returns the job, GET /api/analyze/jobs the endpoint documentation
+export async function GET(request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  const id = await getJobId(context);
+  if (id !== undefined) {
+    const job = await getAnalysisJobStore().get(id);
+    return job ? jobResponse(request, job) : errorResponse(request, `Analysis job ${id} not found`, 404);
+  }
+
+  const corsHeaders = getCorsHeaders(request, CORS_METHODS);
+  const documentation = {
+    endpoint: '/api/analyze/jobs',
+    method: 'POST',
+    description: 'Start an analysis in the background and poll for its result',
+    version: '2.0.0',
+    requestSchema: 'Same as POST /api/analyze',
+    responseSchema: {
+      success: 'boolean - Indicates if the job was created',
+      data: 'AnalysisJob (on success) - The queued job; poll GET /api/analyze/jobs/:id for its state',
+      error: 'string (on error) - Error message',
+    },
+    jobEndpoints: {
+      'GET /api/analyze/jobs/:id': 'Job state, progress, partial result while running and result once succeeded',
+      'DELETE /api/analyze/jobs/:id': 'Cancel a queued or running job; its partial result is kept',
+    },
+    jobStates: ['queued', 'running', 'succeeded', 'failed', 'cancelled'],
+  };
+
+  return NextResponse.json(documentation, {
+    status: 200,
+    headers: corsHeaders,
+  });
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext): Promise<NextResponse<SuccessResponse | ErrorResponse>> {
+  const id = await getJobId(context);
+  if (id === undefined) {
+    return errorResponse(request, 'Jobs are cancelled with DELETE /api/analyze/jobs/:id', 405);
+  }
+
+  const job = await cancelAnalysisJob(id);
+
+  if (!job) {
+    return errorResponse(request, `Analysis job ${id} not found`, 404);
+  }
+  if (job.state !== 'cancelled') {
+    return errorResponse(request, `Analysis job ${id} already ${job.state}`, 409);
+  }
+
+  console.log(`API: Cancelled analysis job ${id}`);
+  return jobResponse(request, job);
+}
@@ -0,0 +1,46 @@
+const { describe, it, expect } = require('@jest/globals');
+
+jest.mock('@/ai/flows/analyze-commit-lineage', () => ({ analyzeCommitLineage: jest.fn() }));
+jest.mock('next/server', () => ({ ...jest.requireActual('next/server'), after: jest.fn() }));
+
+const { NextRequest, after } = require('next/server');
+const { analyzeCommitLineage } = require('@/ai/flows/analyze-commit-lineage');
+const { DELETE, GET, POST } = require('../[[...id]]/route');
+
+const url = 'http://localhost/api/analyze/jobs';
+const context = (id) => ({ params: Promise.resolve({ id }) });
+
+describe('Analysis jobs route', () => {
+  it('should poll and cancel a job through the route that created it', async () => {
+    analyzeCommitLineage.mockImplementation(({ signal }) => new Promise((resolve, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason));
+    }));
+
+    const created = await POST(new NextRequest(url, {
+      method: 'POST',
+      body: JSON.stringify({ githubToken: 'token', repoOwner: 'acme', repoName: 'app', pullRequestNumber: 7 }),
+    }), context(undefined));
+    expect(created.status).toBe(202);
+
+    const { data: job } = await created.json();
+    expect(created.headers.get('Location')).toBe(`/api/analyze/jobs/${job.id}`);
+    expect(after).toHaveBeenCalledTimes(1);
+
+    const running = after.mock.calls[0][0]();
+    const polled = await GET(new NextRequest(`${url}/${job.id}`), context([job.id]));
+    expect(polled.status).toBe(200);
+    expect((await polled.json()).data.id).toBe(job.id);
+
+    const cancelled = await DELETE(new NextRequest(`${url}/${job.id}`, { method: 'DELETE' }), context([job.id]));
+    expect((await cancelled.json()).data.state).toBe('cancelled');
+    await running;
+  });
+
+  it('should answer unknown jobs with 404 and the bare path with the documentation', async () => {
+    expect((await GET(new NextRequest(`${url}/missing`), context(['missing']))).status).toBe(404);
+    expect((await DELETE(new NextRequest(`${url}/missing`, { method: 'DELETE' }), context(['missing']))).status).toBe(404);
+
+    const documentation = await (await GET(new NextRequest(url), context(undefined))).json();
+    expect(documentation.endpoint).toBe('/api/analyze/jobs');
+  });
+});
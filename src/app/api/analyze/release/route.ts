@@ -0,0 +1,231 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { analyzeReleaseRange } from '@/ai/flows/analyze-release-range';
+import { AnalysisDepthManager } from '@/ai/squash-detection/analysis-depth-manager';
+import { parseRefRange } from '@/ai/lineage/release-range';
+import { isAllowedGitHubBaseUrl } from '@/ai/providers/github-hosts';
+import { canUseGitHubApp } from '@/ai/providers/github-app-auth';
+import type { ApiCacheStats, ReleaseAnalysis } from '@/lib/types';
+import { getCorsHeaders } from '@/lib/cors';
+import { canUseNamedCredential, describeError, redactSecrets, resolveAccessToken } from '@/lib/credentials';
+
+export const runtime = 'edge';
+
+// Request validation schema
+const releaseRequestSchema = z.object({
+  provider: z.enum(['github', 'gitlab']).default('github'),
+  baseUrl: z.string().optional().refine(isAllowedGitHubBaseUrl, 'GitHub host is not allowed. Add it to GITHUB_ENTERPRISE_HOSTS.'),
+  githubToken: z.string().default(''),
+  // ID of a token kept on the server in ANALYSIS_CREDENTIALS
+  credentialId: z.string().optional(),
+  repoOwner: z.string().min(1, 'Repository owner is required.'),
+  repoName: z.string().min(1, 'Repository name is required.'),
+  range: z.string().refine((range) => parseRefRange(range) !== null, {
+    message: 'Range must be two refs separated by "..", such as v1.4.0..v1.5.0.',
+  }),
+  squashAnalysisDepth: z.enum(['shallow', 'deep']).default('shallow'),
+  enableAdvancedDetection: z.boolean().default(true),
+  maxPullRequests: z.number().int().positive().max(250).default(100),
+}).refine((data) => data.githubToken.length > 0 || (data.provider === 'github' && canUseGitHubApp(data.repoOwner)), {
+  message: 'Access token is required.',
+  path: ['githubToken'],
+}).refine((data) => data.credentialId === undefined || canUseNamedCredential(data.credentialId, [data.repoOwner]), {
+  message: 'Unknown credential, or one that may not be used for this repository owner.',
+  path: ['credentialId'],
+});
+
+// Response types
+interface SuccessResponse {
+  success: true;
+  data: ReleaseAnalysis;
+  metadata?: {
+    processingTime: number;
+    timestamp: string;
+    version: string;
+    // API responses served from the response cache
+    cache: ApiCacheStats;
+  };
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  details?: any;
+  timestamp: string;
+}
+
+// Methods answered to cross-origin requests from CORS_ALLOWED_ORIGINS
+const CORS_METHODS = 'GET, POST, OPTIONS';
+
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(request, CORS_METHODS),
+  });
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<SuccessResponse | ErrorResponse>> {
+  const corsHeaders = getCorsHeaders(request, CORS_METHODS);
+  const startTime = Date.now();
+
+  // Kept for redacting the token from errors
+  let accessToken = '';
+
+  try {
+    const body = await request.json();
+    accessToken = resolveAccessToken(request, body);
+
+    const validatedFields = releaseRequestSchema.safeParse({ ...body, githubToken: accessToken });
+
+    if (!validatedFields.success) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: 'Validation failed',
+        details: validatedFields.error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
+
+    const {
+      provider,
+      baseUrl,
+      githubToken,
+      repoOwner,
+      repoName,
+      range,
+      squashAnalysisDepth,
+      enableAdvancedDetection,
+      maxPullRequests
+    } = validatedFields.data;
+    const { base, head } = parseRefRange(range)!;
+
+    const squashAnalysisConfig = enableAdvancedDetection
+      ? AnalysisDepthManager.getComprehensiveConfig(squashAnalysisDepth)
+      : AnalysisDepthManager.getPerformanceConfig(squashAnalysisDepth);
+
+    console.log(`API: Starting ${provider} release analysis for ${repoOwner}/${repoName} ${base}..${head}`);
+
+    const cacheStats: ApiCacheStats = { hits: 0, revalidated: 0, misses: 0 };
+    const release = await analyzeReleaseRange({
+      provider,
+      baseUrl,
+      githubToken,
+      repoOwner,
+      repoName,
+      base,
+      head,
+      squashAnalysisConfig,
+      maxPullRequests,
+      // Stops the remaining analyses when the client goes away
+      signal: request.signal,
+      cacheStats,
+    });
+
+    const processingTime = Date.now() - startTime;
+
+    const successResponse: SuccessResponse = {
+      success: true,
+      data: release,
+      metadata: {
+        processingTime,
+        timestamp: new Date().toISOString(),
+        version: '2.0.0',
+        cache: cacheStats,
+      },
+    };
+
+    console.log(`API: Release analysis over ${release.changelog.length} PR(s) completed in ${processingTime}ms`);
+
+    return NextResponse.json(successResponse, {
+      status: 200,
+      headers: corsHeaders,
+    });
+
+  } catch (error: any) {
+    const processingTime = Date.now() - startTime;
+
+    console.error('API: Release analysis failed:', describeError(error, [accessToken]));
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: redactSecrets(error.message || 'Internal server error', [accessToken]),
+      details: process.env.NODE_ENV === 'development' ? {
+        stack: describeError(error, [accessToken]),
+        processingTime,
+      } : undefined,
+      timestamp: new Date().toISOString(),
+    };
+
+    let statusCode = 500;
+    if (error.message?.includes('Not Found') || error.message?.includes('404')) {
+      statusCode = 404;
+    } else if (error.message?.includes('Unauthorized') || error.message?.includes('401')) {
+      statusCode = 401;
+    } else if (error.message?.includes('rate limit') || error.message?.includes('403')) {
+      statusCode = 429;
+    }
+
+    return NextResponse.json(errorResponse, {
+      status: statusCode,
+      headers: corsHeaders,
+    });
+  }
+}
+
+// GET method for endpoint documentation
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const corsHeaders = getCorsHeaders(request, CORS_METHODS);
+  const documentation = {
+    endpoint: '/api/analyze/release',
+    method: 'POST',
+    description: 'Analyze every PR that landed between two refs and build a changelog grouped by PR',
+    version: '2.0.0',
+    features: [
+      'First-parent history between two tags, branches or SHAs',
+      'Each commit mapped to the PR it landed with',
+      'Squash and rebase detection on every PR',
+      'Changelog grouped by PR with squashed commits expanded to the original commits',
+      'Merged lineage of the whole release',
+    ],
+    requestSchema: {
+      provider: 'string (optional) - "github" or "gitlab", defaults to "github"',
+      baseUrl: 'string (optional) - GitHub Enterprise Server host or API URL, such as "github.example.com"; must be listed in GITHUB_ENTERPRISE_HOSTS',
+      githubToken: 'string (deprecated) - GitHub personal access token or GitLab access token; send it in an "Authorization: Bearer" header instead',
+      credentialId: 'string (optional) - ID of an access token kept on the server in ANALYSIS_CREDENTIALS',
+      repoOwner: 'string (required) - Repository owner/organization name (GitLab group path)',
+      repoName: 'string (required) - Repository name',
+      range: 'string (required) - Two refs separated by "..", such as "v1.4.0..v1.5.0"',
+      squashAnalysisDepth: 'string (optional) - "shallow" or "deep", defaults to "shallow"',
+      enableAdvancedDetection: 'boolean (optional) - Enable advanced detection algorithms, defaults to true',
+      maxPullRequests: 'number (optional) - Most PRs to analyze, 1-250, defaults to 100',
+    },
+    responseSchema: {
+      success: 'boolean - Indicates if the request was successful',
+      data: 'ReleaseAnalysis (on success) - Changelog, first-parent commits, direct commits and merged lineage',
+      error: 'string (on error) - Error message',
+      details: 'any (on error, dev only) - Additional error details',
+      metadata: 'object (on success) - Processing metadata; cache counts API responses served from the response cache (hits, revalidated, misses)',
+    },
+    examples: {
+      request: {
+        githubToken: 'ghp_...',
+        repoOwner: 'vercel',
+        repoName: 'next.js',
+        range: 'v14.0.0..v14.0.1',
+      },
+    },
+  };
+
+  return NextResponse.json(documentation, {
+    status: 200,
+    headers: corsHeaders,
+  });
+}
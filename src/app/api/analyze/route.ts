@@ -2,18 +2,36 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { analyzeCommitLineage } from '@/ai/flows/analyze-commit-lineage';
 import { AnalysisDepthManager } from '@/ai/squash-detection/analysis-depth-manager';
-import type { AnalysisResult } from '@/lib/types';
+import { calculateLeadTimeForChanges } from '@/ai/metrics/lead-time';
+import { isAllowedGitHubBaseUrl } from '@/ai/providers/github-hosts';
+import { canUseGitHubApp } from '@/ai/providers/github-app-auth';
+import type { AnalysisResult, ApiCacheStats } from '@/lib/types';
+import { getCorsHeaders } from '@/lib/cors';
+import { canUseNamedCredential, describeError, redactSecrets, resolveAccessToken } from '@/lib/credentials';
 
 export const runtime = 'edge';
 
 // Request validation schema
 const analyzeRequestSchema = z.object({
-  githubToken: z.string().min(1, 'GitHub token is required.'),
+  provider: z.enum(['github', 'gitlab']).default('github'),
+  baseUrl: z.string().optional().refine(isAllowedGitHubBaseUrl, 'GitHub host is not allowed. Add it to GITHUB_ENTERPRISE_HOSTS.'),
+  githubToken: z.string().default(''),
+  // ID of a token kept on the server in ANALYSIS_CREDENTIALS
+  credentialId: z.string().optional(),
   repoOwner: z.string().min(1, 'Repository owner is required.'),
   repoName: z.string().min(1, 'Repository name is required.'),
   pullRequestNumber: z.number().int().positive('PR number must be a positive integer.'),
   squashAnalysisDepth: z.enum(['shallow', 'deep']).default('shallow'),
   enableAdvancedDetection: z.boolean().default(true),
+  deployedAt: z.string().datetime({ offset: true }).optional(),
+  productionEnvironments: z.array(z.string().min(1)).optional(),
+  includeReleases: z.boolean().default(true),
+}).refine((data) => data.githubToken.length > 0 || (data.provider === 'github' && canUseGitHubApp(data.repoOwner)), {
+  message: 'Access token is required.',
+  path: ['githubToken'],
+}).refine((data) => data.credentialId === undefined || canUseNamedCredential(data.credentialId, [data.repoOwner]), {
+  message: 'Unknown credential, or one that may not be used for this repository owner.',
+  path: ['credentialId'],
 });
 
 // Response types
@@ -24,6 +42,8 @@ interface SuccessResponse {
     processingTime: number;
     timestamp: string;
     version: string;
+    // API responses served from the response cache
+    cache: ApiCacheStats;
   };
 }
 
@@ -34,28 +54,29 @@ interface ErrorResponse {
   timestamp: string;
 }
 
-// CORS headers for cross-origin requests
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-};
+// Methods answered to cross-origin requests from CORS_ALLOWED_ORIGINS
+const CORS_METHODS = 'GET, POST, PUT, DELETE, OPTIONS';
 
-export async function OPTIONS() {
+export async function OPTIONS(request: NextRequest) {
   return new NextResponse(null, {
     status: 200,
-    headers: corsHeaders,
+    headers: getCorsHeaders(request, CORS_METHODS),
   });
 }
 
 export async function POST(request: NextRequest): Promise<NextResponse<SuccessResponse | ErrorResponse>> {
+  const corsHeaders = getCorsHeaders(request, CORS_METHODS);
   const startTime = Date.now();
 
+  // Kept for redacting the token from errors
+  let accessToken = '';
+
   try {
     // Parse and validate request body
     const body = await request.json();
+    accessToken = resolveAccessToken(request, body);
 
-    const validatedFields = analyzeRequestSchema.safeParse(body);
+    const validatedFields = analyzeRequestSchema.safeParse({ ...body, githubToken: accessToken });
 
     if (!validatedFields.success) {
       const errorResponse: ErrorResponse = {
@@ -75,12 +96,17 @@ export async function POST(request: NextRequest): Promise<NextResponse<SuccessRe
     }
 
     const {
+      provider,
+      baseUrl,
       githubToken,
       repoOwner,
       repoName,
       pullRequestNumber,
       squashAnalysisDepth,
-      enableAdvancedDetection
+      enableAdvancedDetection,
+      deployedAt,
+      productionEnvironments,
+      includeReleases
     } = validatedFields.data;
 
     // Create squash analysis configuration
@@ -88,29 +114,39 @@ export async function POST(request: NextRequest): Promise<NextResponse<SuccessRe
       ? AnalysisDepthManager.getComprehensiveConfig(squashAnalysisDepth)
       : AnalysisDepthManager.getPerformanceConfig(squashAnalysisDepth);
 
-    console.log(`API: Starting analysis for ${repoOwner}/${repoName}#${pullRequestNumber} with ${squashAnalysisDepth} depth`);
+    console.log(`API: Starting ${provider} analysis for ${repoOwner}/${repoName}#${pullRequestNumber} with ${squashAnalysisDepth} depth`);
 
     // Perform the analysis
+    const cacheStats: ApiCacheStats = { hits: 0, revalidated: 0, misses: 0 };
     const result = await analyzeCommitLineage({
+      provider,
+      baseUrl,
       githubToken,
       repoOwner,
       repoName,
       pullRequestNumber,
-      squashAnalysisConfig
+      squashAnalysisConfig,
+      productionEnvironments,
+      includeReleases,
+      cacheStats
     });
 
+    const leadTime = calculateLeadTimeForChanges(result, { pullRequestNumber, deployedAt });
+
     const processingTime = Date.now() - startTime;
 
     const successResponse: SuccessResponse = {
       success: true,
       data: {
         commitLineage: result,
+        leadTime,
         ...result
       },
       metadata: {
         processingTime,
         timestamp: new Date().toISOString(),
         version: '2.0.0', // Enhanced version with advanced detection
+        cache: cacheStats,
       },
     };
 
@@ -124,13 +160,13 @@ export async function POST(request: NextRequest): Promise<NextResponse<SuccessRe
   } catch (error: any) {
     const processingTime = Date.now() - startTime;
 
-    console.error('API: Analysis failed:', error);
+    console.error('API: Analysis failed:', describeError(error, [accessToken]));
 
     const errorResponse: ErrorResponse = {
       success: false,
-      error: error.message || 'Internal server error',
+      error: redactSecrets(error.message || 'Internal server error', [accessToken]),
       details: process.env.NODE_ENV === 'development' ? {
-        stack: error.stack,
+        stack: describeError(error, [accessToken]),
         processingTime,
       } : undefined,
       timestamp: new Date().toISOString(),
@@ -154,11 +190,12 @@ export async function POST(request: NextRequest): Promise<NextResponse<SuccessRe
 }
 
 // GET method for endpoint documentation
-export async function GET(): Promise<NextResponse> {
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const corsHeaders = getCorsHeaders(request, CORS_METHODS);
   const documentation = {
     endpoint: '/api/analyze',
     method: 'POST',
-    description: 'Analyze commit lineage and detect squash commits in a GitHub pull request',
+    description: 'Analyze commit lineage and detect squash commits in a GitHub pull request or GitLab merge request',
     version: '2.0.0',
     features: [
       'Advanced squash detection with 6+ algorithms',
@@ -166,25 +203,36 @@ export async function GET(): Promise<NextResponse> {
       'Cross-validation with confidence scoring',
       'Circuit breaker protection and timeout handling',
       'Comprehensive error handling',
+      'Lead Time for Changes (DORA) with per-stage breakdown',
+      'First production deployment or release containing the PR',
     ],
+    authentication: 'An "Authorization: Bearer <token>" header, else the credentialId of a token kept on the server, else the server\'s GitHub App (GitHub only)',
     requestSchema: {
-      githubToken: 'string (required) - GitHub personal access token',
-      repoOwner: 'string (required) - Repository owner/organization name',
+      provider: 'string (optional) - "github" or "gitlab", defaults to "github"',
+      baseUrl: 'string (optional) - GitHub Enterprise Server host or API URL, such as "github.example.com"; must be listed in GITHUB_ENTERPRISE_HOSTS',
+      githubToken: 'string (deprecated) - GitHub personal access token or GitLab access token; send it in an "Authorization: Bearer" header instead',
+      credentialId: 'string (optional) - ID of an access token kept on the server in ANALYSIS_CREDENTIALS',
+      repoOwner: 'string (required) - Repository owner/organization name (GitLab group path)',
       repoName: 'string (required) - Repository name',
-      pullRequestNumber: 'number (required) - Pull request number',
+      pullRequestNumber: 'number (required) - Pull request number (GitLab merge request IID)',
       squashAnalysisDepth: 'string (optional) - "shallow" or "deep", defaults to "shallow"',
       enableAdvancedDetection: 'boolean (optional) - Enable advanced detection algorithms, defaults to true',
+      deployedAt: 'string (optional) - ISO 8601 time the change reached production; overrides the deployment found by the analysis',
+      productionEnvironments: 'string[] (optional) - Deployment environments treated as production, defaults to PRODUCTION_ENVIRONMENTS or ["production", "prod"]',
+      includeReleases: 'boolean (optional) - Count published releases as production deployments, defaults to true',
     },
     responseSchema: {
       success: 'boolean - Indicates if the request was successful',
       data: 'AnalysisResult (on success) - Complete analysis results',
       error: 'string (on error) - Error message',
       details: 'any (on error, dev only) - Additional error details',
-      metadata: 'object (on success) - Processing metadata',
+      metadata: 'object (on success) - Processing metadata; cache counts API responses served from the response cache (hits, revalidated, misses)',
     },
     examples: {
+      headers: {
+        Authorization: 'Bearer ghp_...',
+      },
       request: {
-        githubToken: 'ghp_...',
         repoOwner: 'vercel',
         repoName: 'next.js',
         pullRequestNumber: 12345,
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { AnalysisDepthManager } from '@/ai/squash-detection/analysis-depth-manager';
+import { describeError, redactSecrets } from '@/lib/credentials';
 
 export const runtime = 'edge';
 
@@ -74,6 +75,7 @@ export async function GET(): Promise<NextResponse> {
         commitTreeStructure: true,
         githubEventsApi: true,
         diffAnalysis: true,
+        patchId: true,
         legacyHeuristics: true,
       },
       configuration: {
@@ -91,14 +93,14 @@ export async function GET(): Promise<NextResponse> {
     });
 
   } catch (error: any) {
-    console.error('Status check failed:', error);
+    console.error('Status check failed:', describeError(error));
 
     const errorResponse = {
       status: 'unhealthy',
       timestamp: new Date().toISOString(),
-      error: error.message || 'Status check failed',
+      error: redactSecrets(error.message || 'Status check failed'),
       details: process.env.NODE_ENV === 'development' ? {
-        stack: error.stack,
+        stack: describeError(error),
       } : undefined,
     };
 
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { analyzeCommitLineage } from '@/ai/flows/analyze-commit-lineage';
+import { AnalysisDepthManager } from '@/ai/squash-detection/analysis-depth-manager';
+import { calculateLeadTimeForChanges } from '@/ai/metrics/lead-time';
+import { isAllowedGitHubBaseUrl } from '@/ai/providers/github-hosts';
+import { canUseGitHubApp } from '@/ai/providers/github-app-auth';
+import { encodeServerSentEvent } from '@/lib/sse';
+import type { AnalysisResult } from '@/lib/types';
+import { getCorsHeaders } from '@/lib/cors';
+import { canUseNamedCredential, describeError, redactSecrets, resolveAccessToken } from '@/lib/credentials';
+
+export const runtime = 'edge';
+
+// Request validation schema, the same as /api/analyze
+const analyzeRequestSchema = z.object({
+  provider: z.enum(['github', 'gitlab']).default('github'),
+  baseUrl: z.string().optional().refine(isAllowedGitHubBaseUrl, 'GitHub host is not allowed. Add it to GITHUB_ENTERPRISE_HOSTS.'),
+  githubToken: z.string().default(''),
+  // ID of a token kept on the server in ANALYSIS_CREDENTIALS
+  credentialId: z.string().optional(),
+  repoOwner: z.string().min(1, 'Repository owner is required.'),
+  repoName: z.string().min(1, 'Repository name is required.'),
+  pullRequestNumber: z.number().int().positive('PR number must be a positive integer.'),
+  squashAnalysisDepth: z.enum(['shallow', 'deep']).default('shallow'),
+  enableAdvancedDetection: z.boolean().default(true),
+  deployedAt: z.string().datetime({ offset: true }).optional(),
+  productionEnvironments: z.array(z.string().min(1)).optional(),
+  includeReleases: z.boolean().default(true),
+}).refine((data) => data.githubToken.length > 0 || (data.provider === 'github' && canUseGitHubApp(data.repoOwner)), {
+  message: 'Access token is required.',
+  path: ['githubToken'],
+}).refine((data) => data.credentialId === undefined || canUseNamedCredential(data.credentialId, [data.repoOwner]), {
+  message: 'Unknown credential, or one that may not be used for this repository owner.',
+  path: ['credentialId'],
+});
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  details?: any;
+  timestamp: string;
+}
+
+// Methods answered to cross-origin requests from CORS_ALLOWED_ORIGINS
+const CORS_METHODS = 'GET, POST, OPTIONS';
+
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(request, CORS_METHODS),
+  });
+}
+
+export async function POST(request: NextRequest): Promise<Response> {
+  const corsHeaders = getCorsHeaders(request, CORS_METHODS);
+  const body = await request.json().catch(() => null);
+  const accessToken = resolveAccessToken(request, body);
+  const validatedFields = analyzeRequestSchema.safeParse({ ...body, githubToken: accessToken });
+
+  if (!validatedFields.success) {
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Validation failed',
+      details: validatedFields.error.errors.map((e) => ({
+        field: e.path.join('.'),
+        message: e.message,
+      })),
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 400,
+      headers: corsHeaders,
+    });
+  }
+
+  const { squashAnalysisDepth, enableAdvancedDetection, deployedAt, ...input } = validatedFields.data;
+  const squashAnalysisConfig = enableAdvancedDetection
+    ? AnalysisDepthManager.getComprehensiveConfig(squashAnalysisDepth)
+    : AnalysisDepthManager.getPerformanceConfig(squashAnalysisDepth);
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        try {
+          controller.enqueue(encoder.encode(encodeServerSentEvent(event, data)));
+        } catch {
+          // The client disconnected; the request signal stops the analysis
+        }
+      };
+
+      try {
+        const commitLineage = await analyzeCommitLineage({
+          ...input,
+          squashAnalysisConfig,
+          // Stops the analysis when the client goes away
+          signal: request.signal,
+          onEvent: (event) => send(event.type, { ...event, timestamp: new Date().toISOString() }),
+        });
+        const leadTime = calculateLeadTimeForChanges(commitLineage, {
+          pullRequestNumber: input.pullRequestNumber,
+          deployedAt,
+        });
+
+        const result: AnalysisResult = { commitLineage, leadTime };
+        send('result', result);
+      } catch (error: any) {
+        if (!request.signal.aborted) {
+          console.error('API: Streamed analysis failed:', describeError(error, [accessToken]));
+          send('error', { error: redactSecrets(error.message || 'Internal server error', [accessToken]), timestamp: new Date().toISOString() });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a disconnect
+        }
+      }
+    },
+  });
+
+  console.log(`API: Streaming ${input.provider} analysis for ${input.repoOwner}/${input.repoName}#${input.pullRequestNumber}`);
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+// GET method for endpoint documentation
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const corsHeaders = getCorsHeaders(request, CORS_METHODS);
+  const documentation = {
+    endpoint: '/api/analyze/stream',
+    method: 'POST',
+    description: 'Run an analysis and stream its progress as server-sent events',
+    version: '2.0.0',
+    requestSchema: 'Same as POST /api/analyze',
+    events: {
+      'pr-fetched': 'A PR was fetched: pullRequestNumber, title, commits, parentPullRequestNumber',
+      'pr-queued': 'A nested or backported PR was queued: pullRequestNumber, parentPullRequestNumber, reason',
+      'detector-started': 'A squash detector started on a commit: detector, commitSha',
+      'detector-finished': 'A squash detector finished: detector, commitSha, durationMs, isSquash, confidence',
+      'rate-limit': 'API rate limit left after a request: rateLimit.limit, rateLimit.remaining, rateLimit.resetAt',
+      'progress': 'Phase progress: progress.phase, pullRequestsAnalyzed, pullRequestsQueued, commitsFound',
+      'issue': 'A step failed or returned incomplete data: severity ("warning" or "error"), issue.stage, issue.message, issue.pullRequestNumber, issue.commitSha, issue.status, issue.retryable',
+      'result': 'The final AnalysisResult; the stream ends after it',
+      'error': 'The analysis failed; the stream ends after it',
+    },
+    note: 'Every event carries a timestamp. EventSource only supports GET, so read the response body with fetch.',
+  };
+
+  return NextResponse.json(documentation, {
+    status: 200,
+    headers: corsHeaders,
+  });
+}
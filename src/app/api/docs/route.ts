@@ -29,18 +29,38 @@ export async function GET(): Promise<NextResponse> {
         description: 'Analyze commit lineage and detect squash commits in a GitHub pull request',
         headers: {
           'Content-Type': 'application/json',
+          Authorization: 'Bearer <token> (optional with credentialId or a GitHub App)',
         },
         requestBody: {
           required: true,
           schema: {
             type: 'object',
             properties: {
+              provider: {
+                type: 'string',
+                required: false,
+                default: 'github',
+                enum: ['github', 'gitlab'],
+                description: 'Source control provider hosting the repository',
+              },
+              baseUrl: {
+                type: 'string',
+                required: false,
+                description: 'GitHub Enterprise Server host or API URL; must be listed in GITHUB_ENTERPRISE_HOSTS (default: github.com)',
+                example: 'github.example.com',
+              },
               githubToken: {
                 type: 'string',
-                required: true,
-                description: 'GitHub personal access token with repository read access',
+                required: false,
+                description: 'Deprecated: send the token in an "Authorization: Bearer" header. GitHub personal access token or GitLab access token with repository read access; may be left out for GitHub when the server runs as a GitHub App',
                 example: 'ghp_...',
               },
+              credentialId: {
+                type: 'string',
+                required: false,
+                description: 'ID of an access token kept on the server in ANALYSIS_CREDENTIALS; only usable for the repository owners the credential lists',
+                example: 'platform-team',
+              },
               repoOwner: {
                 type: 'string',
                 required: true,
@@ -72,6 +92,24 @@ export async function GET(): Promise<NextResponse> {
                 default: true,
                 description: 'Enable advanced detection algorithms for higher accuracy',
               },
+              deployedAt: {
+                type: 'string',
+                format: 'date-time',
+                required: false,
+                description: 'Time the change reached production; overrides the deployment found by the analysis',
+              },
+              productionEnvironments: {
+                type: 'array',
+                items: { type: 'string' },
+                required: false,
+                description: 'Deployment environments treated as production (default: PRODUCTION_ENVIRONMENTS or production, prod)',
+              },
+              includeReleases: {
+                type: 'boolean',
+                required: false,
+                default: true,
+                description: 'Count published releases as production deployments',
+              },
             },
           },
         },
@@ -121,6 +159,102 @@ export async function GET(): Promise<NextResponse> {
         },
       },
 
+      '/api/analyze/jobs': {
+        method: 'POST',
+        description: 'Start a background analysis; takes the same body as /api/analyze and responds 202 with the queued job',
+        responses: {
+          202: { description: 'Job created; poll /api/analyze/jobs/:id' },
+          400: { description: 'Validation error' },
+        },
+      },
+
+      '/api/analyze/jobs/:id': {
+        methods: ['GET', 'DELETE'],
+        description: 'GET returns the job state, progress, partial result and result; DELETE cancels a queued or running job',
+        responses: {
+          200: { description: 'The analysis job' },
+          404: { description: 'Job not found or expired' },
+          409: { description: 'DELETE on a job that already finished' },
+        },
+      },
+
+      '/api/analyze/stream': {
+        method: 'POST',
+        description: 'Run an analysis and stream progress as server-sent events; takes the same body as /api/analyze',
+        events: ['pr-fetched', 'pr-queued', 'detector-started', 'detector-finished', 'rate-limit', 'progress', 'result', 'error'],
+        responses: {
+          200: { description: 'text/event-stream ending with a result or error event' },
+          400: { description: 'Validation error' },
+        },
+      },
+
+      '/api/analyze/batch': {
+        method: 'POST',
+        description: 'Analyze up to 100 PRs with a shared client and cache and merge their lineages into one graph',
+        responses: {
+          200: { description: 'Per-PR results or errors, the merged graph and cache statistics' },
+          400: { description: 'Validation error' },
+        },
+      },
+
+      '/api/analyze/release': {
+        method: 'POST',
+        description: 'Analyze every PR between two refs (range "v1.4.0..v1.5.0") and build a changelog grouped by PR',
+        responses: {
+          200: { description: 'Changelog with squashed commits expanded, direct commits and the merged lineage' },
+          400: { description: 'Validation error' },
+          404: { description: 'Repository or ref not found' },
+        },
+      },
+
+      '/api/analyze/commit': {
+        method: 'POST',
+        description: 'Trace a commit SHA to the PR it came from; takes the /api/analyze body with sha instead of pullRequestNumber',
+        responses: {
+          200: { description: 'Lineage centred on the commit, with commitOrigin and the lead time of its PR' },
+          400: { description: 'Validation error' },
+          404: { description: 'Repository or commit not found' },
+        },
+      },
+
+      '/api/metrics/dora': {
+        method: 'POST',
+        description: 'DORA metrics for every PR merged into a branch within a date range',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: 'Bearer <token> (optional with credentialId or a GitHub App)',
+        },
+        requestBody: {
+          required: true,
+          schema: {
+            type: 'object',
+            properties: {
+              provider: { type: 'string', required: false, default: 'github', enum: ['github', 'gitlab'] },
+              baseUrl: { type: 'string', required: false, description: 'GitHub Enterprise Server host (default: github.com)' },
+              githubToken: { type: 'string', required: false },
+              credentialId: { type: 'string', required: false },
+              repoOwner: { type: 'string', required: true },
+              repoName: { type: 'string', required: true },
+              branch: { type: 'string', required: true, description: 'Branch the PRs were merged into', example: 'main' },
+              since: { type: 'string', format: 'date-time', required: true, description: 'Start of the reporting period' },
+              until: { type: 'string', format: 'date-time', required: false, description: 'End of the reporting period (default: now)' },
+              squashAnalysisDepth: { type: 'string', required: false, default: 'shallow', enum: ['shallow', 'deep'] },
+              productionEnvironments: { type: 'array', items: { type: 'string' }, required: false },
+              includeReleases: { type: 'boolean', required: false, default: true },
+              maxPullRequests: { type: 'number', required: false, default: 50, description: 'Most PRs to analyze (1-200)' },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Report generated; data is a DoraReport with metrics and per-PR results',
+          },
+          400: {
+            description: 'Validation error',
+          },
+        },
+      },
+
       '/api/analyze/status': {
         method: 'GET',
         description: 'Check service health and status',
@@ -192,9 +326,9 @@ export async function GET(): Promise<NextResponse> {
           url: '/api/analyze',
           headers: {
             'Content-Type': 'application/json',
+            Authorization: 'Bearer ghp_...',
           },
           body: {
-            githubToken: 'ghp_...',
             repoOwner: 'vercel',
             repoName: 'next.js',
             pullRequestNumber: 12345,
@@ -208,9 +342,9 @@ export async function GET(): Promise<NextResponse> {
           url: '/api/analyze',
           headers: {
             'Content-Type': 'application/json',
+            Authorization: 'Bearer ghp_...',
           },
           body: {
-            githubToken: 'ghp_...',
             repoOwner: 'facebook',
             repoName: 'react',
             pullRequestNumber: 67890,
@@ -229,18 +363,25 @@ export async function GET(): Promise<NextResponse> {
       circuitBreakerProtection: 'Automatic failure protection and graceful degradation',
       timeoutHandling: 'Request timeout protection to prevent hanging',
       comprehensiveErrorHandling: 'Detailed error responses with appropriate HTTP status codes',
-      corsSupport: 'Cross-origin resource sharing for web applications',
+      corsSupport: 'Cross-origin requests from the origins listed in CORS_ALLOWED_ORIGINS',
+      leadTimeForChanges: 'DORA Lead Time for Changes from the first original commit, with a per-stage breakdown',
+      deploymentTracking: 'First successful production deployment or release that contains the merge commit',
+      progressStreaming: 'Server-sent progress events: PRs fetched and queued, detectors run, rate limit left',
+      analysisJobs: 'Background analysis with polling, progress, partial results and cancellation',
+      cycleTime: 'Per-PR cycle-time stages: coding, pickup, review and merge',
+      doraReports: 'Deployment frequency, lead time percentiles, change failure rate and time to restore for a branch over a date range',
     },
 
     algorithms: {
-      count: 7,
+      count: 8,
       list: [
         'GitHub API Merge Strategy Analysis (95% confidence)',
         'Commit Timestamp Pattern Analysis (70% confidence)',
         'Author vs Committer Discrepancy Detection (60% confidence)',
-        'Commit Tree Structure Analysis (80% confidence)',
+        'Tree Equality Analysis (90% confidence)',
         'GitHub Events API Integration (95% confidence)',
         'Diff Analysis (60% confidence)',
+        'Patch-ID Matching (95% confidence)',
         'Legacy Heuristics (50% confidence)',
       ],
     },
@@ -249,7 +390,7 @@ export async function GET(): Promise<NextResponse> {
       type: 'GitHub Personal Access Token',
       required: true,
       permissions: ['Repository read access'],
-      note: 'Token should be included in the githubToken field of the request body',
+      note: 'Send the token in an "Authorization: Bearer" header, or name a token kept on the server in ANALYSIS_CREDENTIALS with credentialId. The githubToken body field still works but is deprecated. Servers set up as a GitHub App (GITHUB_APP_ID, GITHUB_APP_PRIVATE_KEY) analyze GitHub repositories of the owners in GITHUB_APP_ALLOWED_OWNERS without one, using an installation token of the repository owner',
     },
 
     rateLimit: {
@@ -0,0 +1,239 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { generateDoraReport } from '@/ai/flows/generate-dora-report';
+import { AnalysisDepthManager } from '@/ai/squash-detection/analysis-depth-manager';
+import { isAllowedGitHubBaseUrl } from '@/ai/providers/github-hosts';
+import { canUseGitHubApp } from '@/ai/providers/github-app-auth';
+import type { ApiCacheStats, DoraReport } from '@/lib/types';
+import { getCorsHeaders } from '@/lib/cors';
+import { canUseNamedCredential, describeError, redactSecrets, resolveAccessToken } from '@/lib/credentials';
+import { isSafeRef } from '@/lib/git-refs';
+
+export const runtime = 'edge';
+
+// Request validation schema
+const doraRequestSchema = z.object({
+  provider: z.enum(['github', 'gitlab']).default('github'),
+  baseUrl: z.string().optional().refine(isAllowedGitHubBaseUrl, 'GitHub host is not allowed. Add it to GITHUB_ENTERPRISE_HOSTS.'),
+  githubToken: z.string().default(''),
+  // ID of a token kept on the server in ANALYSIS_CREDENTIALS
+  credentialId: z.string().optional(),
+  repoOwner: z.string().min(1, 'Repository owner is required.'),
+  repoName: z.string().min(1, 'Repository name is required.'),
+  branch: z.string().min(1, 'Branch is required.').refine(isSafeRef, 'Branch is not a valid ref.'),
+  since: z.string().datetime({ offset: true }),
+  until: z.string().datetime({ offset: true }).optional(),
+  squashAnalysisDepth: z.enum(['shallow', 'deep']).default('shallow'),
+  productionEnvironments: z.array(z.string().min(1)).optional(),
+  includeReleases: z.boolean().default(true),
+  maxPullRequests: z.number().int().positive().max(200).default(50),
+}).refine((data) => !data.until || new Date(data.since) < new Date(data.until), {
+  message: 'since must be before until.',
+  path: ['since'],
+}).refine((data) => data.githubToken.length > 0 || (data.provider === 'github' && canUseGitHubApp(data.repoOwner)), {
+  message: 'Access token is required.',
+  path: ['githubToken'],
+}).refine((data) => data.credentialId === undefined || canUseNamedCredential(data.credentialId, [data.repoOwner]), {
+  message: 'Unknown credential, or one that may not be used for this repository owner.',
+  path: ['credentialId'],
+});
+
+// Response types
+interface SuccessResponse {
+  success: true;
+  data: DoraReport;
+  metadata?: {
+    processingTime: number;
+    timestamp: string;
+    version: string;
+    // API responses served from the response cache
+    cache: ApiCacheStats;
+  };
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+  details?: any;
+  timestamp: string;
+}
+
+// Methods answered to cross-origin requests from CORS_ALLOWED_ORIGINS
+const CORS_METHODS = 'GET, POST, OPTIONS';
+
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: getCorsHeaders(request, CORS_METHODS),
+  });
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<SuccessResponse | ErrorResponse>> {
+  const corsHeaders = getCorsHeaders(request, CORS_METHODS);
+  const startTime = Date.now();
+
+  // Kept for redacting the token from errors
+  let accessToken = '';
+
+  try {
+    const body = await request.json();
+    accessToken = resolveAccessToken(request, body);
+
+    const validatedFields = doraRequestSchema.safeParse({ ...body, githubToken: accessToken });
+
+    if (!validatedFields.success) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: 'Validation failed',
+        details: validatedFields.error.errors.map((e) => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+        timestamp: new Date().toISOString(),
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: corsHeaders,
+      });
+    }
+
+    const {
+      provider,
+      baseUrl,
+      githubToken,
+      repoOwner,
+      repoName,
+      branch,
+      since,
+      until = new Date().toISOString(),
+      squashAnalysisDepth,
+      productionEnvironments,
+      includeReleases,
+      maxPullRequests
+    } = validatedFields.data;
+
+    console.log(`API: Starting DORA report for ${repoOwner}/${repoName}@${branch} from ${since} to ${until}`);
+
+    const cacheStats: ApiCacheStats = { hits: 0, revalidated: 0, misses: 0 };
+    const report = await generateDoraReport({
+      provider,
+      baseUrl,
+      githubToken,
+      repoOwner,
+      repoName,
+      branch,
+      since,
+      until,
+      squashAnalysisConfig: AnalysisDepthManager.getPerformanceConfig(squashAnalysisDepth),
+      productionEnvironments,
+      includeReleases,
+      maxPullRequests,
+      cacheStats
+    });
+
+    const processingTime = Date.now() - startTime;
+
+    const successResponse: SuccessResponse = {
+      success: true,
+      data: report,
+      metadata: {
+        processingTime,
+        timestamp: new Date().toISOString(),
+        version: '2.0.0',
+        cache: cacheStats,
+      },
+    };
+
+    console.log(`API: DORA report over ${report.pullRequests.length} PR(s) completed in ${processingTime}ms`);
+
+    return NextResponse.json(successResponse, {
+      status: 200,
+      headers: corsHeaders,
+    });
+
+  } catch (error: any) {
+    const processingTime = Date.now() - startTime;
+
+    console.error('API: DORA report failed:', describeError(error, [accessToken]));
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: redactSecrets(error.message || 'Internal server error', [accessToken]),
+      details: process.env.NODE_ENV === 'development' ? {
+        stack: describeError(error, [accessToken]),
+        processingTime,
+      } : undefined,
+      timestamp: new Date().toISOString(),
+    };
+
+    let statusCode = 500;
+    if (error.message?.includes('Not Found') || error.message?.includes('404')) {
+      statusCode = 404;
+    } else if (error.message?.includes('Unauthorized') || error.message?.includes('401')) {
+      statusCode = 401;
+    } else if (error.message?.includes('rate limit') || error.message?.includes('403')) {
+      statusCode = 429;
+    }
+
+    return NextResponse.json(errorResponse, {
+      status: statusCode,
+      headers: corsHeaders,
+    });
+  }
+}
+
+// GET method for endpoint documentation
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const corsHeaders = getCorsHeaders(request, CORS_METHODS);
+  const documentation = {
+    endpoint: '/api/metrics/dora',
+    method: 'POST',
+    description: 'DORA metrics for every PR merged into a branch within a date range',
+    version: '2.0.0',
+    features: [
+      'Deployment frequency from production deployments and releases in the range',
+      'Lead Time for Changes percentiles (p50, p75, p90) across the merged PRs',
+      'Change failure rate from reverted PRs and hotfix PRs',
+      'Time to restore from revert and hotfix timings',
+      'Per-PR results, with the error of any PR whose analysis failed',
+    ],
+    requestSchema: {
+      provider: 'string (optional) - "github" or "gitlab", defaults to "github"',
+      baseUrl: 'string (optional) - GitHub Enterprise Server host or API URL, such as "github.example.com"; must be listed in GITHUB_ENTERPRISE_HOSTS',
+      githubToken: 'string (deprecated) - GitHub personal access token or GitLab access token; send it in an "Authorization: Bearer" header instead',
+      credentialId: 'string (optional) - ID of an access token kept on the server in ANALYSIS_CREDENTIALS',
+      repoOwner: 'string (required) - Repository owner/organization name (GitLab group path)',
+      repoName: 'string (required) - Repository name',
+      branch: 'string (required) - Branch the PRs were merged into',
+      since: 'string (required) - ISO 8601 start of the reporting period',
+      until: 'string (optional) - ISO 8601 end of the reporting period, defaults to now',
+      squashAnalysisDepth: 'string (optional) - "shallow" or "deep", defaults to "shallow"',
+      productionEnvironments: 'string[] (optional) - Deployment environments treated as production, defaults to PRODUCTION_ENVIRONMENTS or ["production", "prod"]',
+      includeReleases: 'boolean (optional) - Count published releases as production deployments, defaults to true',
+      maxPullRequests: 'number (optional) - Most PRs to analyze, 1-200, defaults to 50',
+    },
+    responseSchema: {
+      success: 'boolean - Indicates if the request was successful',
+      data: 'DoraReport (on success) - Aggregated metrics and per-PR results',
+      error: 'string (on error) - Error message',
+      details: 'any (on error, dev only) - Additional error details',
+      metadata: 'object (on success) - Processing metadata; cache counts API responses served from the response cache (hits, revalidated, misses)',
+    },
+    examples: {
+      request: {
+        githubToken: 'ghp_...',
+        repoOwner: 'vercel',
+        repoName: 'next.js',
+        branch: 'canary',
+        since: '2024-01-01T00:00:00Z',
+        until: '2024-02-01T00:00:00Z',
+      },
+    },
+  };
+
+  return NextResponse.json(documentation, {
+    status: 200,
+    headers: corsHeaders,
+  });
+}
@@ -0,0 +1,15 @@
+import { ReleaseChangelog } from '@/components/release-changelog';
+import { Header } from '@/components/header';
+import { Footer } from '@/components/footer';
+
+export default function ReleasePage() {
+  return (
+    <div className="flex flex-col min-h-screen bg-background text-foreground">
+      <Header />
+      <main className="flex-1 w-full max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <ReleaseChangelog />
+      </main>
+      <Footer />
+    </div>
+  );
+}
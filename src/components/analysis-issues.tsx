@@ -0,0 +1,91 @@
+'use client';
+
+import type { AnalysisIssue, AnalysisStage, AnalyzeCommitLineageOutput } from '@/lib/types';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import { truncationWarning } from '@/ai/lineage/analysis-issues';
+
+const STAGE_LABELS: Record<AnalysisStage, string> = {
+  'pull-request': 'Pull request',
+  'nested-pull-request': 'Nested PR',
+  'cherry-pick': 'Cherry-pick',
+  'reverts': 'Reverts',
+  'deployment': 'Deployment',
+};
+
+export function describeIssue(issue: AnalysisIssue): string {
+  const subject = [
+    issue.pullRequestNumber !== undefined ? `PR #${issue.pullRequestNumber}` : null,
+    issue.commitSha ? issue.commitSha.substring(0, 7) : null,
+  ].filter(Boolean).join(' ');
+  return `${STAGE_LABELS[issue.stage]}${subject ? ` ${subject}` : ''}: ${issue.message}` +
+    (issue.status ? ` (HTTP ${issue.status})` : '');
+}
+
+function IssueList({ issues }: { issues: AnalysisIssue[] }) {
+  return (
+    <ul className="mt-2 space-y-1 text-xs">
+      {issues.map((issue, index) => (
+        <li key={index} className="flex flex-wrap items-center gap-2">
+          <span>{describeIssue(issue)}</span>
+          {issue.retryable && <Badge variant="outline" className="text-[10px]">retryable</Badge>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function CompletenessBadge({ lineage }: { lineage: AnalyzeCommitLineageOutput }) {
+  // Results stored before completeness was reported fall back to the truncated flag
+  if ((lineage.completeness || (lineage.truncated ? 'partial' : 'complete')) === 'complete') {
+    return (
+      <Badge variant="secondary" className="gap-1">
+        <CheckCircle2 className="h-3 w-3" /> Complete
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant={lineage.errors?.length > 0 ? 'destructive' : 'outline'} className="gap-1">
+      <AlertTriangle className="h-3 w-3" /> Partial
+    </Badge>
+  );
+}
+
+/**
+ * Lists the steps that failed and the data that may be incomplete, so a partial lineage
+ * is never mistaken for the whole story
+ */
+export function AnalysisIssues({ lineage }: { lineage: AnalyzeCommitLineageOutput }) {
+  const errors = lineage.errors || [];
+  // Results stored before warnings were reported only carry their truncations
+  const warnings = lineage.warnings || (lineage.truncations || []).map(truncationWarning);
+  if (errors.length === 0 && warnings.length === 0) return null;
+
+  const retryable = errors.some(issue => issue.retryable);
+
+  return (
+    <div className="space-y-3">
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertTitle>{errors.length} step(s) failed</AlertTitle>
+          <AlertDescription>
+            Part of the lineage is missing.{retryable && ' Some failures were transient; running the analysis again may fill the gaps.'}
+            <IssueList issues={errors} />
+          </AlertDescription>
+        </Alert>
+      )}
+      {warnings.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>{warnings.length} warning(s)</AlertTitle>
+          <AlertDescription>
+            The lineage may be incomplete.
+            <IssueList issues={warnings} />
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
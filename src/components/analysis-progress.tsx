@@ -0,0 +1,130 @@
+'use client';
+
+import * as React from 'react';
+import type { AnalysisEvent, AnalysisProgress } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Activity, Loader2 } from 'lucide-react';
+import { describeIssue } from './analysis-issues';
+
+export type TimedAnalysisEvent = AnalysisEvent & { timestamp: string };
+
+const PHASE_LABELS: Record<AnalysisProgress['phase'], string> = {
+  'pull-requests': 'Analyzing pull requests',
+  'reverts': 'Tracing reverts',
+  'deployment': 'Finding deployments',
+  'complete': 'Complete',
+};
+
+function findLatest<T extends AnalysisEvent['type']>(
+  events: TimedAnalysisEvent[],
+  type: T
+): Extract<TimedAnalysisEvent, { type: T }> | undefined {
+  for (let i = events.length - 1; i >= 0; i--) {
+    if (events[i].type === type) return events[i] as Extract<TimedAnalysisEvent, { type: T }>;
+  }
+  return undefined;
+}
+
+// PRs are most of the work; the phases after them take the rest of the bar
+function progressPercent(progress?: AnalysisProgress): number {
+  if (!progress) return 5;
+  switch (progress.phase) {
+    case 'pull-requests': {
+      const total = progress.pullRequestsAnalyzed + progress.pullRequestsQueued;
+      return 10 + (total > 0 ? (70 * progress.pullRequestsAnalyzed) / total : 0);
+    }
+    case 'reverts':
+      return 85;
+    case 'deployment':
+      return 95;
+    case 'complete':
+      return 100;
+  }
+}
+
+// Detector starts, progress and rate-limit updates are shown elsewhere, not in the log
+function describeEvent(event: TimedAnalysisEvent): string | null {
+  switch (event.type) {
+    case 'pr-fetched':
+      return `Fetched PR #${event.pullRequestNumber}${event.title ? ` "${event.title}"` : ''} with ${event.commits} commit(s)` +
+        (event.parentPullRequestNumber ? `, nested in #${event.parentPullRequestNumber}` : '');
+    case 'pr-queued':
+      return `Queued ${event.reason} PR #${event.pullRequestNumber}` +
+        (event.parentPullRequestNumber ? ` from #${event.parentPullRequestNumber}` : '');
+    case 'detector-finished':
+      return `${event.detector} on ${event.commitSha.substring(0, 7)}: ` +
+        `${event.isSquash ? 'squash' : 'no squash'} (${Math.round(event.confidence * 100)}%) in ${event.durationMs}ms`;
+    case 'issue':
+      return `${event.severity === 'error' ? 'Error' : 'Warning'}: ${describeIssue(event.issue)}`;
+    default:
+      return null;
+  }
+}
+
+export function AnalysisProgressPanel({ events, running, onCancel }: {
+  events: TimedAnalysisEvent[];
+  running: boolean;
+  onCancel?: () => void;
+}) {
+  const progress = findLatest(events, 'progress')?.progress;
+  const rateLimit = findLatest(events, 'rate-limit')?.rateLimit;
+  const current = findLatest(events, 'detector-started');
+  const logEntries = events
+    .map(event => ({ event, text: describeEvent(event) }))
+    .filter((entry): entry is { event: TimedAnalysisEvent; text: string } => entry.text !== null);
+
+  const logEnd = React.useRef<HTMLDivElement>(null);
+  React.useEffect(() => {
+    logEnd.current?.scrollIntoView({ block: 'nearest' });
+  }, [logEntries.length]);
+
+  return (
+    <Card className="shadow-md animate-fade-in">
+      <CardHeader>
+        <CardTitle className="font-headline flex items-center gap-2">
+          {running ? <Loader2 className="animate-spin" /> : <Activity />} Analysis Progress
+        </CardTitle>
+        <CardDescription className="flex flex-wrap items-center gap-2">
+          <span>{progress ? PHASE_LABELS[progress.phase] : 'Starting analysis'}</span>
+          {progress && (
+            <span>
+              — {progress.pullRequestsAnalyzed} PR(s) analyzed, {progress.pullRequestsQueued} queued, {progress.commitsFound} commit(s) found
+            </span>
+          )}
+          {rateLimit && (
+            <Badge variant={rateLimit.remaining < rateLimit.limit * 0.1 ? 'destructive' : 'outline'}>
+              {rateLimit.remaining}/{rateLimit.limit} API calls left
+            </Badge>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-4">
+          <Progress value={progressPercent(progress)} className="flex-1" />
+          {running && onCancel && (
+            <Button type="button" variant="outline" size="sm" onClick={onCancel}>Cancel</Button>
+          )}
+        </div>
+        {running && current && (
+          <p className="text-xs text-muted-foreground">
+            Running {current.detector} on <span className="font-code">{current.commitSha.substring(0, 7)}</span>
+          </p>
+        )}
+        <ScrollArea className="h-48 rounded-md border bg-muted/50 p-3">
+          <ul className="space-y-1 font-code text-xs">
+            {logEntries.map(({ event, text }, index) => (
+              <li key={index}>
+                <span className="text-muted-foreground">{new Date(event.timestamp).toLocaleTimeString()}</span> {text}
+              </li>
+            ))}
+          </ul>
+          <div ref={logEnd} />
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,25 +14,54 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDes
 import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ResultsSection } from '@/components/results-section';
+import { AnalysisProgressPanel, TimedAnalysisEvent } from '@/components/analysis-progress';
+import { readServerSentEvents } from '@/lib/sse';
+import type { AnalysisResult } from '@/lib/types';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Loader2 } from 'lucide-react';
 
 const formSchema = z.object({
-  githubToken: z.string().min(1, 'GitHub token is required.'),
+  provider: z.enum(['github', 'gitlab', 'local']).default('github'),
+  baseUrl: z.string().optional(),
+  githubToken: z.string().default(''),
+  repositoryPath: z.string().optional(),
   repoOwner: z.string().min(1, 'Repository owner is required.'),
   repoName: z.string().min(1, 'Repository name is required.'),
-  pullRequestNumber: z.coerce.number({ invalid_type_error: "Must be a number" }).int().positive('PR number must be a positive integer.'),
+  lookup: z.enum(['pull-request', 'commit']).default('pull-request'),
+  pullRequestNumber: z.coerce.number({ invalid_type_error: "Must be a number" }).int().positive('PR number must be a positive integer.').optional(),
+  commitSha: z.string().regex(/^[0-9a-f]{7,40}$/i, 'Commit SHA must be 7 to 40 hexadecimal characters.').optional(),
   squashAnalysisDepth: z.enum(['shallow', 'deep']).default('shallow'),
   enableAdvancedDetection: z.boolean().default(true),
+  // An empty GitHub token falls back to the server's GitHub App, which the server checks
+}).refine((data) => data.provider !== 'gitlab' || data.githubToken.length > 0, {
+  message: 'Access token is required.',
+  path: ['githubToken'],
+}).refine((data) => data.provider !== 'local' || !!data.repositoryPath, {
+  message: 'Repository path is required for local analysis.',
+  path: ['repositoryPath'],
+}).refine((data) => data.lookup !== 'pull-request' || !!data.pullRequestNumber, {
+  message: 'PR number is required.',
+  path: ['pullRequestNumber'],
+}).refine((data) => data.lookup !== 'commit' || !!data.commitSha, {
+  message: 'Commit SHA is required.',
+  path: ['commitSha'],
 });
 
 type FormValues = z.infer<typeof formSchema>;
 
-function SubmitButton() {
+// Progress of an analysis streamed from /api/analyze/stream
+interface StreamedAnalysis {
+  running: boolean;
+  events: TimedAnalysisEvent[];
+  result?: AnalysisResult;
+  error?: string;
+}
+
+function SubmitButton({ busy, label }: { busy: boolean; label: string }) {
   const { pending } = useFormStatus();
   return (
-    <Button type="submit" disabled={pending} className="w-full">
-      {pending ? <Loader2 className="animate-spin" /> : 'Analyze Pull Request'}
+    <Button type="submit" disabled={pending || busy} className="w-full">
+      {pending || busy ? <Loader2 className="animate-spin" /> : label}
     </Button>
   );
 }
@@ -41,20 +70,30 @@ export function CommitDetective() {
   const { toast } = useToast();
   const [state, formAction] = React.useActionState(analyzePullRequest, undefined);
   const [showToken, setShowToken] = React.useState(false);
+  const [streamed, setStreamed] = React.useState<StreamedAnalysis | null>(null);
+  const streamController = React.useRef<AbortController | null>(null);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
+      provider: 'github',
+      baseUrl: '',
       githubToken: '',
+      repositoryPath: '',
       repoOwner: '',
       repoName: '',
+      lookup: 'pull-request',
       pullRequestNumber: undefined,
+      commitSha: '',
       squashAnalysisDepth: 'shallow',
       enableAdvancedDetection: true,
     },
     context: state,
   });
 
+  const provider = form.watch('provider');
+  const lookup = form.watch('lookup');
+
   React.useEffect(() => {
     if (state?.error) {
       toast({
@@ -65,49 +104,185 @@ export function CommitDetective() {
     }
   }, [state, toast]);
 
+  const streamError = streamed?.error;
+  React.useEffect(() => {
+    if (streamError) {
+      toast({
+        variant: 'destructive',
+        title: 'Analysis Failed',
+        description: streamError,
+      });
+    }
+  }, [streamError, toast]);
+
+  // GitHub and GitLab PR analyses stream their progress; local analysis needs git on the server
+  // and the stream endpoint runs on the edge, so it goes through the server action instead,
+  // as do commit lookups
+  const runStreamedAnalysis = async (values: FormValues) => {
+    streamController.current?.abort();
+    const controller = new AbortController();
+    streamController.current = controller;
+    setStreamed({ running: true, events: [] });
+
+    try {
+      const response = await fetch('/api/analyze/stream', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          // Kept out of the body, which proxies and logs are more likely to record
+          ...(values.githubToken ? { Authorization: `Bearer ${values.githubToken}` } : {}),
+        },
+        body: JSON.stringify({
+          provider: values.provider,
+          baseUrl: values.provider === 'github' ? values.baseUrl || undefined : undefined,
+          repoOwner: values.repoOwner,
+          repoName: values.repoName,
+          pullRequestNumber: values.pullRequestNumber,
+          squashAnalysisDepth: values.squashAnalysisDepth,
+          enableAdvancedDetection: values.enableAdvancedDetection,
+        }),
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Analysis failed with status ${response.status}`);
+      }
+
+      await readServerSentEvents(response.body, ({ event, data }) => {
+        const payload = JSON.parse(data);
+        setStreamed(current => {
+          if (!current) return current;
+          if (event === 'result') return { ...current, result: payload };
+          if (event === 'error') return { ...current, error: payload.error };
+          return { ...current, events: [...current.events, payload] };
+        });
+      });
+    } catch (error: any) {
+      if (!controller.signal.aborted) {
+        setStreamed(current => current && { ...current, error: error.message || 'An unexpected error occurred.' });
+      }
+    } finally {
+      setStreamed(current => current && { ...current, running: false });
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    if (provider === 'local' || lookup === 'commit') {
+      setStreamed(null);
+      return;
+    }
+    event.preventDefault();
+    form.handleSubmit(runStreamedAnalysis)();
+  };
+
   return (
     <Form {...form}>
-      <form action={formAction} className="space-y-8">
+      <form action={formAction} onSubmit={handleSubmit} className="space-y-8">
         <Card className="shadow-lg">
           <CardHeader>
             <CardTitle className="font-headline text-3xl">Analyze Commit Lineage</CardTitle>
             <CardDescription>
-              Enter a GitHub repository and pull request to analyze its commit history and calculate DORA metrics.
+              Enter a GitHub pull request or GitLab merge request to analyze its commit history and calculate DORA metrics.
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-6">
               <FormField
                 control={form.control}
-                name="githubToken"
+                name="provider"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>GitHub Token</FormLabel>
-                    <FormControl>
-                      <div className="relative">
-                        <Input type={showToken ? 'text' : 'password'} placeholder="ghp_..." {...field} />
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          className="absolute right-1 top-1/2 -translate-y-1/2 h-7"
-                          onClick={() => setShowToken(!showToken)}
-                        >
-                          {showToken ? 'Hide' : 'Show'}
-                        </Button>
-                      </div>
-                    </FormControl>
+                    <FormLabel>Provider</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value || "github"}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select provider" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="github">GitHub</SelectItem>
+                        <SelectItem value="gitlab">GitLab</SelectItem>
+                        <SelectItem value="local">Local Repository</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <input type="hidden" name="provider" value={field.value || "github"} />
                     <FormMessage />
                   </FormItem>
                 )}
               />
+              {provider === 'local' ? (
+                <FormField
+                  control={form.control}
+                  name="repositoryPath"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Repository Path</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., 'mirrors/next.js.git'" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Path of a bare or working clone, relative to the server&apos;s local repositories root
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="githubToken"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{provider === 'gitlab' ? 'GitLab Token' : 'GitHub Token'}</FormLabel>
+                      <FormControl>
+                        <div className="relative">
+                          <Input type={showToken ? 'text' : 'password'} placeholder={provider === 'gitlab' ? 'glpat-...' : 'ghp_...'} {...field} />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="absolute right-1 top-1/2 -translate-y-1/2 h-7"
+                            onClick={() => setShowToken(!showToken)}
+                          >
+                            {showToken ? 'Hide' : 'Show'}
+                          </Button>
+                        </div>
+                      </FormControl>
+                      {provider === 'github' && (
+                        <FormDescription>
+                          Leave empty to run as the server&apos;s GitHub App, if it has one
+                        </FormDescription>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {provider === 'github' && (
+                <FormField
+                  control={form.control}
+                  name="baseUrl"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>GitHub Host</FormLabel>
+                      <FormControl>
+                        <Input placeholder="github.com" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Leave empty for github.com. GitHub Enterprise Server hosts must be allowed by the server&apos;s GITHUB_ENTERPRISE_HOSTS
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <FormField
                   control={form.control}
                   name="repoOwner"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Repository Owner</FormLabel>
+                      <FormLabel>{provider === 'gitlab' ? 'Group / Namespace' : 'Repository Owner'}</FormLabel>
                       <FormControl>
                         <Input placeholder="e.g., 'vercel'" {...field} />
                       </FormControl>
@@ -129,19 +304,60 @@ export function CommitDetective() {
                   )}
                 />
               </div>
-              <FormField
-                control={form.control}
-                name="pullRequestNumber"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Pull Request Number</FormLabel>
-                    <FormControl>
-                      <Input type="number" placeholder="e.g., 42" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="lookup"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Start From</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value || "pull-request"}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select what to analyze" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="pull-request">{provider === 'gitlab' ? 'Merge Request' : 'Pull Request'}</SelectItem>
+                          <SelectItem value="commit">Commit SHA</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <input type="hidden" name="lookup" value={field.value || "pull-request"} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {lookup === 'commit' ? (
+                  <FormField
+                    control={form.control}
+                    name="commitSha"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Commit SHA</FormLabel>
+                        <FormControl>
+                          <Input className="font-code" placeholder="e.g., 'a1b2c3d'" {...field} />
+                        </FormControl>
+                        <FormDescription>Traced back to the PR it came from</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ) : (
+                  <FormField
+                    control={form.control}
+                    name="pullRequestNumber"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{provider === 'gitlab' ? 'Merge Request IID' : 'Pull Request Number'}</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="e.g., 42" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 )}
-              />
+              </div>
 
               {/* Advanced Squash Detection Configuration */}
               <div className="space-y-4 p-4 border rounded-lg bg-muted/50">
@@ -211,12 +427,28 @@ export function CommitDetective() {
                 />
               </div>
 
-              <SubmitButton />
+              <SubmitButton
+                busy={!!streamed?.running}
+                label={lookup === 'commit' ? 'Trace Commit' : 'Analyze Pull Request'}
+              />
             </div>
           </CardContent>
         </Card>
 
-        <StatusDisplay result={state?.result} />
+        {streamed ? (
+          <>
+            {(streamed.running || !streamed.result) && (
+              <AnalysisProgressPanel
+                events={streamed.events}
+                running={streamed.running}
+                onCancel={() => streamController.current?.abort()}
+              />
+            )}
+            {streamed.result && <ResultsSection result={streamed.result} />}
+          </>
+        ) : (
+          <StatusDisplay result={state?.result} />
+        )}
       </form>
     </Form>
   );
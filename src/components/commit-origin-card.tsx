@@ -0,0 +1,60 @@
+'use client';
+
+import type { CommitOrigin, CommitOriginKind } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Search } from 'lucide-react';
+
+const ORIGIN_LABELS: Record<CommitOriginKind, string> = {
+  'squash': 'Squash commit',
+  'rebase': 'Rebased copy',
+  'cherry-pick': 'Cherry-pick',
+  'merge': 'Merge commit',
+  'pull-request-commit': 'Original PR commit',
+  'direct': 'Direct commit',
+};
+
+const ORIGIN_DESCRIPTIONS: Record<CommitOriginKind, string> = {
+  'squash': 'The commits below were squashed into it.',
+  'rebase': 'It was rewritten from the commit below when its PR was rebased onto the base branch.',
+  'cherry-pick': 'It was cherry-picked from the commit below.',
+  'merge': 'It merged its PR into the base branch.',
+  'pull-request-commit': 'It was committed on a PR branch.',
+  'direct': 'No pull request accounts for it.',
+};
+
+function ShaList({ label, shas }: { label: string; shas: string[] }) {
+  if (shas.length === 0) return null;
+  return (
+    <div className="text-sm">
+      <span className="font-semibold">{label}</span>{' '}
+      <span className="font-code text-muted-foreground">{shas.map(sha => sha.substring(0, 7)).join(', ')}</span>
+    </div>
+  );
+}
+
+export function CommitOriginCard({ origin }: { origin: CommitOrigin }) {
+  return (
+    <Card className="shadow-md hover:shadow-xl transition-shadow">
+      <CardHeader>
+        <CardTitle className="font-headline flex items-center gap-2">
+          <Search /> Commit <span className="font-code">{origin.sha.substring(0, 7)}</span>
+        </CardTitle>
+        <CardDescription>{ORIGIN_DESCRIPTIONS[origin.kind]}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge>{ORIGIN_LABELS[origin.kind]}</Badge>
+          {origin.confidence < 1 && (
+            <Badge variant="outline">{Math.round(origin.confidence * 100)}% confidence</Badge>
+          )}
+          {origin.pullRequestNumbers.map(number => (
+            <Badge key={number} variant="secondary">PR #{number}</Badge>
+          ))}
+        </div>
+        <ShaList label="Made from" shas={origin.sourceShas} />
+        <ShaList label="Rewritten as" shas={origin.rewrittenAs} />
+      </CardContent>
+    </Card>
+  );
+}
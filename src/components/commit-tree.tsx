@@ -2,35 +2,43 @@
 'use client';
 
 import * as React from 'react';
-import type { AnalyzeCommitLineageOutput, CommitNode as CommitNodeData } from '@/lib/types';
+import type { AnalyzeCommitLineageOutput, BackportLink, CommitNode as CommitNodeData, LandingStatus, LineageEdge, PullRequestNode } from '@/lib/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { GitCommit, GitBranch, GitMerge, Zap, ArrowDown, User, Calendar, RotateCcw, Shuffle, GitPullRequest } from 'lucide-react';
+import { GitCommit, GitBranch, GitMerge, Zap, ArrowDown, ArrowRight, User, Calendar, RotateCcw, Shuffle, GitPullRequest, Cherry, Undo2, Clock } from 'lucide-react';
+import { formatDuration } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { AnalysisIssues, CompletenessBadge } from './analysis-issues';
 
 // A map to store nodes by SHA for easy lookup
 type NodeMap = Map<string, CommitNodeData & { children: CommitNodeData[] }>;
 
-function buildTree(nodes: CommitNodeData[]): (CommitNodeData & { children: CommitNodeData[] })[] {
+function buildTree(nodes: CommitNodeData[], edges: LineageEdge[]): (CommitNodeData & { children: CommitNodeData[] })[] {
   if (!nodes || nodes.length === 0) return [];
 
   const nodeMap: NodeMap = new Map();
-  const allNodeShas = new Set(nodes.map(n => n.sha));
 
   // Initialize map and add children array
   nodes.forEach(node => {
     nodeMap.set(node.sha, { ...node, children: [] });
   });
 
+  // Parent edges only connect commits that are part of the lineage
+  const parentsBySha = new Map<string, string[]>();
+  edges.filter(edge => edge.type === 'parent').forEach(edge => {
+    parentsBySha.set(edge.from, [...(parentsBySha.get(edge.from) || []), edge.to]);
+  });
+
   const rootNodes: (CommitNodeData & { children: CommitNodeData[] })[] = [];
 
   // Populate children arrays and identify root nodes
   nodes.forEach(node => {
     const currentNode = nodeMap.get(node.sha)!;
-    if (node.parents.length === 0 || node.parents.every(p => !allNodeShas.has(p))) {
+    const parents = parentsBySha.get(node.sha) || [];
+    if (parents.length === 0) {
       rootNodes.push(currentNode);
     } else {
-      node.parents.forEach(parentSha => {
+      parents.forEach(parentSha => {
         if (nodeMap.has(parentSha)) {
           const parentNode = nodeMap.get(parentSha);
           // Avoid duplicates
@@ -77,19 +85,75 @@ const EventIcon = ({ type, className }: { type: string, className?: string }) =>
   const defaultClass = "h-5 w-5";
   const typeLower = type.toLowerCase();
 
+  if (typeLower.includes('revert')) return <Undo2 className={`${defaultClass} text-red-500 ${className}`} />;
+  if (typeLower.includes('rebase merge')) return <RotateCcw className={`${defaultClass} text-blue-500 ${className}`} />;
   if (typeLower.includes('merge')) return <GitMerge className={`${defaultClass} text-purple-500 ${className}`} />;
   if (typeLower.includes('advanced squash')) return <ArrowDown className={`${defaultClass} text-orange-500 ${className}`} />;
   if (typeLower.includes('squash')) return <ArrowDown className={`${defaultClass} text-yellow-500 ${className}`} />;
   if (typeLower.includes('interactive rebase')) return <Shuffle className={`${defaultClass} text-blue-600 ${className}`} />;
   if (typeLower.includes('simple rebase')) return <RotateCcw className={`${defaultClass} text-blue-400 ${className}`} />;
   if (typeLower.includes('rebase')) return <GitBranch className={`${defaultClass} text-blue-500 ${className}`} />;
+  if (typeLower.includes('cherry-pick')) return <Cherry className={`${defaultClass} text-rose-500 ${className}`} />;
   if (typeLower.includes('fast-forward')) return <GitPullRequest className={`${defaultClass} text-green-500 ${className}`} />;
   if (typeLower.includes('force push')) return <Zap className={`${defaultClass} text-red-500 ${className}`} />;
 
   return <GitCommit className={`${defaultClass} text-primary ${className}`} />;
 };
 
-function CommitNodeComponent({ node }: { node: (CommitNodeData & { children?: CommitNodeData[] }) }) {
+/**
+ * Describes a non-parent edge from the point of view of the commit it is shown on
+ */
+function describeEdge(edge: LineageEdge, sha: string): { label: string; className: string } | null {
+  const outgoing = edge.from === sha;
+  const other = (outgoing ? edge.to : edge.from).substring(0, 7);
+
+  switch (edge.type) {
+    case 'squashed-into':
+      return outgoing ? { label: `squashed into ${other}`, className: 'text-orange-600' } : null;
+    case 'rebased-as':
+      return outgoing
+        ? { label: `rebased as ${other}`, className: 'text-blue-600' }
+        : { label: `rewritten from ${other}`, className: 'text-blue-600' };
+    case 'cherry-picked-as':
+      return outgoing
+        ? { label: `cherry-picked as ${other}`, className: 'text-rose-600' }
+        : { label: `cherry-picked from ${other}`, className: 'text-rose-600' };
+    case 'reverts':
+      return outgoing
+        ? { label: `reverts ${other}`, className: 'text-red-600' }
+        : { label: `reverted by ${other}`, className: 'text-red-600' };
+    case 'belongs-to-PR':
+      return { label: `PR ${edge.to}`, className: 'text-green-600' };
+    default:
+      return null;
+  }
+}
+
+function EdgeBadges({ sha, edges }: { sha: string; edges: LineageEdge[] }) {
+  return (
+    <>
+      {edges.map(edge => {
+        const description = describeEdge(edge, sha);
+        if (!description) return null;
+        return (
+          <Badge
+            key={`${edge.type}-${edge.from}-${edge.to}`}
+            variant="outline"
+            className={`ml-2 py-0.5 px-1.5 ${description.className}`}
+            title={`${Math.round(edge.confidence * 100)}% confidence: ${JSON.stringify(edge.evidence)}`}
+          >
+            {description.label}
+          </Badge>
+        );
+      })}
+    </>
+  );
+}
+
+function CommitNodeComponent({ node, edgesBySha }: {
+  node: (CommitNodeData & { children?: CommitNodeData[] });
+  edgesBySha: Map<string, LineageEdge[]>;
+}) {
   const eventType = getEventType(node);
 
   return (
@@ -116,6 +180,7 @@ function CommitNodeComponent({ node }: { node: (CommitNodeData & { children?: Co
           <div className="text-xs text-muted-foreground font-code mt-1">
             SHA: {node.shortSha}
             {node.branch && <Badge variant="secondary" className="ml-2 py-0.5 px-1.5">{node.branch}</Badge>}
+            <EdgeBadges sha={node.sha} edges={edgesBySha.get(node.sha) || []} />
           </div>
           <div className="text-xs text-muted-foreground mt-1 flex items-center gap-2 flex-wrap">
             <span className="flex items-center gap-1"><User size={12} /> {node.author}</span>
@@ -179,7 +244,7 @@ function CommitNodeComponent({ node }: { node: (CommitNodeData & { children?: Co
       {node.children && node.children.length > 0 && (
         <ul className="mt-4">
           {node.children.map((child) => (
-            <CommitNodeComponent key={child.sha} node={child} />
+            <CommitNodeComponent key={child.sha} node={child} edgesBySha={edgesBySha} />
           ))}
         </ul>
       )}
@@ -187,15 +252,155 @@ function CommitNodeComponent({ node }: { node: (CommitNodeData & { children?: Co
   );
 }
 
+function RewrittenCommits({ nodes, edges }: { nodes: CommitNodeData[]; edges: LineageEdge[] }) {
+  const nodeBySha = new Map(nodes.map(node => [node.sha, node]));
+  const rewritten = edges.filter(edge => edge.type === 'rebased-as' && nodeBySha.has(edge.to));
+  if (rewritten.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border p-4">
+      <h4 className="font-semibold mb-3">Rewritten Commits</h4>
+      <ul className="space-y-2">
+        {rewritten.map(edge => {
+          const original = nodeBySha.get(edge.from);
+          const landed = nodeBySha.get(edge.to)!;
+          return (
+            <li key={landed.sha} className="grid grid-cols-[1fr_auto_1fr] items-center gap-3 text-xs font-code">
+              <div className="min-w-0">
+                <span className="text-muted-foreground">{edge.from.substring(0, 7)}</span>{' '}
+                <span className="truncate">{(original?.message || '').split('\n')[0]}</span>
+                {original?.branch && <Badge variant="secondary" className="ml-2 py-0 px-1">{original.branch}</Badge>}
+              </div>
+              <ArrowRight size={14} className="text-blue-500" />
+              <div className="min-w-0">
+                <span className="text-muted-foreground">{landed.shortSha}</span>{' '}
+                <span className="truncate">{landed.message.split('\n')[0]}</span>
+                {landed.branch && <Badge variant="secondary" className="ml-2 py-0 px-1">{landed.branch}</Badge>}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+const LANDING_STATUS_VARIANTS: Record<LandingStatus, 'default' | 'secondary' | 'destructive'> = {
+  live: 'default',
+  reverted: 'destructive',
+  're-landed': 'secondary',
+};
+
+function PullRequests({ pullRequests, nodes }: { pullRequests?: PullRequestNode[]; nodes: CommitNodeData[] }) {
+  if (!pullRequests || pullRequests.length === 0) return null;
+
+  const nodeBySha = new Map(nodes.map(node => [node.sha, node]));
+
+  return (
+    <div className="rounded-lg border p-4">
+      <h4 className="font-semibold mb-3">Pull Requests</h4>
+      <ul className="space-y-3">
+        {pullRequests.map(pr => (
+          <li key={pr.number} className="text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <GitPullRequest size={14} className="text-green-600" />
+              <span className="font-semibold">#{pr.number}</span>
+              {pr.title && <span className="truncate">{pr.title}</span>}
+              <Badge variant="secondary" className="py-0 px-1">{pr.headRef} → {pr.baseRef}</Badge>
+              <Badge variant="outline" className="py-0 px-1">{pr.merged ? pr.mergeStrategy || 'merged' : 'not merged'}</Badge>
+              {pr.parentPullRequestNumber && (
+                <span className="text-xs text-muted-foreground">nested in #{pr.parentPullRequestNumber}</span>
+              )}
+            </div>
+            <div className="text-xs text-muted-foreground mt-1 flex flex-wrap gap-3">
+              {pr.author && <span className="flex items-center gap-1"><User size={12} /> {pr.author}</span>}
+              {pr.mergedAt && (
+                <span className="flex items-center gap-1">
+                  <Calendar size={12} /> merged {new Date(pr.mergedAt).toLocaleString()}{pr.mergedBy && ` by ${pr.mergedBy}`}
+                </span>
+              )}
+            </div>
+            {pr.cycleTime && pr.cycleTime.stages.length > 0 && (
+              <div className="text-xs mt-1 flex flex-wrap items-center gap-2">
+                <Clock size={12} className="text-muted-foreground" />
+                {pr.cycleTime.totalMs !== null && (
+                  <span className="font-semibold">cycle time {formatDuration(pr.cycleTime.totalMs)}</span>
+                )}
+                {pr.cycleTime.stages.map(stage => (
+                  <Badge
+                    key={stage.name}
+                    variant="outline"
+                    className="py-0 px-1 font-normal"
+                    title={`${new Date(stage.startedAt).toLocaleString()} → ${new Date(stage.endedAt).toLocaleString()}`}
+                  >
+                    {stage.name} {formatDuration(stage.durationMs)}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {pr.commitShas.length > 0 && (
+              <ul className="mt-1 ml-5 space-y-0.5 text-xs font-code">
+                {pr.commitShas.map(sha => (
+                  <li key={sha} className="truncate">
+                    <span className="text-muted-foreground">{sha.substring(0, 7)}</span>{' '}
+                    {(nodeBySha.get(sha)?.message || '').split('\n')[0]}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function Backports({ backports }: { backports?: BackportLink[] }) {
+  if (!backports || backports.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border p-4">
+      <h4 className="font-semibold mb-3">Backports</h4>
+      <ul className="space-y-2 text-sm">
+        {backports.map(backport => (
+          <li key={backport.pullRequestNumber} className="flex flex-wrap items-center gap-2">
+            <Cherry size={14} className="text-rose-500" />
+            <span>PR #{backport.pullRequestNumber}</span>
+            <Badge variant="secondary" className="py-0 px-1">{backport.branch}</Badge>
+            {backport.originalPullRequestNumbers.length > 0 && (
+              <span className="text-muted-foreground">
+                backports #{backport.originalPullRequestNumbers.join(', #')}
+              </span>
+            )}
+            {backport.cherryPicks.length > 0 && (
+              <span className="text-xs text-muted-foreground font-code">
+                ({backport.cherryPicks.map(pick => `${pick.originalSha.substring(0, 7)} → ${pick.sha.substring(0, 7)}`).join(', ')})
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 export function CommitTree({ data }: { data: AnalyzeCommitLineageOutput }) {
   const [tree, setTree] = React.useState<(CommitNodeData & { children: CommitNodeData[] })[]>([]);
 
   React.useEffect(() => {
     if (data && data.nodes) {
-      setTree(buildTree(data.nodes));
+      setTree(buildTree(data.nodes, data.edges || []));
     }
   }, [data]);
 
+  const edgesBySha = React.useMemo(() => {
+    const map = new Map<string, LineageEdge[]>();
+    (data?.edges || []).forEach(edge => {
+      [edge.from, edge.to].forEach(sha => map.set(sha, [...(map.get(sha) || []), edge]));
+    });
+    return map;
+  }, [data]);
+
   if (!data || !data.nodes) {
     return null;
   }
@@ -213,13 +418,28 @@ export function CommitTree({ data }: { data: AnalyzeCommitLineageOutput }) {
       <CardContent>
         <div className="space-y-6">
           <div className="bg-muted p-4 rounded-lg">
-            <h4 className="font-semibold mb-1">Analysis Summary</h4>
+            <h4 className="font-semibold mb-1 flex items-center gap-2">
+              Analysis Summary <CompletenessBadge lineage={data} />
+            </h4>
             <p className="text-sm text-muted-foreground">{data.summary}</p>
+            {data.landingStatuses?.length > 0 && (
+              <div className="mt-3 flex flex-wrap gap-2">
+                {data.landingStatuses.map(landing => (
+                  <Badge key={landing.pullRequestNumber} variant={LANDING_STATUS_VARIANTS[landing.status]}>
+                    PR #{landing.pullRequestNumber}: {landing.status}
+                  </Badge>
+                ))}
+              </div>
+            )}
           </div>
+          <AnalysisIssues lineage={data} />
+          <PullRequests pullRequests={data.pullRequests} nodes={data.nodes} />
+          <RewrittenCommits nodes={data.nodes} edges={data.edges || []} />
+          <Backports backports={data.backports} />
           <TooltipProvider>
             <ul className="space-y-4">
               {tree.map(node => (
-                <CommitNodeComponent key={node.sha} node={node} />
+                <CommitNodeComponent key={node.sha} node={node} edgesBySha={edgesBySha} />
               ))}
               {tree.length === 0 && <p className="text-muted-foreground text-center">No commit tree could be generated.</p>}
             </ul>
@@ -0,0 +1,389 @@
+'use client';
+
+import * as React from 'react';
+import { useFormStatus } from 'react-dom';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { generateBranchDoraReport } from '@/app/actions';
+import type { DoraPullRequestResult, DoraReport as DoraReportData, LandingStatus } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertTriangle, Loader2, LifeBuoy, Rocket, Timer } from 'lucide-react';
+import { formatDuration } from '@/lib/utils';
+
+const formSchema = z.object({
+  provider: z.enum(['github', 'gitlab', 'local']).default('github'),
+  baseUrl: z.string().optional(),
+  githubToken: z.string().default(''),
+  repositoryPath: z.string().optional(),
+  repoOwner: z.string().min(1, 'Repository owner is required.'),
+  repoName: z.string().min(1, 'Repository name is required.'),
+  branch: z.string().min(1, 'Branch is required.'),
+  since: z.string().date('Start date must be a valid date.'),
+  until: z.string().date('End date must be a valid date.'),
+  // An empty GitHub token falls back to the server's GitHub App, which the server checks
+}).refine((data) => data.provider !== 'gitlab' || data.githubToken.length > 0, {
+  message: 'Access token is required.',
+  path: ['githubToken'],
+}).refine((data) => data.provider !== 'local' || !!data.repositoryPath, {
+  message: 'Repository path is required for local analysis.',
+  path: ['repositoryPath'],
+}).refine((data) => data.since <= data.until, {
+  message: 'Start date must not be after the end date.',
+  path: ['since'],
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+const LANDING_STATUS_VARIANTS: Record<LandingStatus, 'default' | 'secondary' | 'destructive'> = {
+  live: 'default',
+  reverted: 'destructive',
+  're-landed': 'secondary',
+};
+
+function isoDate(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending} className="w-full">
+      {pending ? <Loader2 className="animate-spin" /> : 'Generate DORA Report'}
+    </Button>
+  );
+}
+
+export function DoraReport() {
+  const { toast } = useToast();
+  const [state, formAction] = React.useActionState(generateBranchDoraReport, undefined);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      provider: 'github',
+      baseUrl: '',
+      githubToken: '',
+      repositoryPath: '',
+      repoOwner: '',
+      repoName: '',
+      branch: 'main',
+      since: isoDate(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)),
+      until: isoDate(new Date()),
+    },
+  });
+
+  const provider = form.watch('provider');
+
+  React.useEffect(() => {
+    if (state?.error) {
+      toast({
+        variant: 'destructive',
+        title: 'Report Failed',
+        description: state.error,
+      });
+    }
+  }, [state, toast]);
+
+  return (
+    <Form {...form}>
+      <form action={formAction} className="space-y-8">
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="font-headline text-3xl">DORA Report</CardTitle>
+            <CardDescription>
+              Analyze every pull request merged into a branch over a date range and aggregate its DORA metrics.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              <FormField
+                control={form.control}
+                name="provider"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Provider</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value || "github"}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select provider" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="github">GitHub</SelectItem>
+                        <SelectItem value="gitlab">GitLab</SelectItem>
+                        <SelectItem value="local">Local Repository</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <input type="hidden" name="provider" value={field.value || "github"} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {provider === 'local' ? (
+                <FormField
+                  control={form.control}
+                  name="repositoryPath"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Repository Path</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., 'mirrors/next.js.git'" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="githubToken"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{provider === 'gitlab' ? 'GitLab Token' : 'GitHub Token'}</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder={provider === 'gitlab' ? 'glpat-...' : 'ghp_...'} {...field} />
+                      </FormControl>
+                      {provider === 'github' && (
+                        <FormDescription>
+                          Leave empty to run as the server&apos;s GitHub App, if it has one
+                        </FormDescription>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {provider === 'github' && (
+                <FormField
+                  control={form.control}
+                  name="baseUrl"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>GitHub Host</FormLabel>
+                      <FormControl>
+                        <Input placeholder="github.com" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Leave empty for github.com. GitHub Enterprise Server hosts must be allowed by the server&apos;s GITHUB_ENTERPRISE_HOSTS
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <FormField
+                  control={form.control}
+                  name="repoOwner"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{provider === 'gitlab' ? 'Group / Namespace' : 'Repository Owner'}</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., 'vercel'" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="repoName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Repository Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., 'next.js'" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="branch"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Branch</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., 'main'" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="since"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>From</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="until"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>To</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <SubmitButton />
+            </div>
+          </CardContent>
+        </Card>
+
+        <ReportDisplay report={state?.report} />
+      </form>
+    </Form>
+  );
+}
+
+function ReportDisplay({ report }: { report?: DoraReportData }) {
+  const { pending } = useFormStatus();
+
+  if (pending) {
+    return (
+      <div className="grid gap-8 md:grid-cols-2 lg:grid-cols-4">
+        {[0, 1, 2, 3].map(i => (
+          <Card key={i}>
+            <CardHeader><Skeleton className="h-6 w-3/4" /></CardHeader>
+            <CardContent><Skeleton className="h-10 w-1/2" /></CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  if (!report) return null;
+
+  const { metrics } = report;
+  const failedCount = report.pullRequests.filter(pr => pr.error).length;
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      <div className="grid gap-8 md:grid-cols-2 lg:grid-cols-4">
+        <MetricCard
+          icon={<Rocket />}
+          title="Deployment Frequency"
+          value={`${metrics.deploymentFrequency.perWeek.toFixed(1)} / week`}
+          detail={`${metrics.deploymentFrequency.deployments} production deployment(s) or release(s)`}
+        />
+        <MetricCard
+          icon={<Timer />}
+          title="Lead Time for Changes"
+          value={metrics.leadTime.p50Ms !== null ? formatDuration(metrics.leadTime.p50Ms) : 'n/a'}
+          detail={metrics.leadTime.samples > 0
+            ? `p50 · p75 ${formatDuration(metrics.leadTime.p75Ms!)} · p90 ${formatDuration(metrics.leadTime.p90Ms!)}`
+            : 'No lead times measured'}
+        />
+        <MetricCard
+          icon={<AlertTriangle />}
+          title="Change Failure Rate"
+          value={metrics.changeFailureRate.rate !== null ? `${Math.round(metrics.changeFailureRate.rate * 100)}%` : 'n/a'}
+          detail={`${metrics.changeFailureRate.failures} of ${metrics.changeFailureRate.total} PR(s) reverted or hotfixes`}
+        />
+        <MetricCard
+          icon={<LifeBuoy />}
+          title="Time to Restore"
+          value={metrics.timeToRestore.medianMs !== null ? formatDuration(metrics.timeToRestore.medianMs) : 'n/a'}
+          detail={`Median of ${metrics.timeToRestore.samples} revert(s) and hotfix(es)`}
+        />
+      </div>
+
+      <Card className="shadow-md">
+        <CardHeader>
+          <CardTitle className="font-headline">Pull Requests</CardTitle>
+          <CardDescription>
+            {report.pullRequests.length} PR(s) merged into <span className="font-code">{report.branch}</span> between{' '}
+            {new Date(report.since).toLocaleDateString()} and {new Date(report.until).toLocaleDateString()}
+            {failedCount > 0 && <> — {failedCount} could not be analyzed</>}
+            {report.truncated && <> — more PRs were merged than were analyzed</>}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>PR</TableHead>
+                <TableHead>Merged</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Lead time</TableHead>
+                <TableHead>Time to restore</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.pullRequests.map(pr => <PullRequestRow key={pr.pullRequestNumber} pr={pr} />)}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function MetricCard({ icon, title, value, detail }: {
+  icon: React.ReactNode;
+  title: string;
+  value: string;
+  detail: string;
+}) {
+  return (
+    <Card className="shadow-md hover:shadow-xl transition-shadow">
+      <CardHeader>
+        <CardTitle className="font-headline flex items-center gap-2 text-lg">
+          {icon} {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="font-headline text-3xl font-bold text-primary">{value}</p>
+        <p className="text-xs text-muted-foreground mt-2">{detail}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PullRequestRow({ pr }: { pr: DoraPullRequestResult }) {
+  return (
+    <TableRow>
+      <TableCell>
+        <span className="font-semibold">#{pr.pullRequestNumber}</span> {pr.title}
+        {pr.error && <p className="text-xs text-destructive">{pr.error}</p>}
+      </TableCell>
+      <TableCell className="whitespace-nowrap">{new Date(pr.mergedAt).toLocaleDateString()}</TableCell>
+      <TableCell className="space-x-1">
+        <Badge variant={LANDING_STATUS_VARIANTS[pr.landingStatus]}>{pr.landingStatus}</Badge>
+        {pr.hotfix && <Badge variant="outline">hotfix</Badge>}
+      </TableCell>
+      <TableCell className="font-code">
+        {pr.leadTime?.leadTimeMs != null ? formatDuration(pr.leadTime.leadTimeMs) : '—'}
+        {pr.leadTime?.measuredTo === 'merge' && <span className="text-xs text-muted-foreground"> (to merge)</span>}
+      </TableCell>
+      <TableCell className="font-code">
+        {pr.restoreTimeMs !== null ? formatDuration(pr.restoreTimeMs) : '—'}
+      </TableCell>
+    </TableRow>
+  );
+}
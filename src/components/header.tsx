@@ -11,6 +11,17 @@ export function Header() {
             CommitDetective
           </h1>
         </Link>
+        <nav className="flex items-center gap-6 text-sm font-medium">
+          <Link href="/" className="text-muted-foreground hover:text-primary transition-colors">
+            Analyze PR
+          </Link>
+          <Link href="/dora" className="text-muted-foreground hover:text-primary transition-colors">
+            DORA Report
+          </Link>
+          <Link href="/release" className="text-muted-foreground hover:text-primary transition-colors">
+            Release
+          </Link>
+        </nav>
       </div>
     </header>
   );
@@ -0,0 +1,108 @@
+'use client';
+
+import * as React from 'react';
+import type { LeadTimeForChanges, LeadTimeStage, LineageDeployment } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Timer, GitCommit, GitMerge, Rocket } from 'lucide-react';
+import { formatDuration } from '@/lib/utils';
+
+const STAGE_LABELS: Record<LeadTimeStage['name'], string> = {
+  'commit-to-merge': 'First commit → merge',
+  'merge-to-deploy': 'Merge → deployment',
+};
+
+const STAGE_COLORS: Record<LeadTimeStage['name'], string> = {
+  'commit-to-merge': 'bg-primary',
+  'merge-to-deploy': 'bg-accent',
+};
+
+function Milestone({ icon, label, time }: { icon: React.ReactNode; label: string; time?: string }) {
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      {icon}
+      <span className="font-semibold">{label}</span>
+      <span className="text-muted-foreground">{time ? new Date(time).toLocaleString() : 'unknown'}</span>
+    </div>
+  );
+}
+
+export function LeadTimeCard({ leadTime, deployment }: {
+  leadTime: LeadTimeForChanges;
+  deployment?: LineageDeployment | null;
+}) {
+  const totalStageMs = leadTime.stages.reduce((sum, stage) => sum + stage.durationMs, 0);
+
+  return (
+    <Card className="shadow-md hover:shadow-xl transition-shadow">
+      <CardHeader>
+        <CardTitle className="font-headline flex items-center gap-2">
+          <Timer /> Lead Time for Changes
+        </CardTitle>
+        <CardDescription>
+          DORA lead time of PR #{leadTime.pullRequestNumber}, measured from its earliest original commit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          <div className="flex items-baseline gap-3">
+            <span className="font-headline text-4xl font-bold text-primary">
+              {leadTime.leadTimeMs !== null ? formatDuration(leadTime.leadTimeMs) : 'n/a'}
+            </span>
+            {leadTime.measuredTo && (
+              <Badge variant={leadTime.measuredTo === 'deployment' ? 'default' : 'secondary'}>
+                to {leadTime.measuredTo}
+              </Badge>
+            )}
+          </div>
+
+          {totalStageMs > 0 && (
+            <div className="space-y-2">
+              <div className="flex h-3 w-full overflow-hidden rounded-full bg-muted">
+                {leadTime.stages.map(stage => (
+                  <div
+                    key={stage.name}
+                    className={STAGE_COLORS[stage.name]}
+                    style={{ width: `${(stage.durationMs / totalStageMs) * 100}%` }}
+                    title={`${STAGE_LABELS[stage.name]}: ${formatDuration(stage.durationMs)}`}
+                  />
+                ))}
+              </div>
+              <ul className="space-y-1 text-sm">
+                {leadTime.stages.map(stage => (
+                  <li key={stage.name} className="flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                      <span className={`h-2 w-2 rounded-full ${STAGE_COLORS[stage.name]}`} />
+                      {STAGE_LABELS[stage.name]}
+                    </span>
+                    <span className="font-code">{formatDuration(stage.durationMs)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Milestone icon={<GitCommit size={16} />} label="First commit" time={leadTime.firstCommitAt} />
+            <Milestone icon={<GitMerge size={16} />} label="Merged" time={leadTime.mergedAt} />
+            <Milestone icon={<Rocket size={16} />} label="Deployed" time={leadTime.deployedAt} />
+            {deployment && deployment.deployedAt === leadTime.deployedAt && (
+              <p className="ml-6 text-xs text-muted-foreground">
+                {deployment.kind === 'release' ? 'Release' : 'Deployment to'}{' '}
+                <Badge variant="outline" className="py-0 px-1">{deployment.kind === 'release' ? deployment.name : deployment.environment}</Badge>
+                {deployment.url && (
+                  <> — <a href={deployment.url} target="_blank" rel="noopener noreferrer" className="underline">details</a></>
+                )}
+              </p>
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Based on {leadTime.commitsConsidered} original commit(s)
+            {leadTime.firstCommitSha && <> — first commit <span className="font-code">{leadTime.firstCommitSha.substring(0, 7)}</span></>}
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,299 @@
+'use client';
+
+import * as React from 'react';
+import { useFormStatus } from 'react-dom';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { analyzeRelease } from '@/app/actions';
+import type { ReleaseAnalysis, ReleaseChangelogEntry, ReleaseCommit } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { GitCommit, GitPullRequest, Loader2 } from 'lucide-react';
+
+const formSchema = z.object({
+  provider: z.enum(['github', 'gitlab', 'local']).default('github'),
+  baseUrl: z.string().optional(),
+  githubToken: z.string().default(''),
+  repositoryPath: z.string().optional(),
+  repoOwner: z.string().min(1, 'Repository owner is required.'),
+  repoName: z.string().min(1, 'Repository name is required.'),
+  range: z.string().regex(/^\S*?[^.\s]\.\.[^.\s]\S*$/, 'Range must be two refs separated by "..", such as v1.4.0..v1.5.0.'),
+  // An empty GitHub token falls back to the server's GitHub App, which the server checks
+}).refine((data) => data.provider !== 'gitlab' || data.githubToken.length > 0, {
+  message: 'Access token is required.',
+  path: ['githubToken'],
+}).refine((data) => data.provider !== 'local' || !!data.repositoryPath, {
+  message: 'Repository path is required for local analysis.',
+  path: ['repositoryPath'],
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending} className="w-full">
+      {pending ? <Loader2 className="animate-spin" /> : 'Analyze Release'}
+    </Button>
+  );
+}
+
+export function ReleaseChangelog() {
+  const { toast } = useToast();
+  const [state, formAction] = React.useActionState(analyzeRelease, undefined);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      provider: 'github',
+      baseUrl: '',
+      githubToken: '',
+      repositoryPath: '',
+      repoOwner: '',
+      repoName: '',
+      range: '',
+    },
+  });
+
+  const provider = form.watch('provider');
+
+  React.useEffect(() => {
+    if (state?.error) {
+      toast({
+        variant: 'destructive',
+        title: 'Release Analysis Failed',
+        description: state.error,
+      });
+    }
+  }, [state, toast]);
+
+  return (
+    <Form {...form}>
+      <form action={formAction} className="space-y-8">
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="font-headline text-3xl">Release Changelog</CardTitle>
+            <CardDescription>
+              Trace every pull request that landed between two tags or commits and expand what each one squashed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              <FormField
+                control={form.control}
+                name="provider"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Provider</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value || "github"}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select provider" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="github">GitHub</SelectItem>
+                        <SelectItem value="gitlab">GitLab</SelectItem>
+                        <SelectItem value="local">Local Repository</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <input type="hidden" name="provider" value={field.value || "github"} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {provider === 'local' ? (
+                <FormField
+                  control={form.control}
+                  name="repositoryPath"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Repository Path</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., 'mirrors/next.js.git'" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="githubToken"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{provider === 'gitlab' ? 'GitLab Token' : 'GitHub Token'}</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder={provider === 'gitlab' ? 'glpat-...' : 'ghp_...'} {...field} />
+                      </FormControl>
+                      {provider === 'github' && (
+                        <FormDescription>
+                          Leave empty to run as the server&apos;s GitHub App, if it has one
+                        </FormDescription>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {provider === 'github' && (
+                <FormField
+                  control={form.control}
+                  name="baseUrl"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>GitHub Host</FormLabel>
+                      <FormControl>
+                        <Input placeholder="github.com" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Leave empty for github.com. GitHub Enterprise Server hosts must be allowed by the server&apos;s GITHUB_ENTERPRISE_HOSTS
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <FormField
+                  control={form.control}
+                  name="repoOwner"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{provider === 'gitlab' ? 'Group / Namespace' : 'Repository Owner'}</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., 'vercel'" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="repoName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Repository Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., 'next.js'" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="range"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Range</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., 'v1.4.0..v1.5.0'" {...field} />
+                      </FormControl>
+                      <FormDescription>Previous release, then this release</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <SubmitButton />
+            </div>
+          </CardContent>
+        </Card>
+
+        <ReleaseDisplay release={state?.release} />
+      </form>
+    </Form>
+  );
+}
+
+function ReleaseDisplay({ release }: { release?: ReleaseAnalysis }) {
+  const { pending } = useFormStatus();
+
+  if (pending) {
+    return (
+      <Card>
+        <CardHeader><Skeleton className="h-6 w-1/2" /></CardHeader>
+        <CardContent className="space-y-4">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!release) return null;
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      <Card className="shadow-md">
+        <CardHeader>
+          <CardTitle className="font-headline flex items-center gap-2">
+            <GitPullRequest /> {release.base}..{release.head}
+          </CardTitle>
+          <CardDescription>
+            {release.changelog.length} PR(s) and {release.directCommits.length} direct commit(s) across{' '}
+            {release.firstParentCommits.length} first-parent commit(s)
+            {release.lineage.sharedCommitCount > 0 && <> — {release.lineage.sharedCommitCount} commit(s) shared between PRs</>}
+            {release.truncated && <> — the range has more commits or PRs than were analyzed</>}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {release.changelog.map(entry => <ChangelogEntry key={entry.pullRequestNumber} entry={entry} />)}
+        </CardContent>
+      </Card>
+
+      {release.directCommits.length > 0 && (
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="font-headline flex items-center gap-2"><GitCommit /> Direct Commits</CardTitle>
+            <CardDescription>First-parent commits no pull request is associated with.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CommitList commits={release.directCommits} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function ChangelogEntry({ entry }: { entry: ReleaseChangelogEntry }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold">#{entry.pullRequestNumber}</span>
+        <span>{entry.title}</span>
+        {entry.mergeStrategy && <Badge variant="outline">{entry.mergeStrategy}</Badge>}
+        {entry.author && <span className="text-xs text-muted-foreground">by {entry.author}</span>}
+        <span className="text-xs text-muted-foreground font-code">
+          landed as {entry.landingCommits.map(sha => sha.substring(0, 7)).join(', ')}
+        </span>
+      </div>
+      {entry.error && <p className="text-xs text-destructive">{entry.error}</p>}
+      {entry.commits.length > 0 && <CommitList commits={entry.commits} />}
+    </div>
+  );
+}
+
+function CommitList({ commits }: { commits: ReleaseCommit[] }) {
+  return (
+    <ul className="space-y-1 border-l pl-4 text-sm">
+      {commits.map(commit => (
+        <li key={commit.sha}>
+          <span className="font-code text-muted-foreground">{commit.shortSha}</span> {commit.message}
+          <span className="text-xs text-muted-foreground"> — {commit.author}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -2,10 +2,16 @@
 
 import type { AnalysisResult } from '@/lib/types';
 import { CommitTree } from './commit-tree';
+import { LeadTimeCard } from './lead-time-card';
+import { CommitOriginCard } from './commit-origin-card';
 
 export function ResultsSection({ result }: { result: AnalysisResult }) {
   return (
     <div className="space-y-8 animate-fade-in">
+      {result.commitOrigin && <CommitOriginCard origin={result.commitOrigin} />}
+      {result.leadTime && (
+        <LeadTimeCard leadTime={result.leadTime} deployment={result.commitLineage?.deployment} />
+      )}
       {result.commitLineage && result.commitLineage.nodes && (
         <CommitTree data={result.commitLineage} />
       )}
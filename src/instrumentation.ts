@@ -0,0 +1,7 @@
+export async function register() {
+  // Node-only providers and stores are registered here so they stay out of edge bundles
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { registerNodeRuntime } = await import('./ai/providers/node-runtime');
+    registerNodeRuntime();
+  }
+}
@@ -0,0 +1,30 @@
+const { describe, it, expect } = require('@jest/globals');
+const { encodeServerSentEvent, parseServerSentEvents } = require('../sse');
+
+describe('Server-sent events', () => {
+  it('should round-trip encoded events', () => {
+    const text = encodeServerSentEvent('pr-fetched', { pullRequestNumber: 7, title: 'a\nb' }) +
+      encodeServerSentEvent('result', { ok: true });
+
+    const { events, rest } = parseServerSentEvents(text);
+
+    expect(rest).toBe('');
+    expect(events.map(e => e.event)).toEqual(['pr-fetched', 'result']);
+    expect(JSON.parse(events[0].data).title).toBe('a\nb');
+  });
+
+  it('should keep an event split across chunks for the next chunk', () => {
+    const text = encodeServerSentEvent('progress', { phase: 'reverts' });
+    const first = parseServerSentEvents(text.slice(0, 20));
+    const second = parseServerSentEvents(first.rest + text.slice(20));
+
+    expect(first.events).toEqual([]);
+    expect(second.events).toEqual([{ event: 'progress', data: '{"phase":"reverts"}' }]);
+  });
+
+  it('should skip comments and default the event name', () => {
+    const { events } = parseServerSentEvents(': keep-alive\n\ndata: 1\n\n');
+
+    expect(events).toEqual([{ event: 'message', data: '1' }]);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * CORS headers for the analysis routes. Those routes act with the caller's token or with
+ * the server's own credentials, so only origins listed in CORS_ALLOWED_ORIGINS may call
+ * them from a browser; `*` in the list opts back into allowing any origin.
+ */
+
+const ALLOWED_HEADERS = 'Content-Type, Authorization';
+
+/**
+ * Origins listed in CORS_ALLOWED_ORIGINS, lowercased and without trailing slashes
+ */
+export function getAllowedOrigins(): string[] {
+  return (process.env.CORS_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim().toLowerCase().replace(/\/+$/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * The CORS headers for a response to `request`. Origins that are not allowed get no
+ * Access-Control-Allow-Origin header, so browsers keep the response from them.
+ */
+export function getCorsHeaders(request: Request, methods: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Methods': methods,
+    'Access-Control-Allow-Headers': ALLOWED_HEADERS,
+    Vary: 'Origin',
+  };
+
+  const allowedOrigins = getAllowedOrigins();
+  const origin = request.headers.get('origin');
+  if (allowedOrigins.includes('*')) {
+    headers['Access-Control-Allow-Origin'] = '*';
+  } else if (origin && allowedOrigins.includes(origin.toLowerCase())) {
+    headers['Access-Control-Allow-Origin'] = origin;
+  }
+  return headers;
+}
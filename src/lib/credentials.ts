@@ -0,0 +1,130 @@
+/**
+ * Request credentials
+ *
+ * API routes read the access token from an `Authorization: Bearer` header, or look it up
+ * among the named credentials kept on the server (ANALYSIS_CREDENTIALS) by the ID a request
+ * names, so tokens stay out of request bodies and the logs and proxies that see them. The
+ * `githubToken` body field is still read, after both. Callers are not authenticated, so a
+ * named credential only serves the repository owners it lists.
+ */
+
+export interface NamedCredential {
+  token: string;
+  // Lowercased repository owners the credential may be used for; '*' allows any
+  owners: string[];
+}
+
+const REDACTED = '[REDACTED]';
+
+// Shorter values are too likely to appear in ordinary text
+const MIN_SECRET_LENGTH = 8;
+
+// Token formats that are redacted wherever they appear, even when they were not ours
+const SECRET_PATTERNS: [RegExp, string][] = [
+  [/\b(?:gh[pousr]_[A-Za-z0-9]{20,}|github_pat_[A-Za-z0-9_]{20,}|glpat-[A-Za-z0-9_-]{20,})/g, REDACTED],
+  [/\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g, REDACTED],
+  [/\b(bearer|token)(\s+)[A-Za-z0-9._~+/=-]{20,}/gi, `$1$2${REDACTED}`],
+  [/([?&](?:access_token|private_token|token)=)[^&\s#]+/gi, `$1${REDACTED}`],
+];
+
+/**
+ * The token of an `Authorization: Bearer` header, if the request has one
+ */
+export function getBearerToken(request: Request): string | undefined {
+  const match = /^bearer\s+(\S+)\s*$/i.exec(request.headers.get('authorization') || '');
+  return match?.[1];
+}
+
+/**
+ * The named credentials in ANALYSIS_CREDENTIALS, a JSON object of credential IDs and
+ * `{ "token": ..., "owners": [...] }` entries. A bare token string is read as a credential
+ * for no owner, so it is still redacted but cannot be used.
+ */
+export function getNamedCredentials(): Record<string, NamedCredential> {
+  const value = process.env.ANALYSIS_CREDENTIALS;
+  if (!value) return {};
+
+  try {
+    const parsed = JSON.parse(value);
+    const credentials: Record<string, NamedCredential> = {};
+    for (const [id, entry] of Object.entries(parsed ?? {})) {
+      if (typeof entry === 'string') {
+        credentials[id] = { token: entry, owners: [] };
+      } else if (entry && typeof (entry as NamedCredential).token === 'string') {
+        const owners = Array.isArray((entry as NamedCredential).owners) ? (entry as NamedCredential).owners : [];
+        credentials[id] = {
+          token: (entry as NamedCredential).token,
+          owners: owners.filter((owner): owner is string => typeof owner === 'string').map(owner => owner.toLowerCase()),
+        };
+      }
+    }
+    return credentials;
+  } catch {
+    console.warn('ANALYSIS_CREDENTIALS is not a JSON object of credential IDs and tokens; ignoring it');
+    return {};
+  }
+}
+
+/**
+ * Whether a request for the repositories of `owners` may use the named credential `id`
+ */
+export function canUseNamedCredential(id: string, owners: string[]): boolean {
+  const credentials = getNamedCredentials();
+  if (!Object.prototype.hasOwnProperty.call(credentials, id)) return false;
+
+  const allowed = credentials[id].owners;
+  return owners.length > 0 &&
+    owners.every(owner => allowed.includes('*') || allowed.includes(owner.toLowerCase()));
+}
+
+// The repository owners a request body names: its `repoOwner`, or the owners of batch `items`
+function requestOwners(body: { repoOwner?: unknown; items?: unknown }): string[] {
+  if (typeof body.repoOwner === 'string') return [body.repoOwner];
+  if (!Array.isArray(body.items)) return [];
+  return body.items.map(item => item?.owner).filter((owner): owner is string => typeof owner === 'string');
+}
+
+/**
+ * The access token of a request: its bearer token, else the named credential its body
+ * refers to with `credentialId` when that credential serves the owners the body names,
+ * else the deprecated `githubToken` body field. Returns an empty string when there is none,
+ * e.g. for GitHub App or local analyses.
+ */
+export function resolveAccessToken(request: Request, body: unknown): string {
+  const fields = (body || {}) as { credentialId?: unknown; githubToken?: unknown; repoOwner?: unknown; items?: unknown };
+  const bearerToken = getBearerToken(request);
+  if (bearerToken) return bearerToken;
+
+  if (typeof fields.credentialId === 'string' && canUseNamedCredential(fields.credentialId, requestOwners(fields))) {
+    return getNamedCredentials()[fields.credentialId].token;
+  }
+  return typeof fields.githubToken === 'string' ? fields.githubToken : '';
+}
+
+/**
+ * Replaces access tokens in text bound for logs or error responses: the given secrets, every
+ * named credential, and anything shaped like a GitHub or GitLab token, JWT, authorization
+ * header value or token query parameter
+ */
+export function redactSecrets(text: string, secrets: (string | undefined)[] = []): string {
+  const known = [...secrets, ...Object.values(getNamedCredentials()).map(credential => credential.token)]
+    .filter((secret): secret is string => !!secret && secret.length >= MIN_SECRET_LENGTH)
+    // Longer secrets first, in case one contains another
+    .sort((a, b) => b.length - a.length);
+
+  let redacted = text;
+  for (const secret of known) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  for (const [pattern, replacement] of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, replacement);
+  }
+  return redacted;
+}
+
+/**
+ * An error's stack, or its message, with tokens redacted, for logging
+ */
+export function describeError(error: any, secrets: (string | undefined)[] = []): string {
+  return redactSecrets(error?.stack || error?.message || String(error), secrets);
+}
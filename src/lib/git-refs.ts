@@ -0,0 +1,8 @@
+/**
+ * Whether a user supplied branch, tag, SHA or revision such as "HEAD~2" is safe to hand to
+ * git. Refs starting with "-" would be read as options, and whitespace, control characters
+ * and ".." never appear in a single ref (see git check-ref-format).
+ */
+export function isSafeRef(ref: string): boolean {
+  return ref.length > 0 && !ref.startsWith('-') && !ref.includes('..') && !/[\s\x00-\x1f\x7f]/.test(ref);
+}
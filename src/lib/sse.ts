@@ -0,0 +1,56 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Encodes one server-sent event with a JSON payload
+ */
+export function encodeServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parses the complete events in a buffer of server-sent event text and returns them
+ * together with the unfinished remainder, which belongs to the next chunk
+ */
+export function parseServerSentEvents(buffer: string): { events: ServerSentEvent[]; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() || '';
+
+  const events = blocks.flatMap(block => {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    }
+    return data.length > 0 ? [{ event, data: data.join('\n') }] : [];
+  });
+
+  return { events, rest };
+}
+
+/**
+ * Reads a server-sent event stream, such as a fetch response body, until it ends.
+ * EventSource only supports GET, so POST endpoints are read with this instead.
+ */
+export async function readServerSentEvents(
+  stream: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const parsed = parseServerSentEvents(buffer + decoder.decode(value, { stream: true }));
+    buffer = parsed.rest;
+    parsed.events.forEach(onEvent);
+  }
+
+  parseServerSentEvents(buffer + decoder.decode() + '\n\n').events.forEach(onEvent);
+}
@@ -23,6 +23,73 @@ export interface CommitNode {
   };
 }
 
+/**
+ * Typed relations between commits (and PRs) in a lineage. Edges point:
+ * - parent: child commit -> git parent
+ * - squashed-into: original PR commit -> squash commit
+ * - rebased-as: original PR commit -> commit rewritten onto the base branch
+ * - cherry-picked-as: original commit -> cherry-picked copy
+ * - reverts: revert commit -> reverted commit
+ * - belongs-to-PR: commit -> PR reference (`#123`)
+ */
+export type LineageEdgeType =
+  | 'parent'
+  | 'squashed-into'
+  | 'rebased-as'
+  | 'cherry-picked-as'
+  | 'reverts'
+  | 'belongs-to-PR';
+
+export interface LineageEdge {
+  type: LineageEdgeType;
+  from: string;
+  to: string;
+  confidence: number;
+  evidence: Record<string, any>;
+}
+
+export type MergeStrategy = 'merge' | 'squash' | 'rebase' | 'fast-forward' | 'unknown';
+
+export interface PullRequestNode {
+  number: number;
+  title?: string;
+  author?: string;
+  headRef: string;
+  baseRef: string;
+  merged: boolean;
+  // How the PR landed, or null while it is unmerged
+  mergeStrategy: MergeStrategy | null;
+  mergedBy?: string;
+  createdAt?: string;
+  mergedAt?: string;
+  closedAt?: string;
+  mergeCommitSha?: string;
+  // Commits with a belongs-to-PR edge to this PR: branch commits, the merge commit and rebased copies
+  commitShas: string[];
+  // PR whose commits referenced this one, for nested PRs
+  parentPullRequestNumber?: number;
+  cycleTime?: PullRequestCycleTime;
+}
+
+export interface CycleTimeStage {
+  name: 'coding' | 'pickup' | 'review' | 'merge';
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+}
+
+export interface PullRequestCycleTime {
+  firstCommitAt?: string;
+  // When the PR was opened, or marked ready for review if it was opened as a draft
+  openedAt?: string;
+  firstReviewAt?: string;
+  approvedAt?: string;
+  mergedAt?: string;
+  // First commit to merge, or null while unmerged
+  totalMs: number | null;
+  stages: CycleTimeStage[];
+}
+
 export interface SquashDetectionResult {
   method: string;
   confidence: number;
@@ -48,13 +115,333 @@ export interface GitHubMergeEvent {
   };
 }
 
+export interface DataTruncation {
+  pullRequestNumber: number;
+  resource: 'commits' | 'timeline';
+  expected?: number;
+  fetched: number;
+  reason: string;
+}
+
+// Step of the analysis an issue came from
+export type AnalysisStage = 'pull-request' | 'nested-pull-request' | 'cherry-pick' | 'reverts' | 'deployment';
+
+// Part of the lineage that is missing or incomplete, and why
+export interface AnalysisIssue {
+  stage: AnalysisStage;
+  message: string;
+  pullRequestNumber?: number;
+  commitSha?: string;
+  // HTTP status of the failed request, when there was one
+  status?: number;
+  // Whether running the analysis again may fill the gap (rate limits, timeouts, server errors)
+  retryable: boolean;
+}
+
+// "partial" when any warning or error was reported
+export type AnalysisCompleteness = 'complete' | 'partial';
+
+export interface BackportLink {
+  // PR that carries the backported change
+  pullRequestNumber: number;
+  // Branch the backport landed on
+  branch: string;
+  // PRs the change was originally merged in, when known
+  originalPullRequestNumbers: number[];
+  // Backported commits paired with the commits they were cherry-picked from
+  cherryPicks: { sha: string; originalSha: string }[];
+  via: ('trailer' | 'title' | 'body')[];
+}
+
+export type LandingStatus = 'live' | 'reverted' | 're-landed';
+
+export interface PullRequestLandingStatus {
+  pullRequestNumber: number;
+  branch: string;
+  status: LandingStatus;
+  // Revert commits affecting the PR, oldest first
+  revertShas: string[];
+}
+
+export interface LineageDeployment {
+  pullRequestNumber: number;
+  kind: 'deployment' | 'release';
+  // Production environment name, or "release" for releases
+  environment: string;
+  name?: string;
+  sha?: string;
+  ref?: string;
+  url?: string;
+  createdAt: string;
+  // When the deployment succeeded or the release was published
+  deployedAt: string;
+}
+
 export interface AnalyzeCommitLineageOutput {
   summary: string;
   nodes: CommitNode[];
+  edges: LineageEdge[];
+  pullRequests: PullRequestNode[];
+  truncated: boolean;
+  truncations: DataTruncation[];
+  backports: BackportLink[];
+  landingStatuses: PullRequestLandingStatus[];
+  // First production deployment or release containing the analyzed PR
+  deployment: LineageDeployment | null;
+  // Set when the API rate limit ran out and the analysis stopped early with what it had
+  rateLimitExhausted?: {
+    resetAt?: string;
+    // Queued PRs that were not analyzed
+    pendingPullRequests: number[];
+  };
+  // Data that may be incomplete, such as truncated API responses or PRs left out
+  warnings: AnalysisIssue[];
+  // Steps that failed, leaving part of the lineage out
+  errors: AnalysisIssue[];
+  completeness: AnalysisCompleteness;
+}
+
+export interface AnalysisProgress {
+  phase: 'pull-requests' | 'reverts' | 'deployment' | 'complete';
+  pullRequestsAnalyzed: number;
+  // PRs still waiting in the queue
+  pullRequestsQueued: number;
+  commitsFound: number;
+}
+
+export interface RateLimitStatus {
+  limit: number;
+  remaining: number;
+  resetAt?: string;
+}
+
+// GitHub responses served by the response cache during a request
+export interface ApiCacheStats {
+  // Immutable responses served without a request
+  hits: number;
+  // Responses confirmed unchanged with If-None-Match (304s do not count against the rate limit)
+  revalidated: number;
+  // Responses fetched in full
+  misses: number;
+}
+
+// Structured events emitted while an analysis runs
+export type AnalysisEvent =
+  | { type: 'pr-fetched'; pullRequestNumber: number; title?: string; commits: number; parentPullRequestNumber?: number }
+  | { type: 'pr-queued'; pullRequestNumber: number; parentPullRequestNumber?: number; reason: 'nested' | 'backport' }
+  | { type: 'detector-started'; detector: string; commitSha: string }
+  | { type: 'detector-finished'; detector: string; commitSha: string; durationMs: number; isSquash: boolean; confidence: number }
+  | { type: 'rate-limit'; rateLimit: RateLimitStatus }
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'issue'; severity: 'warning' | 'error'; issue: AnalysisIssue };
+
+export type AnalysisEventListener = (event: AnalysisEvent) => void;
+
+// Lineage gathered while an analysis is still running
+export type PartialLineage = Pick<AnalyzeCommitLineageOutput, 'nodes' | 'edges' | 'pullRequests'>;
+
+export interface LeadTimeStage {
+  name: 'commit-to-merge' | 'merge-to-deploy';
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+}
+
+export interface LeadTimeForChanges {
+  pullRequestNumber: number;
+  // Earliest original commit of the change, including squashed and rewritten commits
+  firstCommitSha?: string;
+  firstCommitAt?: string;
+  mergedAt?: string;
+  deployedAt?: string;
+  // First commit to deployment, or to merge while no deployment is known
+  leadTimeMs: number | null;
+  measuredTo: 'deployment' | 'merge' | null;
+  stages: LeadTimeStage[];
+  commitsConsidered: number;
+}
+
+export interface DoraPullRequestResult {
+  pullRequestNumber: number;
+  title?: string;
+  headRef?: string;
+  mergedAt: string;
+  // Title or branch marks the PR as a hotfix
+  hotfix: boolean;
+  landingStatus: LandingStatus;
+  leadTime: LeadTimeForChanges | null;
+  deployment: LineageDeployment | null;
+  // Time until service was restored, for PRs that were reverted or are hotfixes
+  restoreTimeMs: number | null;
+  // Set when the lineage analysis of this PR failed
+  error?: string;
+}
+
+export interface DoraMetrics {
+  deploymentFrequency: {
+    deployments: number;
+    perDay: number;
+    perWeek: number;
+  };
+  leadTime: {
+    samples: number;
+    p50Ms: number | null;
+    p75Ms: number | null;
+    p90Ms: number | null;
+    meanMs: number | null;
+  };
+  changeFailureRate: {
+    // Reverted PRs plus hotfix PRs
+    failures: number;
+    total: number;
+    rate: number | null;
+  };
+  timeToRestore: {
+    samples: number;
+    medianMs: number | null;
+    meanMs: number | null;
+  };
+}
+
+export interface DoraReport {
+  repoOwner: string;
+  repoName: string;
+  branch: string;
+  since: string;
+  until: string;
+  metrics: DoraMetrics;
+  pullRequests: DoraPullRequestResult[];
+  // More PRs were merged in the range than were analyzed
+  truncated: boolean;
+}
+
+// How a commit came to exist in its current form
+export type CommitOriginKind = 'squash' | 'rebase' | 'cherry-pick' | 'merge' | 'pull-request-commit' | 'direct';
+
+export interface CommitOrigin {
+  sha: string;
+  kind: CommitOriginKind;
+  // Commits it was made from: squashed originals, the commit before a rebase, or the cherry-pick source
+  sourceShas: string[];
+  // Commits it was later rewritten into: the squash commit, rebased copy or cherry-picks of it
+  rewrittenAs: string[];
+  // PRs the commit belongs to
+  pullRequestNumbers: number[];
+  confidence: number;
+}
+
+export interface CommitLookupResult {
+  // Lineage of the commit's PR, narrowed to what is connected to the commit
+  commitLineage: AnalyzeCommitLineageOutput;
+  commitOrigin: CommitOrigin;
+  // PR whose lineage was analyzed, or null when none is associated with the commit
+  pullRequestNumber: number | null;
 }
 
 export interface AnalysisResult {
   commitLineage: AnalyzeCommitLineageOutput;
+  leadTime?: LeadTimeForChanges | null;
+  // Set when the analysis started from a commit SHA rather than a PR
+  commitOrigin?: CommitOrigin;
+}
+
+export type AnalysisJobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface AnalysisJob {
+  id: string;
+  state: AnalysisJobState;
+  createdAt: string;
+  updatedAt: string;
+  // What is being analyzed; the access token is never stored
+  request: {
+    provider: string;
+    repoOwner: string;
+    repoName: string;
+    pullRequestNumber: number;
+  };
+  progress: AnalysisProgress | null;
+  // Lineage found so far, kept when the job is cancelled
+  partialResult?: PartialLineage;
+  result?: AnalysisResult;
+  error?: string;
+}
+
+export interface BatchLineageNode extends CommitNode {
+  // Repositories (owner/repo) the commit was found in
+  repositories: string[];
+  // Analyzed PRs whose lineage contains the commit, as owner/repo#number
+  analyzedIn: string[];
+}
+
+export interface BatchPullRequestNode extends PullRequestNode {
+  repository: string;
+}
+
+// Lineages of several PRs combined; belongs-to-PR edges point at owner/repo#number
+export interface MergedLineageGraph {
+  nodes: BatchLineageNode[];
+  edges: LineageEdge[];
+  pullRequests: BatchPullRequestNode[];
+  // Commits that appear in the lineage of more than one analyzed PR
+  sharedCommitCount: number;
+}
+
+export interface BatchAnalysisItem {
+  owner: string;
+  repo: string;
+  pullRequestNumber: number;
+  result?: AnalysisResult;
+  error?: {
+    message: string;
+    // HTTP status of the failed API request, when there was one
+    status?: number;
+  };
+}
+
+export interface BatchAnalysisResult {
+  items: BatchAnalysisItem[];
+  graph: MergedLineageGraph;
+  // Responses served from the batch's shared cache
+  cache: { hits: number; misses: number };
+}
+
+export interface ReleaseCommit {
+  sha: string;
+  shortSha: string;
+  message: string;
+  author: string;
+  date: string;
+}
+
+export interface ReleaseChangelogEntry {
+  pullRequestNumber: number;
+  title?: string;
+  author?: string;
+  mergedAt?: string;
+  mergeStrategy: MergeStrategy | null;
+  // First-parent commits of the range that landed the PR: its merge or squash commit, or every rebased commit
+  landingCommits: string[];
+  // The PR's original commits, including those squashed into its landing commit
+  commits: ReleaseCommit[];
+  error?: string;
+}
+
+export interface ReleaseAnalysis {
+  repoOwner: string;
+  repoName: string;
+  base: string;
+  head: string;
+  headSha: string;
+  // First-parent history of head back to base, newest first
+  firstParentCommits: ReleaseCommit[];
+  // One entry per PR, most recently landed first
+  changelog: ReleaseChangelogEntry[];
+  // First-parent commits no PR is associated with, such as direct pushes
+  directCommits: ReleaseCommit[];
+  // Lineages of every PR in the range, merged
+  lineage: MergedLineageGraph;
+  // More commits are in the range than were listed or analyzed
+  truncated: boolean;
 }
 
 export interface AnalysisState {
@@ -4,3 +4,23 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Formats a duration in milliseconds as its two largest units, e.g. "2d 4h" or "35m"
+ */
+export function formatDuration(ms: number): string {
+  const units: [string, number][] = [['d', 86400000], ['h', 3600000], ['m', 60000], ['s', 1000]];
+  const parts: string[] = [];
+  let remaining = Math.max(0, ms);
+
+  for (const [label, size] of units) {
+    const value = Math.floor(remaining / size);
+    if (value > 0 || (parts.length > 0 && parts.length < 2)) {
+      parts.push(`${value}${label}`);
+      remaining -= value * size;
+    }
+    if (parts.length === 2) break;
+  }
+
+  return parts.length > 0 ? parts.join(' ') : '0s';
+}